@@ -130,7 +130,6 @@ async function addContext(
   const handler = addContextTool.getHandler(testServices.mcpServer);
 
   const params: AddContextParams = {
-    random_string: 'test-random-string',
     contextId,
     message,
     role,
@@ -161,7 +160,6 @@ async function getContext(contextId: string): Promise<Record<string, unknown>> {
   const handler = getContextTool.getHandler(testServices.mcpServer);
 
   const params: GetContextParams = {
-    random_string: 'test-random-string',
     contextId,
   };
 
@@ -199,7 +197,6 @@ async function searchSimilarContexts(
   const handler = getContextTool.getHandler(testServices.mcpServer);
 
   const params: GetContextParams = {
-    random_string: 'test-random-string',
     query,
     limit,
   };
@@ -0,0 +1,98 @@
+/**
+ * Chunker unit tests
+ *
+ * Covers splitting messages into word windows and code blocks, and searching contexts by
+ * their chunks.
+ */
+import assert from 'assert';
+import { TOOL_NAMES } from '../../domain/types';
+import { chunkMessages, chunkText, groupChunkMatches } from '../../utils/chunker';
+import { TestSuite, callTool, createTestServices, message } from './test-harness';
+
+export const chunkerTests: TestSuite = {
+  name: 'Chunker',
+  tests: {
+    'splits long text into overlapping word windows': () => {
+      const text = 'one two three four five six seven';
+
+      const chunks = chunkText(text, { maxWords: 3, overlapWords: 1 });
+
+      assert.deepStrictEqual(
+        chunks.map((chunk) => chunk.text),
+        ['one two three', 'three four five', 'five six seven']
+      );
+      assert.ok(chunks.every((chunk) => text.substring(chunk.start, chunk.end) === chunk.text));
+    },
+
+    'keeps code blocks apart from prose': () => {
+      const content = 'Use this:\n```ts\nconst a = 1;\n```\nThen run it.';
+
+      const chunks = chunkMessages([message('chunks', 'Hello.'), message('chunks', content)]);
+
+      assert.deepStrictEqual(
+        chunks.map(({ text, kind, messageIndex, language }) => ({
+          text,
+          kind,
+          messageIndex,
+          language,
+        })),
+        [
+          { text: 'Hello.', kind: 'text', messageIndex: 0, language: undefined },
+          { text: 'Use this:', kind: 'text', messageIndex: 1, language: undefined },
+          { text: 'const a = 1;', kind: 'code', messageIndex: 1, language: 'ts' },
+          { text: 'Then run it.', kind: 'text', messageIndex: 1, language: undefined },
+        ]
+      );
+      assert.ok(
+        chunks.every(
+          (chunk) =>
+            chunk.messageIndex !== 1 || content.substring(chunk.start, chunk.end) === chunk.text
+        )
+      );
+    },
+
+    'ranks contexts by their best chunk': () => {
+      const chunk = (text: string) => ({ text, kind: 'text' as const, start: 0, end: text.length });
+
+      const results = groupChunkMatches(
+        [
+          { contextId: 'a', chunk: chunk('a1'), similarity: 0.5 },
+          { contextId: 'b', chunk: chunk('b1'), similarity: 0.9 },
+          { contextId: 'a', chunk: chunk('a2'), similarity: 0.7 },
+        ],
+        5
+      );
+
+      assert.deepStrictEqual(
+        results.map((result) => [result.contextId, result.similarity]),
+        [
+          ['b', 0.9],
+          ['a', 0.7],
+        ]
+      );
+      assert.deepStrictEqual(
+        results[1].snippets.map((snippet) => snippet.text),
+        ['a2', 'a1']
+      );
+    },
+
+    'search results point at the matching message': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      for (const content of ['Deploying with docker compose.', 'Tuning postgres indexes.']) {
+        await services.contextService.addMessage({ contextId: 'ops', role: 'user', content });
+      }
+
+      const { payload } = await callTool(services, TOOL_NAMES.GET_CONTEXT, {
+        query: 'postgres indexes',
+      });
+
+      const [result] = payload.contexts as Array<{
+        contextId: string;
+        snippets: Array<{ text: string; messageIndex?: number }>;
+      }>;
+      assert.strictEqual(result.contextId, 'ops');
+      assert.strictEqual(result.snippets[0].messageIndex, 1);
+      assert.strictEqual(result.snippets[0].text, 'Tuning postgres indexes.');
+    },
+  },
+};
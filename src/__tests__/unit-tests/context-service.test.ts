@@ -0,0 +1,105 @@
+/**
+ * Context service unit tests
+ *
+ * Covers the automatic summarization threshold, incremental summaries and relationship
+ * building between similar contexts.
+ */
+import assert from 'assert';
+import { ContextRelationshipType } from '../../domain/types';
+import { TestSuite, createTestServices, message, waitFor } from './test-harness';
+
+export const contextServiceTests: TestSuite = {
+  name: 'ContextService',
+  tests: {
+    'does not summarize below the message threshold': async () => {
+      const services = await createTestServices({ messageLimitThreshold: 3 });
+
+      await services.contextService.addMessage(message('thresholds', 'First message.'));
+      // Give a wrongly triggered background summarization the chance to finish
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      assert.strictEqual(services.summarizer.calls, 0);
+      assert.strictEqual(await services.contextStore.loadSummary('thresholds'), undefined);
+    },
+
+    'summarizes in the background once the threshold is reached': async () => {
+      const services = await createTestServices({ messageLimitThreshold: 3 });
+
+      for (let i = 1; i <= 3; i++) {
+        await services.contextService.addMessage(message('thresholds', `Message ${i}.`));
+      }
+      await waitFor(async () => Boolean(await services.contextStore.loadSummary('thresholds')));
+
+      const metadata = await services.contextStore.loadContextData('thresholds');
+      assert.strictEqual(metadata?.hasSummary, true);
+      assert.strictEqual(metadata?.messagesSinceLastSummary, 0);
+    },
+
+    'does not summarize when autoSummarize is disabled': async () => {
+      const services = await createTestServices({
+        messageLimitThreshold: 1,
+        autoSummarize: false,
+      });
+
+      await services.contextService.addMessage(message('manual', 'Only message.'));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      assert.strictEqual(services.summarizer.calls, 0);
+    },
+
+    'folds messages stored in the same millisecond as the last summary into the next one':
+      async () => {
+        const services = await createTestServices({ autoSummarize: false });
+        const now = Date.now;
+        Date.now = () => 1700000000000;
+        try {
+          await services.contextService.addMessage(message('same-ms', 'First message.'));
+          await services.contextService.triggerManualSummarization('same-ms');
+          await services.contextService.addMessage(message('same-ms', 'Second message.'));
+
+          const result = await services.contextService.triggerManualSummarization('same-ms', {
+            sinceLastSummary: true,
+          });
+
+          assert.strictEqual(result.summary?.summary, 'Summary of 1 messages in same-ms after v1.');
+          const metadata = await services.contextStore.loadContextData('same-ms');
+          assert.strictEqual(metadata?.messagesSinceLastSummary, 0);
+        } finally {
+          Date.now = now;
+        }
+      },
+
+    'links contexts whose messages are similar': async () => {
+      const services = await createTestServices({ similarityThreshold: 0.5 });
+
+      await services.contextService.addMessage(
+        message('auth-api', 'JWT authentication middleware for the express API')
+      );
+      await services.contextService.addMessage(
+        message('auth-api-v2', 'JWT authentication middleware for the express API gateway')
+      );
+      await services.contextService.addMessage(
+        message('styles', 'Tailwind colors, spacing scale and typography tokens')
+      );
+
+      assert.deepStrictEqual(
+        await services.graphRepository.getRelatedContexts(
+          'auth-api-v2',
+          ContextRelationshipType.SIMILAR
+        ),
+        ['auth-api']
+      );
+      assert.deepStrictEqual(await services.graphRepository.getRelatedContexts('styles'), []);
+    },
+
+    'finds similar contexts through the vector repository': async () => {
+      const services = await createTestServices();
+
+      await services.contextService.addMessage(message('db', 'postgres migrations and indexes'));
+      await services.contextService.addMessage(message('ui', 'react component layout'));
+
+      const results = await services.contextService.findSimilarContexts('postgres indexes', 1);
+      assert.strictEqual(results[0]?.contextId, 'db');
+    },
+  },
+};
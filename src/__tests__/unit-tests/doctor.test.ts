@@ -0,0 +1,122 @@
+/**
+ * Doctor unit tests
+ *
+ * Covers detecting and repairing drift between the context, vector and graph stores.
+ */
+import assert from 'assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ContextRelationshipType, DoctorIssueType, TOOL_NAMES } from '../../domain/types';
+import { FileSystemRepository } from '../../repositories/file-system.repository';
+import { runDoctor } from '../../services/doctor';
+import { TestSuite, callTool, createTestServices } from './test-harness';
+
+/**
+ * Collect the issue types reported for each context
+ */
+function issueTypes(issues: Array<{ type: DoctorIssueType; contextId: string }>): string[] {
+  return issues.map((issue) => `${issue.type}:${issue.contextId}`).sort();
+}
+
+export const doctorTests: TestSuite = {
+  name: 'Doctor',
+  tests: {
+    'reports no issues for consistent stores': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await services.contextService.addMessage({ contextId: 'ok', role: 'user', content: 'Hi.' });
+
+      const report = await services.contextService.checkConsistency();
+
+      assert.strictEqual(report.checkedContexts, 1);
+      assert.deepStrictEqual(report.issues, []);
+    },
+
+    'detects and repairs drift between the stores': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      for (const contextId of ['counted', 'unembedded']) {
+        await services.contextService.addMessage({ contextId, role: 'user', content: 'Hello.' });
+      }
+      await services.vectorRepository.deleteContext('unembedded');
+      await services.vectorRepository.addContext('removed', 'gone', 'gone');
+      await services.graphRepository.addRelationship(
+        'counted',
+        'removed',
+        ContextRelationshipType.SIMILAR,
+        0.9
+      );
+      await services.contextStore.updateContextData(
+        'counted',
+        (current) => current && { ...current, totalMessageCount: 5, messagesSinceLastSummary: 5 }
+      );
+
+      const report = await services.contextService.checkConsistency(true);
+
+      assert.deepStrictEqual(issueTypes(report.issues), [
+        'count_mismatch:counted',
+        'missing_embedding:unembedded',
+        'orphan_graph_node:removed',
+        'orphan_vector_entry:removed',
+      ]);
+      assert.ok(report.issues.every((issue) => issue.repaired));
+
+      const metadata = await services.contextStore.loadContextData('counted');
+      assert.strictEqual(metadata?.totalMessageCount, 1);
+      assert.strictEqual(metadata?.messagesSinceLastSummary, 1);
+      assert.strictEqual(await services.vectorRepository.hasEmbedding('unembedded'), true);
+      assert.strictEqual(await services.vectorRepository.hasContext('removed'), false);
+      assert.strictEqual(await services.graphRepository.hasContext('removed'), false);
+      assert.deepStrictEqual((await services.contextService.checkConsistency()).issues, []);
+    },
+
+    'keeps graph nodes of parents without metadata': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await services.contextService.addMessage({ contextId: 'child', role: 'user', content: 'A.' });
+      await services.contextService.setParentContext('child', 'parent');
+
+      const report = await services.contextService.checkConsistency();
+
+      assert.deepStrictEqual(report.issues, []);
+    },
+
+    'doctor tool only reports without repair': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await services.vectorRepository.addContext('removed', 'gone', 'gone');
+
+      const { payload } = await callTool(services, TOOL_NAMES.DOCTOR, {});
+
+      assert.strictEqual(payload.repair, false);
+      assert.deepStrictEqual(payload.issues, [
+        {
+          type: 'orphan_vector_entry',
+          contextId: 'removed',
+          detail: 'Vector entry belongs to a context that is not in the context store',
+          repaired: false,
+        },
+      ]);
+      assert.strictEqual(await services.vectorRepository.hasContext('removed'), true);
+    },
+
+    'drops unparsable message lines from the file store': async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-doctor-test-'));
+      try {
+        const store = new FileSystemRepository(dir);
+        await store.addMessage('broken', { contextId: 'broken', role: 'user', content: 'one' });
+        await fs.appendFile(path.join(dir, 'broken.messages.jsonl'), '{"truncated\n');
+        await store.addMessage('broken', { contextId: 'broken', role: 'user', content: 'two' });
+
+        const report = await runDoctor({ store }, { repair: true });
+
+        assert.deepStrictEqual(issueTypes(report.issues), ['unparsable_message:broken']);
+        assert.match(report.issues[0].detail, /^Message 2 can't be parsed/);
+        assert.deepStrictEqual(await store.listUnparsableMessages('broken'), []);
+        assert.deepStrictEqual(
+          (await store.loadMessages('broken')).map((message) => message.content),
+          ['one', 'two']
+        );
+      } finally {
+        await fs.remove(dir);
+      }
+    },
+  },
+};
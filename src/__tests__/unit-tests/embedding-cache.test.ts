@@ -0,0 +1,151 @@
+/**
+ * Embedding cache unit tests
+ *
+ * Covers deduplication of identical texts, the in-memory LRU layer and the cache file that
+ * keeps embeddings across restarts and is compacted when it exceeds its limit.
+ */
+import assert from 'assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { HashingEmbedder } from '../../testing';
+import { EmbeddingProvider } from '../../utils/embedding';
+import { CachedEmbeddingProvider } from '../../utils/embedding-cache';
+import { TestSuite } from './test-harness';
+
+/**
+ * Provider recording the texts it embeds
+ */
+function countingProvider(dimensions = 8): EmbeddingProvider & { embedded: string[] } {
+  const embedder = new HashingEmbedder(dimensions);
+  const embedded: string[] = [];
+  return {
+    embedded,
+    modelId: embedder.modelId,
+    dimensions,
+    getEmbedding: (text: string) => {
+      embedded.push(text);
+      return embedder.getEmbedding(text);
+    },
+  };
+}
+
+/**
+ * Run a task with a fresh temporary cache directory
+ */
+async function withCacheDir(task: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-embedding-cache-test-'));
+  try {
+    await task(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+export const embeddingCacheTests: TestSuite = {
+  name: 'EmbeddingCache',
+  tests: {
+    'embeds identical text once': async () => {
+      const provider = countingProvider();
+      const cache = new CachedEmbeddingProvider(provider);
+
+      const first = await cache.getEmbeddings(['alpha', 'beta', 'alpha']);
+      const second = await cache.getEmbedding('beta');
+
+      assert.deepStrictEqual(provider.embedded, ['alpha', 'beta']);
+      assert.deepStrictEqual(first[0], first[2]);
+      assert.deepStrictEqual(second, first[1]);
+      assert.deepStrictEqual(cache.stats, {
+        hits: 2,
+        misses: 2,
+        memoryEntries: 2,
+        diskEntries: 0,
+      });
+    },
+
+    'evicts the least recently used embeddings from memory': async () => {
+      const provider = countingProvider();
+      const cache = new CachedEmbeddingProvider(provider, { maxEntries: 2 });
+
+      await cache.getEmbeddings(['a', 'b']);
+      await cache.getEmbedding('a');
+      await cache.getEmbedding('c');
+      await cache.getEmbeddings(['a', 'b']);
+
+      assert.deepStrictEqual(provider.embedded, ['a', 'b', 'c', 'b']);
+    },
+
+    'keeps embeddings on disk across restarts': () =>
+      withCacheDir(async (dir) => {
+        const first = new CachedEmbeddingProvider(countingProvider(), { directory: dir });
+        const stored = await first.getEmbeddings(['kafka consumer lag', 'pg_dump backups']);
+        await first.close();
+
+        const provider = countingProvider();
+        const reopened = new CachedEmbeddingProvider(provider, { directory: dir });
+        const loaded = await reopened.getEmbeddings(['pg_dump backups', 'kafka consumer lag']);
+
+        assert.deepStrictEqual(provider.embedded, []);
+        // Vectors are stored as Float32 values
+        loaded
+          .reverse()
+          .forEach((embedding, position) =>
+            embedding.forEach((value, i) => assert.ok(Math.abs(value - stored[position][i]) < 1e-6))
+          );
+
+        const otherModel = countingProvider(16);
+        await new CachedEmbeddingProvider(otherModel, { directory: dir }).getEmbedding(
+          'kafka consumer lag'
+        );
+        assert.deepStrictEqual(otherModel.embedded, ['kafka consumer lag']);
+      }),
+
+    'skips a partial record left by an interrupted write': () =>
+      withCacheDir(async (dir) => {
+        await new CachedEmbeddingProvider(countingProvider(), { directory: dir }).getEmbedding(
+          'first'
+        );
+        const [fileName] = (await fs.readdir(dir)).filter((name) => name.endsWith('.bin'));
+        await fs.appendFile(path.join(dir, fileName), Buffer.from([1, 2, 3]));
+
+        const writer = new CachedEmbeddingProvider(countingProvider(), { directory: dir });
+        await writer.getEmbedding('second');
+
+        const provider = countingProvider();
+        const reader = new CachedEmbeddingProvider(provider, { directory: dir });
+        await reader.getEmbeddings(['first', 'second']);
+        assert.deepStrictEqual(provider.embedded, []);
+        assert.strictEqual(reader.stats.diskEntries, 2);
+      }),
+
+    'compacts the cache file to its most recent embeddings': () =>
+      withCacheDir(async (dir) => {
+        const writer = new CachedEmbeddingProvider(countingProvider(), {
+          directory: dir,
+          maxDiskEntries: 4,
+        });
+        // Another process sharing the file sees the compaction at its next append
+        const other = new CachedEmbeddingProvider(countingProvider(), {
+          directory: dir,
+          maxDiskEntries: 4,
+        });
+        await writer.getEmbeddings(['a', 'b', 'c', 'd']);
+        await other.getEmbedding('a');
+        await writer.getEmbedding('e');
+
+        const [fileName] = (await fs.readdir(dir)).filter((name) => name.endsWith('.bin'));
+        const { size } = await fs.stat(path.join(dir, fileName));
+        // Three records of a 32-byte hash and eight Float32 values
+        assert.strictEqual(size, 3 * (32 + 8 * 4));
+        assert.strictEqual(writer.stats.diskEntries, 3);
+
+        await other.getEmbedding('f');
+        assert.strictEqual(other.stats.diskEntries, 4);
+
+        const provider = countingProvider();
+        const reader = new CachedEmbeddingProvider(provider, { directory: dir });
+        await reader.getEmbeddings(['c', 'd', 'e', 'f', 'a', 'b']);
+        assert.deepStrictEqual(provider.embedded, ['a', 'b']);
+      }),
+  },
+};
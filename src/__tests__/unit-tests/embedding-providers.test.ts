@@ -0,0 +1,221 @@
+/**
+ * Embedding provider unit tests
+ *
+ * Covers the hashed n-gram fallback, provider selection and the OpenAI-compatible embedder
+ * against a local HTTP server.
+ */
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createEmbeddingProvider,
+  listEmbeddingProviders,
+  registerEmbeddingProvider,
+} from '../../services/embedding-registry';
+import { HashingEmbedder } from '../../testing/hashing-embedder';
+import { embedInBatches } from '../../utils/embedding';
+import {
+  DEFAULT_HASHED_NGRAM_DIMENSIONS,
+  HashedNgramEmbedder,
+} from '../../utils/hashed-ngram-embedder';
+import { OpenAICompatibleEmbedder } from '../../utils/openai-embedder';
+import { TestSuite } from './test-harness';
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+function similarity(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+/**
+ * Request received by the fake embeddings server
+ */
+interface RecordedRequest {
+  url?: string;
+  authorization?: string;
+  body: { model: string; input: string[]; dimensions?: number };
+}
+
+/**
+ * Start a server answering `/embeddings` with one vector per input, in reverse order
+ * @param handle Called with each request; returns the vector for an input
+ * @returns Base URL, recorded requests and a function stopping the server
+ */
+async function startEmbeddingServer(handle: (input: string) => number[]): Promise<{
+  baseUrl: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}> {
+  const requests: RecordedRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = JSON.parse(raw) as RecordedRequest['body'];
+      requests.push({ url: req.url, authorization: req.headers.authorization, body });
+      const data = body.input.map((input, index) => ({ index, embedding: handle(input) }));
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ data: data.reverse() }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1/`,
+    requests,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+export const embeddingProviderTests: TestSuite = {
+  name: 'EmbeddingProviders',
+  tests: {
+    'hashes text into deterministic unit vectors': async () => {
+      const embedder = new HashedNgramEmbedder();
+
+      const first = await embedder.getEmbedding('Connection pooling in Postgres');
+      const second = await new HashedNgramEmbedder().getEmbedding('Connection pooling in Postgres');
+
+      assert.strictEqual(first.length, DEFAULT_HASHED_NGRAM_DIMENSIONS);
+      assert.deepStrictEqual(first, second);
+      assert.ok(Math.abs(similarity(first, first) - 1) < 1e-9);
+      assert.deepStrictEqual(await embedder.getEmbedding('  '), new Array(256).fill(0));
+      assert.strictEqual(embedder.modelId, 'hashed-ngram-v1-256');
+    },
+
+    'scores related word forms above unrelated text': async () => {
+      const embedder = new HashedNgramEmbedder();
+      const query = await embedder.getEmbedding('database connections');
+
+      const related = await embedder.getEmbedding('the database connection pool');
+      const unrelated = await embedder.getEmbedding('react component layout');
+      const korean = await embedder.getEmbedding('데이터베이스연결');
+
+      assert.ok(similarity(query, related) > similarity(query, unrelated));
+      assert.ok(
+        similarity(korean, await embedder.getEmbedding('데이터베이스 연결 풀')) >
+          similarity(korean, unrelated)
+      );
+    },
+
+    'selects the configured provider': async () => {
+      const hashing = await createEmbeddingProvider({ provider: 'hashing', dimensions: 64 });
+      assert.strictEqual(hashing.modelId, 'hashed-ngram-v1-64');
+
+      const server = await startEmbeddingServer(() => new Array(768).fill(0.1));
+      try {
+        const ollama = await createEmbeddingProvider({
+          provider: 'ollama',
+          baseUrl: server.baseUrl,
+        });
+        assert.strictEqual(ollama.modelId, 'ollama/nomic-embed-text');
+        assert.strictEqual(ollama.dimensions, 768);
+        assert.deepStrictEqual(server.requests[0].body.input, ['ping']);
+      } finally {
+        await server.close();
+      }
+
+      registerEmbeddingProvider('test-hashing', () => new HashingEmbedder(32));
+      assert.ok(listEmbeddingProviders().includes('test-hashing'));
+      assert.strictEqual(
+        (await createEmbeddingProvider({ provider: 'test-hashing' })).modelId,
+        'hashed-ngram-v1-32'
+      );
+    },
+
+    'falls back to hashing when the ONNX model is missing': async () => {
+      const provider = await createEmbeddingProvider({
+        modelPath: './does-not-exist/model.onnx',
+        dimensions: 384,
+      });
+
+      assert.ok(provider instanceof HashedNgramEmbedder);
+      assert.strictEqual(provider.dimensions, DEFAULT_HASHED_NGRAM_DIMENSIONS);
+    },
+
+    'sizes the fallback for the configured vector index': async () => {
+      const server = await startEmbeddingServer(() => [1, 0]);
+      await server.close();
+
+      const provider = await createEmbeddingProvider(
+        { provider: 'openai', baseUrl: server.baseUrl, dimensions: 1536, timeoutMs: 1000 },
+        undefined,
+        512
+      );
+
+      assert.ok(provider instanceof HashedNgramEmbedder);
+      assert.strictEqual(provider.dimensions, 512);
+      assert.strictEqual(provider.modelId, 'hashed-ngram-v1-512');
+    },
+
+    'reports unavailable providers when the fallback is disabled': async () => {
+      await assert.rejects(
+        createEmbeddingProvider({
+          modelPath: './does-not-exist/model.onnx',
+          fallbackToHashing: false,
+        }),
+        /Model file not found/
+      );
+      await assert.rejects(
+        createEmbeddingProvider({
+          provider: 'openai',
+          model: 'custom-embedder',
+          fallbackToHashing: false,
+        }),
+        /set embedding\.dimensions/
+      );
+    },
+
+    'embeds batches through an OpenAI-compatible endpoint': async () => {
+      const server = await startEmbeddingServer((input) => [input.length, 1, 0]);
+      try {
+        const embedder = new OpenAICompatibleEmbedder('openai', {
+          baseUrl: server.baseUrl,
+          model: 'small-embedder',
+          apiKey: 'secret',
+          dimensions: 3,
+        });
+
+        const embeddings = await embedInBatches(embedder, ['a', 'bb', 'ccc'], 2);
+
+        assert.deepStrictEqual(embeddings, [
+          [1, 1, 0],
+          [2, 1, 0],
+          [3, 1, 0],
+        ]);
+        assert.strictEqual(server.requests.length, 2);
+        assert.strictEqual(server.requests[0].url, '/v1/embeddings');
+        assert.strictEqual(server.requests[0].authorization, 'Bearer secret');
+        assert.deepStrictEqual(server.requests[0].body, {
+          model: 'small-embedder',
+          input: ['a', 'bb'],
+          dimensions: 3,
+        });
+        assert.strictEqual(embedder.modelId, 'openai/small-embedder');
+      } finally {
+        await server.close();
+      }
+    },
+
+    'rejects vectors of another length than declared': async () => {
+      const server = await startEmbeddingServer(() => [1, 0]);
+      try {
+        const embedder = new OpenAICompatibleEmbedder('ollama', {
+          baseUrl: server.baseUrl,
+          model: 'all-minilm',
+        });
+
+        await assert.rejects(embedder.ensureInitialized(), /returned 2 dimensions, expected 384/);
+        await assert.rejects(
+          embedInBatches(embedder, ['text']),
+          /returned 2 dimensions, expected 384/
+        );
+        assert.strictEqual(server.requests[0].body.dimensions, undefined);
+      } finally {
+        await server.close();
+      }
+    },
+  },
+};
@@ -0,0 +1,160 @@
+/**
+ * Embedding tokenizer unit tests
+ *
+ * Compares token IDs of the WordPiece and Unigram tokenizers with the IDs the Python tokenizers
+ * library (0.23) produces for the fixtures in fixtures/tokenizers: BertWordPieceTokenizer over
+ * wordpiece/vocab.txt and Tokenizer.from_file on unigram/tokenizer.json, which carries the nmt_nfkc
+ * character map of XLM-R models. The vocabularies are small fixtures, not those of a real model.
+ */
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import {
+  createWordPieceTokenizer,
+  loadTokenizer,
+  parseTokenizerJson,
+} from '../../utils/embedding-tokenizer';
+import { TestSuite } from './test-harness';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'tokenizers');
+const WORDPIECE_DIR = path.join(FIXTURES_DIR, 'wordpiece');
+const UNIGRAM_DIR = path.join(FIXTURES_DIR, 'unigram');
+
+/** Text covering subwords, an identifier, punctuation, accents, CJK and an unknown word */
+const ENGLISH_TEXT = 'The unaffable getUserById() café 中文! gets';
+const ENGLISH_IDS = [2, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 15, 16, 17, 14, 1, 3];
+
+/** Unigram IDs for CJK, accented, punctuation-heavy and compatibility-form text */
+const UNIGRAM_IDS: Array<[string, number[]]> = [
+  ['中文 日本語', [0, 19, 20, 21, 2]],
+  ['café naïve', [0, 22, 23, 24, 2]],
+  ['cafe\u0301 nai\u0308ve', [0, 22, 23, 24, 2]],
+  ['hello!!! (world)... fetch?', [0, 11, 18, 18, 18, 32, 35, 26, 27, 16, 17, 29, 2]],
+  ['\u201chello\u201d \u2013 world\u2026', [0, 4, 3, 13, 3, 4, 3, 14, 27, 2]],
+  ['ﬁ ① ㈜ ｶ', [0, 30, 31, 32, 33, 26, 34, 2]],
+];
+
+/** Unigram IDs for whitespace, zero-width and control characters */
+const UNIGRAM_SPACING_IDS: Array<[string, number[]]> = [
+  ['ｈｅｌｌｏ\u3000world', [0, 11, 14, 2]],
+  ['hello\u00a0world', [0, 11, 14, 2]],
+  ['hello\tworld\n', [0, 11, 14, 2]],
+  ['  hello   world  ', [0, 11, 14, 2]],
+  ['hello\u200bworld', [0, 11, 14, 2]],
+  ['hello\u0007world', [0, 11, 35, 2]],
+  ['hello\u00adworld', [0, 11, 3, 35, 2]],
+];
+
+export const embeddingTokenizerTests: TestSuite = {
+  name: 'EmbeddingTokenizer',
+  tests: {
+    'encodes uncased WordPiece text from vocab.txt': () => {
+      const tokenizer = loadTokenizer(WORDPIECE_DIR);
+
+      const encoded = tokenizer.encode(ENGLISH_TEXT);
+
+      assert.deepStrictEqual(encoded.ids, ENGLISH_IDS);
+      assert.deepStrictEqual(
+        encoded.attentionMask,
+        ENGLISH_IDS.map(() => 1)
+      );
+      assert.deepStrictEqual(
+        encoded.typeIds,
+        ENGLISH_IDS.map(() => 0)
+      );
+      assert.strictEqual(tokenizer.padId, 0);
+    },
+
+    'keeps Korean syllables in cased WordPiece models': () => {
+      const vocab = fs.readFileSync(path.join(WORDPIECE_DIR, 'vocab.txt'), 'utf8');
+      const tokenizer = createWordPieceTokenizer(vocab, { lowercase: false });
+
+      assert.deepStrictEqual(tokenizer.encode('Hello 한국어는').ids, [2, 22, 18, 19, 20, 21, 3]);
+    },
+
+    'truncates to the maximum length keeping the special tokens': () => {
+      const tokenizer = loadTokenizer(WORDPIECE_DIR);
+
+      assert.deepStrictEqual(tokenizer.encode(ENGLISH_TEXT, 5).ids, [2, 4, 5, 6, 3]);
+    },
+
+    'encodes text pairs with segment IDs, truncating the longer text': () => {
+      const tokenizer = loadTokenizer(WORDPIECE_DIR);
+
+      const encoded = tokenizer.encodePair('The unaffable', 'get', 6);
+
+      assert.deepStrictEqual(encoded.ids, [2, 4, 5, 3, 8, 3]);
+      assert.deepStrictEqual(encoded.typeIds, [0, 0, 0, 0, 1, 1]);
+    },
+
+    'reads WordPiece tokenizer.json like vocab.txt': () => {
+      const vocab = fs
+        .readFileSync(path.join(WORDPIECE_DIR, 'vocab.txt'), 'utf8')
+        .split('\n')
+        .filter(Boolean);
+      const tokenizer = parseTokenizerJson({
+        normalizer: { type: 'BertNormalizer', lowercase: true, strip_accents: null },
+        pre_tokenizer: { type: 'BertPreTokenizer' },
+        post_processor: { type: 'BertProcessing', cls: ['[CLS]', 2], sep: ['[SEP]', 3] },
+        model: {
+          type: 'WordPiece',
+          unk_token: '[UNK]',
+          vocab: Object.fromEntries(vocab.map((token, id) => [token, id])),
+        },
+      });
+
+      assert.deepStrictEqual(tokenizer.encode(ENGLISH_TEXT).ids, ENGLISH_IDS);
+    },
+
+    'encodes multilingual text with a SentencePiece Unigram model': () => {
+      const tokenizer = loadTokenizer(UNIGRAM_DIR);
+
+      const encoded = tokenizer.encode('ｈｅｌｌｏ  world! 안녕하세요 fetch Ω≈');
+
+      // <s> ▁hello ▁world ! ▁안녕 하세요 ▁fe tch ▁ <unk> </s>
+      assert.deepStrictEqual(encoded.ids, [0, 11, 14, 18, 5, 6, 16, 17, 4, 3, 2]);
+      assert.strictEqual(tokenizer.padId, 1);
+    },
+
+    'encodes CJK, accented and punctuation-heavy text like SentencePiece': () => {
+      const tokenizer = loadTokenizer(UNIGRAM_DIR);
+
+      for (const [text, ids] of UNIGRAM_IDS) {
+        assert.deepStrictEqual(tokenizer.encode(text).ids, ids, text);
+      }
+    },
+
+    'applies the nmt_nfkc rules to spaces and control characters': () => {
+      const tokenizer = loadTokenizer(UNIGRAM_DIR);
+
+      for (const [text, ids] of UNIGRAM_SPACING_IDS) {
+        assert.deepStrictEqual(tokenizer.encode(text).ids, ids, JSON.stringify(text));
+      }
+    },
+
+    'encodes Unigram text pairs with the template of tokenizer.json': () => {
+      const tokenizer = loadTokenizer(UNIGRAM_DIR);
+
+      assert.deepStrictEqual(
+        tokenizer.encodePair('中文 日本語', 'fetch?').ids,
+        [0, 19, 20, 21, 2, 2, 16, 17, 29, 2]
+      );
+      assert.deepStrictEqual(
+        tokenizer.encodePair('hello world! 안녕하세요', 'café naïve', 8).ids,
+        [0, 11, 14, 2, 2, 22, 23, 2]
+      );
+    },
+
+    'produces the same IDs in every process': () => {
+      const first = loadTokenizer(UNIGRAM_DIR).encode('안녕하세요 world').ids;
+      const second = loadTokenizer(UNIGRAM_DIR).encode('안녕하세요 world').ids;
+
+      assert.deepStrictEqual(first, second);
+      assert.deepStrictEqual(first, [0, 5, 6, 14, 2]);
+    },
+
+    'reports a missing tokenizer': () => {
+      assert.throws(() => loadTokenizer(FIXTURES_DIR), /expected tokenizer\.json or vocab\.txt/);
+    },
+  },
+};
@@ -0,0 +1,98 @@
+/**
+ * In-memory repository unit tests
+ */
+import assert from 'assert';
+import { ContextRelationshipType, ContextSummary } from '../../domain/types';
+import {
+  HashingEmbedder,
+  InMemoryContextRepository,
+  InMemoryGraphRepository,
+  InMemoryVectorRepository,
+} from '../../testing';
+import { TestSuite } from './test-harness';
+
+/**
+ * Build a minimal summary for a context
+ */
+function makeSummary(contextId: string, version: number): ContextSummary {
+  return {
+    contextId,
+    version,
+    createdAt: version,
+    summary: `Summary v${version}`,
+    codeBlocks: [],
+    messageCount: version,
+  };
+}
+
+export const inMemoryRepositoryTests: TestSuite = {
+  name: 'In-memory repositories',
+  tests: {
+    'hashing embedder is deterministic and normalized': async () => {
+      const embedder = new HashingEmbedder(64);
+      const first = await embedder.getEmbedding('React hooks and state');
+      const second = await embedder.getEmbedding('React hooks and state');
+
+      assert.deepStrictEqual(first, second);
+      assert.strictEqual(first.length, 64);
+      const norm = Math.sqrt(first.reduce((sum, value) => sum + value * value, 0));
+      assert.ok(Math.abs(norm - 1) < 1e-9);
+    },
+
+    'vector repository ranks texts sharing words first': async () => {
+      const vector = new InMemoryVectorRepository();
+      await vector.addContext('react', 'react component state hooks', 'react');
+      await vector.addContext('sql', 'postgres index query planner', 'sql');
+
+      const results = await vector.findSimilarContexts('react hooks', 2);
+
+      assert.strictEqual(results[0].contextId, 'react');
+      assert.ok((results[0].similarity ?? 0) > (results[1].similarity ?? 0));
+    },
+
+    'context repository tracks metadata and filters listings': async () => {
+      const store = new InMemoryContextRepository();
+      await store.addMessage('a', { contextId: 'a', role: 'user', content: 'one', tags: ['api'] });
+      await store.addMessage('a', { contextId: 'a', role: 'assistant', content: 'two' });
+      await store.addMessage('b', { contextId: 'b', role: 'user', content: 'three', tags: ['ui'] });
+
+      const metadata = await store.loadContextData('a');
+      assert.strictEqual(metadata?.totalMessageCount, 2);
+      assert.strictEqual(metadata?.messagesSinceLastSummary, 2);
+      assert.deepStrictEqual(
+        (await store.listContextMetadata({ tags: ['api'] })).map((entry) => entry.contextId),
+        ['a']
+      );
+    },
+
+    'context repository keeps summary history': async () => {
+      const store = new InMemoryContextRepository();
+      await store.addMessage('a', { contextId: 'a', role: 'user', content: 'hello' });
+      await store.saveSummary(makeSummary('a', 1));
+      await store.saveSummary(makeSummary('a', 2));
+
+      assert.strictEqual((await store.loadSummary('a'))?.version, 2);
+      assert.deepStrictEqual(
+        (await store.listSummaryHistory('a')).map((summary) => summary.version),
+        [1, 2]
+      );
+      assert.strictEqual((await store.loadContext('a'))?.hasSummary, true);
+
+      await store.deleteContext('a');
+      assert.strictEqual(await store.loadContext('a'), undefined);
+    },
+
+    'graph repository removes edges with their context': async () => {
+      const graph = new InMemoryGraphRepository();
+      await graph.addRelationship('a', 'b', ContextRelationshipType.SIMILAR, 0.9);
+      await graph.addRelationship('c', 'a', ContextRelationshipType.SIMILAR, 0.7);
+
+      assert.deepStrictEqual(await graph.getRelatedContexts('a'), ['b']);
+      assert.strictEqual(await graph.getEdgeCount('a'), 2);
+
+      await graph.deleteContext('a');
+      assert.strictEqual(await graph.hasContext('a'), false);
+      assert.strictEqual(await graph.getEdgeCount('c'), 0);
+    },
+  },
+};
@@ -0,0 +1,160 @@
+/**
+ * Keyword search unit tests
+ *
+ * Covers identifier tokenization, BM25 ranking, query term highlighting, rank fusion in hybrid
+ * search and the keyword fallback when vector search is unavailable.
+ */
+import assert from 'assert';
+import { Bm25Index, highlightTerms, tokenize } from '../../utils/bm25';
+import { chunkPlainText } from '../../utils/chunker';
+import { fuseRankings } from '../../utils/search-ranking';
+import { TestSuite, createTestServices, message } from './test-harness';
+
+export const keywordSearchTests: TestSuite = {
+  name: 'KeywordSearch',
+  tests: {
+    'keeps identifiers whole and adds their parts': () => {
+      assert.deepStrictEqual(tokenize('Call getUserById, got ERR_CONN_RESET'), [
+        'call',
+        'getuserbyid',
+        'get',
+        'user',
+        'by',
+        'id',
+        'got',
+        'err_conn_reset',
+        'err',
+        'conn',
+        'reset',
+      ]);
+      assert.deepStrictEqual(tokenize('lodash.merge'), ['lodash.merge', 'lodash', 'merge']);
+    },
+
+    'ranks rare exact terms above common words': () => {
+      const index = new Bm25Index();
+      index.setContext('common', chunkPlainText('the error the error the error'));
+      index.setContext('exact', chunkPlainText('the parser threw E1042 on this error'));
+      index.setContext('other', chunkPlainText('the build passed'));
+
+      const matches = index.search('error E1042');
+
+      assert.deepStrictEqual(
+        matches.map((match) => match.contextId),
+        ['exact', 'common']
+      );
+      index.removeContext('exact');
+      assert.deepStrictEqual(
+        index.search('E1042').map((match) => match.contextId),
+        []
+      );
+    },
+
+    'highlights identifiers that contain query terms': () => {
+      const { highlights, highlightedText } = highlightTerms(
+        'Call getUserById, then retry',
+        'user RETRY'
+      );
+
+      assert.deepStrictEqual(highlights, [
+        { start: 5, end: 16 },
+        { start: 23, end: 28 },
+      ]);
+      assert.strictEqual(highlightedText, 'Call **getUserById**, then **retry**');
+      assert.strictEqual(highlightTerms('no match', 'kafka').highlightedText, 'no match');
+    },
+
+    'fuses rankings by reciprocal rank': () => {
+      const result = (contextId: string, similarity?: number) => ({
+        contextId,
+        text: contextId,
+        summary: contextId,
+        type: 'similar',
+        weight: 0,
+        similarity,
+      });
+
+      const fused = fuseRankings(
+        [
+          [result('a', 0.9), result('b', 0.8)],
+          [result('b'), result('c')],
+        ],
+        2
+      );
+
+      assert.deepStrictEqual(
+        fused.map((context) => context.contextId),
+        ['b', 'a']
+      );
+      assert.strictEqual(fused[0].similarity, 0.8);
+    },
+
+    'finds exact identifiers in hybrid mode': async () => {
+      const services = await createTestServices();
+      await services.contextService.addMessage(
+        message('timeout', 'fetchInvoices fails with ETIMEDOUT behind the proxy')
+      );
+      await services.contextService.addMessage(
+        message('invoices', 'invoice totals are rounded when fetched from billing')
+      );
+
+      const results = await services.contextService.findSimilarContexts('ETIMEDOUT', 1);
+
+      assert.strictEqual(results[0]?.contextId, 'timeout');
+      assert.strictEqual(results[0]?.snippets?.[0]?.messageIndex, 0);
+    },
+
+    'falls back to keyword search when vector search fails': async () => {
+      const services = await createTestServices();
+      await services.contextService.addMessage(message('db', 'pg_dump --format=custom backups'));
+      await services.contextService.addMessage(message('ui', 'react component layout'));
+      services.vectorRepository.findSimilarContexts = async () => {
+        throw new Error('Embedding model not found');
+      };
+
+      const results = await services.contextService.findSimilarContexts('pg_dump', 5, {
+        mode: 'vector',
+      });
+
+      assert.deepStrictEqual(
+        results.map((result) => [result.contextId, result.type]),
+        [['db', 'keyword']]
+      );
+    },
+
+    'returns nothing without vectors when the keyword fallback is disabled': async () => {
+      const services = await createTestServices({ fallbackToKeywordMatch: false });
+      await services.contextService.addMessage(message('db', 'pg_dump backups'));
+      services.vectorRepository.findSimilarContexts = async () => {
+        throw new Error('Embedding model not found');
+      };
+
+      assert.deepStrictEqual(await services.contextService.findSimilarContexts('pg_dump'), []);
+      assert.strictEqual(
+        (await services.contextService.findSimilarContexts('pg_dump', 5, { mode: 'keyword' }))
+          .length,
+        1
+      );
+    },
+
+    'updates the keyword index when contexts change': async () => {
+      const services = await createTestServices();
+      await services.contextService.addMessage(message('notes', 'first note'));
+      assert.strictEqual(
+        (await services.contextService.findSimilarContexts('kafka', 5, { mode: 'keyword' })).length,
+        0
+      );
+
+      await services.contextService.addMessage(message('notes', 'kafka consumer lag'));
+      assert.strictEqual(
+        (await services.contextService.findSimilarContexts('kafka', 5, { mode: 'keyword' })).length,
+        1
+      );
+
+      await services.contextService.deleteContext('notes');
+      assert.strictEqual(
+        (await services.contextService.findSimilarContexts('kafka', 5, { mode: 'keyword' })).length,
+        0
+      );
+    },
+  },
+};
@@ -0,0 +1,188 @@
+/**
+ * MCP tool handler unit tests
+ */
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TOOL_NAMES } from '../../domain/types';
+import { TestSuite, callTool, createTestServices } from './test-harness';
+
+export const mcpToolTests: TestSuite = {
+  name: 'MCP tool handlers',
+  tests: {
+    'add_context stores a message that get_context returns': async () => {
+      const services = await createTestServices();
+
+      const added = await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'tools',
+        message: 'Use zod to validate tool arguments.',
+        role: 'assistant',
+        tags: ['validation'],
+      });
+      assert.strictEqual(added.isError, false);
+
+      const { payload } = await callTool(services, TOOL_NAMES.GET_CONTEXT, { contextId: 'tools' });
+      const context = payload.context as { messages: Array<{ content: string }> };
+      assert.strictEqual(context.messages.length, 1);
+      assert.strictEqual(context.messages[0].content, 'Use zod to validate tool arguments.');
+    },
+
+    'invalid arguments are rejected with an error response': async () => {
+      const services = await createTestServices();
+
+      const result = await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'tools',
+        role: 'assistant',
+      });
+
+      assert.strictEqual(result.isError, true);
+      assert.match(String(result.payload.error), /Invalid arguments: message/);
+    },
+
+    'get_context reports unknown contexts': async () => {
+      const services = await createTestServices();
+
+      const result = await callTool(services, TOOL_NAMES.GET_CONTEXT, { contextId: 'missing' });
+
+      assert.strictEqual(result.isError, true);
+    },
+
+    'list_contexts filters by tag': async () => {
+      const services = await createTestServices();
+      await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'tagged',
+        message: 'Tagged message.',
+        role: 'user',
+        tags: ['keep'],
+      });
+      await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'untagged',
+        message: 'Untagged message.',
+        role: 'user',
+      });
+
+      const { payload } = await callTool(services, TOOL_NAMES.LIST_CONTEXTS, { tags: ['keep'] });
+      const contexts = payload.contexts as Array<{ metadata: { contextId: string } }>;
+
+      assert.deepStrictEqual(
+        contexts.map((entry) => entry.metadata.contextId),
+        ['tagged']
+      );
+    },
+
+    'get_context filters query results by tags, role and excluded contexts': async () => {
+      const services = await createTestServices();
+      const add = (contextId: string, role: string, tags: string[]) =>
+        callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+          contextId,
+          message: 'Redis cache eviction policy',
+          role,
+          tags,
+        });
+      await add('project-x', 'user', ['project-x']);
+      await add('project-x-answer', 'assistant', ['project-x']);
+      await add('project-y', 'user', ['project-y']);
+      await add('project-x-old', 'user', ['project-x']);
+
+      const search = async (args: Record<string, unknown>) => {
+        const { payload } = await callTool(services, TOOL_NAMES.GET_CONTEXT, {
+          query: 'redis eviction',
+          ...args,
+        });
+        const contexts = payload.contexts as Array<{ contextId: string }>;
+        return contexts.map((context) => context.contextId).sort();
+      };
+
+      assert.deepStrictEqual(await search({ tags: ['project-x'], role: 'user' }), [
+        'project-x',
+        'project-x-old',
+      ]);
+      assert.deepStrictEqual(
+        await search({ tags: ['project-x'], excludeContextIds: ['project-x-old'] }),
+        ['project-x', 'project-x-answer']
+      );
+      assert.deepStrictEqual(await search({ contextIds: ['project-y'], tags: ['project-x'] }), []);
+      assert.deepStrictEqual(await search({ since: Date.now() + 60000 }), []);
+    },
+
+    'summarize_context creates a new summary version': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'summarized',
+        message: 'We decided to use SQLite for storage.',
+        role: 'user',
+      });
+
+      const result = await callTool(services, TOOL_NAMES.SUMMARIZE_CONTEXT, {
+        contextId: 'summarized',
+      });
+
+      assert.strictEqual(result.isError, false);
+      assert.strictEqual((await services.contextStore.loadSummary('summarized'))?.version, 1);
+    },
+
+    'delete_context removes the context from every repository': async () => {
+      const services = await createTestServices();
+      await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'doomed',
+        message: 'Temporary notes.',
+        role: 'user',
+      });
+
+      const result = await callTool(services, TOOL_NAMES.DELETE_CONTEXT, { contextId: 'doomed' });
+
+      assert.strictEqual(result.isError, false);
+      assert.strictEqual(await services.contextStore.loadContext('doomed'), undefined);
+      assert.strictEqual(await services.vectorRepository.hasContext('doomed'), false);
+    },
+
+    'delete_context waits for a message being added to the context': async () => {
+      const services = await createTestServices();
+      await callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'doomed',
+        message: 'Temporary notes.',
+        role: 'user',
+      });
+
+      const adding = callTool(services, TOOL_NAMES.ADD_CONTEXT, {
+        contextId: 'doomed',
+        message: 'A late note.',
+        role: 'user',
+      });
+      const deleting = callTool(services, TOOL_NAMES.DELETE_CONTEXT, { contextId: 'doomed' });
+      await Promise.all([adding, deleting]);
+
+      assert.strictEqual(await services.contextStore.loadContext('doomed'), undefined);
+      assert.strictEqual(await services.vectorRepository.hasContext('doomed'), false);
+    },
+
+    '/info masks every API key in the configuration': async () => {
+      const secrets = ['top-level-key', 'summarizer-key', 'embedding-key'];
+      const services = await createTestServices({
+        apiKey: secrets[0],
+        summarizer: { provider: 'openai', apiKey: secrets[1] },
+        embedding: { provider: 'openai', apiKey: secrets[2] },
+      });
+      const server = http.createServer((req, res) =>
+        services.mcpServer.handleHttpRequest(req, res)
+      );
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const response = await fetch(`http://127.0.0.1:${port}/info`);
+        const body = await response.text();
+
+        assert.strictEqual(response.status, 200);
+        for (const secret of secrets) {
+          assert.ok(!body.includes(secret), `${secret} leaked`);
+        }
+        const { config } = JSON.parse(body);
+        assert.strictEqual(config.embedding.apiKey, '********');
+        assert.strictEqual(config.summarizer.provider, 'openai');
+      } finally {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+      }
+    },
+  },
+};
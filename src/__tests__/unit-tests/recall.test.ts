@@ -0,0 +1,134 @@
+/**
+ * Recall unit tests
+ *
+ * Covers packing a context into a token budget: budget compliance, priority order when the
+ * budget is tight, dropping duplicate code blocks and the manifest of included and dropped items.
+ */
+import assert from 'assert';
+import { RecallParams, RecallResult } from '../../domain/types';
+import { calculateTokens } from '../../utils/tokenizer';
+import { TestServices, TestSuite, createTestServices } from './test-harness';
+
+const CONTEXT_ID = 'payments';
+
+/**
+ * Add a context with a summary and the given messages
+ */
+async function addContext(
+  services: TestServices,
+  summary: string,
+  messages: Array<{ content: string; pinned?: boolean }>
+): Promise<void> {
+  for (const { content, pinned } of messages) {
+    await services.contextService.addMessage({
+      contextId: CONTEXT_ID,
+      role: 'user',
+      content,
+      pinned,
+    });
+  }
+  await services.contextStore.saveSummary({
+    contextId: CONTEXT_ID,
+    createdAt: Date.now(),
+    summary,
+    codeBlocks: [],
+    messageCount: messages.length,
+    version: 1,
+  });
+}
+
+/**
+ * Recall the test context without related contexts
+ */
+function recall(services: TestServices, params: Partial<RecallParams>): Promise<RecallResult> {
+  return services.mcpServer.recallService.recall({
+    contextId: CONTEXT_ID,
+    tokenBudget: 1000,
+    similarLimit: 0,
+    ...params,
+  });
+}
+
+export const recallTests: TestSuite = {
+  name: 'Recall',
+  tests: {
+    'keeps the assembled text within the token budget': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      const turns = Array.from({ length: 20 }, (_turn, i) => ({
+        content: `Turn ${i}: retried the webhook delivery and compared the signature headers again.`,
+      }));
+      await addContext(services, 'Webhook signatures fail after the key rotation.', turns);
+
+      for (const tokenBudget of [40, 120, 400]) {
+        const result = await recall(services, { tokenBudget, recentMessages: 20 });
+
+        assert.ok(calculateTokens(result.text) <= tokenBudget, `over budget ${tokenBudget}`);
+        assert.strictEqual(result.tokensUsed, calculateTokens(result.text));
+      }
+    },
+
+    'shortens a long summary in place before packing lower priority items': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      const summary = Array.from(
+        { length: 200 },
+        (_sentence, i) => `Decision ${i} keeps refunds idempotent.`
+      ).join(' ');
+      await addContext(services, summary, [
+        { content: 'Latest turn: ship the refund fix.' },
+        { content: 'Newest turn: add a regression test.' },
+      ]);
+
+      const result = await recall(services, { tokenBudget: 300 });
+
+      const [first] = result.included;
+      assert.deepStrictEqual([first.kind, first.truncated], ['summary', true]);
+      // The summary takes the budget left after the share kept for later items
+      assert.ok(first.tokens >= 300 * 0.6, `summary got ${first.tokens} tokens`);
+      assert.ok(result.included.some((item) => item.kind === 'recent'));
+      assert.ok(result.text.indexOf('## Summary') < result.text.indexOf('## Recent messages'));
+      assert.ok(calculateTokens(result.text) <= 300);
+    },
+
+    'drops code blocks already contained in a packed message': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await addContext(services, 'Refund handler.', [
+        { content: 'Fixed it:\n```ts\nawait refunds.retry(id);\n```' },
+      ]);
+
+      const result = await recall(services, {});
+
+      assert.deepStrictEqual(
+        result.dropped.map((item) => [item.kind, item.reason]),
+        [['code', 'duplicate']]
+      );
+      assert.strictEqual(result.text.split('await refunds.retry(id);').length, 2);
+    },
+
+    'lists included and dropped items in the manifest': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await addContext(services, 'Refund handler.', [
+        { content: 'Never refund twice.', pinned: true },
+        { content: 'Old turn. '.repeat(100) },
+        { content: 'Recent turn.' },
+      ]);
+
+      const result = await recall(services, { tokenBudget: 80 });
+
+      assert.deepStrictEqual(
+        result.included.map((item) => `${item.kind}:${item.id}`),
+        ['summary:summary:v1', 'pinned:message:0', 'recent:message:2']
+      );
+      assert.deepStrictEqual(result.dropped, [
+        {
+          kind: 'recent',
+          id: 'message:1',
+          tokens: calculateTokens(`\n\n[user] ${'Old turn. '.repeat(100)}`),
+          reason: 'budget',
+        },
+      ]);
+      for (const item of result.included) {
+        assert.ok(item.tokens > 0);
+      }
+    },
+  },
+};
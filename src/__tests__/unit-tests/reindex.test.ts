@@ -0,0 +1,90 @@
+/**
+ * Reindex unit tests
+ *
+ * Covers regenerating every context embedding in batches.
+ */
+import assert from 'assert';
+import { TOOL_NAMES } from '../../domain/types';
+import { HashingEmbedder } from '../../testing';
+import { embedInBatches } from '../../utils/embedding';
+import { TestSuite, callTool, createTestServices } from './test-harness';
+
+export const reindexTests: TestSuite = {
+  name: 'Reindex',
+  tests: {
+    'rebuilds the vector store from the context store in batches': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      for (const contextId of ['one', 'two', 'three']) {
+        await services.contextService.addMessage({
+          contextId,
+          role: 'user',
+          content: `Notes about ${contextId}.`,
+        });
+      }
+      await services.vectorRepository.deleteContext('two');
+      await services.vectorRepository.addContext('removed', 'gone', 'gone');
+
+      const progress: string[] = [];
+      const result = await services.contextService.reindexContexts({
+        batchSize: 2,
+        onProgress: (processed, total) => {
+          progress.push(`${processed}/${total}`);
+        },
+      });
+
+      assert.strictEqual(result.contextCount, 3);
+      assert.deepStrictEqual(result.model, { modelId: 'hashed-ngram-v1-384', dimensions: 384 });
+      assert.deepStrictEqual(progress, ['2/3', '3/3']);
+      assert.deepStrictEqual((await services.vectorRepository.listContextIds()).sort(), [
+        'one',
+        'three',
+        'two',
+      ]);
+      assert.strictEqual(
+        (await services.vectorRepository.getContext('two'))?.text,
+        'user: Notes about two.'
+      );
+    },
+
+    'keeps messages added while the reindex runs': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await services.contextService.addMessage({ contextId: 'a', role: 'user', content: 'A.' });
+
+      const reindexed = services.contextService.reindexContexts();
+      await services.contextService.addMessage({
+        contextId: 'a',
+        role: 'user',
+        content: 'Kafka consumer lag.',
+      });
+      await services.contextService.addMessage({ contextId: 'b', role: 'user', content: 'B.' });
+      await reindexed;
+
+      assert.match((await services.vectorRepository.getContext('a'))?.text || '', /Kafka/);
+      assert.ok(await services.vectorRepository.hasContext('b'));
+    },
+
+    'reindex tool returns the new index size': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+      await services.contextService.addMessage({ contextId: 'a', role: 'user', content: 'A.' });
+
+      const { payload } = await callTool(services, TOOL_NAMES.REINDEX, { batchSize: 8 });
+
+      assert.strictEqual(payload.success, true);
+      assert.strictEqual(payload.contextCount, 1);
+    },
+
+    'batch embedding rejects vectors of an unexpected dimension': async () => {
+      const embedder = new HashingEmbedder(8);
+      const mismatched = {
+        modelId: embedder.modelId,
+        dimensions: 16,
+        getEmbedding: (text: string) => embedder.getEmbedding(text),
+      };
+
+      await assert.rejects(
+        embedInBatches(mismatched, ['text']),
+        /returned 8 dimensions, expected 16/
+      );
+    },
+  },
+};
@@ -0,0 +1,44 @@
+/**
+ * Unit Test Runner
+ *
+ * Runs unit tests without Jest, using in-memory repositories
+ */
+import { runSuites } from './test-harness';
+import { inMemoryRepositoryTests } from './in-memory-repositories.test';
+import { contextServiceTests } from './context-service.test';
+import { mcpToolTests } from './mcp-tools.test';
+import { storageConcurrencyTests } from './storage-concurrency.test';
+import { doctorTests } from './doctor.test';
+import { reindexTests } from './reindex.test';
+import { vectorRepositoryTests } from './vector-repository.test';
+import { chunkerTests } from './chunker.test';
+import { keywordSearchTests } from './keyword-search.test';
+import { embeddingTokenizerTests } from './embedding-tokenizer.test';
+import { embeddingProviderTests } from './embedding-providers.test';
+import { embeddingCacheTests } from './embedding-cache.test';
+import { searchRankingTests } from './search-ranking.test';
+import { recallTests } from './recall.test';
+
+runSuites([
+  inMemoryRepositoryTests,
+  contextServiceTests,
+  mcpToolTests,
+  storageConcurrencyTests,
+  doctorTests,
+  reindexTests,
+  vectorRepositoryTests,
+  chunkerTests,
+  keywordSearchTests,
+  embeddingTokenizerTests,
+  embeddingProviderTests,
+  embeddingCacheTests,
+  searchRankingTests,
+  recallTests,
+])
+  .then((failed) => {
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error('Unit test run failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,245 @@
+/**
+ * Search ranking unit tests
+ *
+ * Covers the optional reordering of search results: MMR diversification, recency and
+ * importance boosts, the cross-encoder reranker hook, their get_context parameters and the
+ * explanation of each result's score.
+ */
+import assert from 'assert';
+import { TOOL_NAMES } from '../../domain/types';
+import { Reranker } from '../../utils/cross-encoder';
+import { boostScore, diversifyResults } from '../../utils/search-ranking';
+import { TestSuite, TestServices, callTool, createTestServices, message } from './test-harness';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add contexts with identical text, so retrieval alone can't tell them apart
+ */
+async function addTwins(services: TestServices, contextIds: string[]): Promise<void> {
+  for (const contextId of contextIds) {
+    await services.contextService.addMessage(
+      message(contextId, 'retry kafka consumer after rebalance')
+    );
+  }
+}
+
+/**
+ * Change the stored metadata of a context
+ */
+async function updateMetadata(
+  services: TestServices,
+  contextId: string,
+  changes: { lastActivityAt?: number; importanceScore?: number }
+): Promise<void> {
+  const metadata = await services.contextStore.loadContextData(contextId);
+  if (!metadata) {
+    throw new Error(`Context ${contextId} not found`);
+  }
+  await services.contextStore.saveContextData(contextId, { ...metadata, ...changes });
+}
+
+export const searchRankingTests: TestSuite = {
+  name: 'SearchRanking',
+  tests: {
+    'skips near duplicates when diversifying': () => {
+      const result = (contextId: string, text: string, weight: number) => ({
+        contextId,
+        text,
+        summary: text,
+        type: 'similar',
+        weight,
+      });
+
+      const diversified = diversifyResults(
+        [
+          result('a', 'kafka consumer lag after rebalance', 1),
+          result('b', 'kafka consumer lag after rebalance again', 0.95),
+          result('c', 'kafka producer retries and idempotence', 0.8),
+        ],
+        2
+      );
+
+      assert.deepStrictEqual(
+        diversified.map((context) => context.contextId),
+        ['a', 'c']
+      );
+    },
+
+    'boosts recent and important contexts': () => {
+      const now = Date.now();
+
+      assert.strictEqual(boostScore(0.5, {}), 0.5);
+      assert.ok(
+        boostScore(0.5, { lastActivityAt: now }, { now }) >
+          boostScore(0.5, { lastActivityAt: now - 90 * DAY_MS }, { now })
+      );
+      assert.ok(
+        Math.abs(
+          boostScore(1, { lastActivityAt: now - 30 * DAY_MS }, { now, recencyWeight: 0.2 }) - 1.1
+        ) < 1e-9
+      );
+      assert.strictEqual(boostScore(0, { importanceScore: 1 }), 0);
+    },
+
+    'reorders results by recency and importance when asked': async () => {
+      const services = await createTestServices();
+      await addTwins(services, ['old', 'recent']);
+      await updateMetadata(services, 'old', {
+        lastActivityAt: Date.now() - 365 * DAY_MS,
+        importanceScore: 0.9,
+      });
+      await updateMetadata(services, 'recent', { importanceScore: 0.1 });
+
+      const byRecency = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+        ranking: { recencyBoost: true },
+      });
+      const byImportance = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+        ranking: { importanceBoost: true },
+      });
+
+      assert.deepStrictEqual(
+        byRecency.map((result) => result.contextId),
+        ['recent', 'old']
+      );
+      assert.deepStrictEqual(
+        byImportance.map((result) => result.contextId),
+        ['old', 'recent']
+      );
+      assert.ok(byRecency[0].weight <= 1.2);
+    },
+
+    'rescores results with the reranker': async () => {
+      const services = await createTestServices();
+      await addTwins(services, ['first', 'second', 'third']);
+      const scored: string[][] = [];
+      const reranker: Reranker = {
+        modelId: 'test-reranker',
+        score: async (query, passages) => {
+          scored.push([query, ...passages]);
+          return passages.map((_passage, position) => position);
+        },
+      };
+      services.contextService.setReranker(reranker);
+
+      const results = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+        ranking: { rerank: true },
+      });
+
+      assert.strictEqual(scored.length, 1);
+      assert.strictEqual(scored[0][0], 'kafka rebalance');
+      assert.strictEqual(scored[0].length, 4);
+      assert.strictEqual(results.length, 2);
+      // The reranker scores the last retrieved passage highest
+      assert.ok(results[0].weight > results[1].weight);
+      assert.ok(results[0].weight < 1);
+    },
+
+    'keeps the retrieval order when reranking fails or is not configured': async () => {
+      const services = await createTestServices();
+      await addTwins(services, ['first', 'second']);
+      const expected = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+      });
+
+      const unconfigured = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+        ranking: { rerank: true },
+      });
+      services.contextService.setReranker({
+        modelId: 'broken-reranker',
+        score: async () => {
+          throw new Error('Reranker model file not found');
+        },
+      });
+      const failed = await services.contextService.findSimilarContexts('kafka rebalance', 2, {
+        mode: 'vector',
+        ranking: { rerank: true },
+      });
+
+      const ids = expected.map((result) => result.contextId);
+      assert.deepStrictEqual(
+        unconfigured.map((result) => result.contextId),
+        ids
+      );
+      assert.deepStrictEqual(
+        failed.map((result) => result.contextId),
+        ids
+      );
+    },
+
+    'explains the scores of hybrid and reordered results': async () => {
+      const services = await createTestServices();
+      await services.contextService.addMessage(message('notes', 'first note'));
+      await services.contextService.addMessage(
+        message('notes', 'retry the kafka consumer after a rebalance')
+      );
+
+      const [hybrid] = await services.contextService.findSimilarContexts('kafka rebalance', 1);
+      const [boosted] = await services.contextService.findSimilarContexts('kafka rebalance', 1, {
+        ranking: { recencyBoost: true },
+      });
+
+      assert.ok(hybrid.scores?.vector !== undefined);
+      assert.ok((hybrid.scores?.keyword || 0) > 0);
+      assert.strictEqual(hybrid.scores?.fused, hybrid.weight);
+      assert.strictEqual(hybrid.snippets?.[0].messageIndex, 1);
+      assert.strictEqual(
+        hybrid.snippets?.[0].highlightedText,
+        'retry the **kafka** consumer after a **rebalance**'
+      );
+      assert.strictEqual(boosted.scores?.relevance, 1);
+      assert.ok(Math.abs((boosted.scores?.recencyBoost || 0) - 0.2) < 1e-3);
+      assert.strictEqual(boosted.scores?.importanceBoost, undefined);
+    },
+
+    'leaves out the full text when asked': async () => {
+      const services = await createTestServices();
+      await addTwins(services, ['first']);
+
+      const { payload } = await callTool(services, TOOL_NAMES.GET_CONTEXT, {
+        query: 'kafka rebalance',
+        includeText: false,
+      });
+
+      const [context] = payload.contexts as Array<Record<string, unknown>>;
+      assert.strictEqual(context.contextId, 'first');
+      assert.ok(!('text' in context));
+      assert.deepStrictEqual(
+        (context.snippets as Array<{ messageIndex: number; highlights: unknown[] }>).map(
+          (snippet) => [snippet.messageIndex, snippet.highlights.length]
+        ),
+        [[0, 2]]
+      );
+    },
+
+    'toggles reordering steps per query in get_context': async () => {
+      const services = await createTestServices({ ranking: { recencyBoost: true } });
+      await addTwins(services, ['old', 'recent']);
+      await updateMetadata(services, 'old', {
+        lastActivityAt: Date.now() - 365 * DAY_MS,
+        importanceScore: 1,
+      });
+      await updateMetadata(services, 'recent', { importanceScore: 0 });
+
+      const configured = await callTool(services, TOOL_NAMES.GET_CONTEXT, {
+        query: 'kafka rebalance',
+        mode: 'vector',
+      });
+      const overridden = await callTool(services, TOOL_NAMES.GET_CONTEXT, {
+        query: 'kafka rebalance',
+        mode: 'vector',
+        recencyBoost: false,
+        importanceBoost: true,
+      });
+
+      const contextIds = (payload: Record<string, unknown>) =>
+        (payload.contexts as Array<{ contextId: string }>).map((context) => context.contextId);
+      assert.deepStrictEqual(contextIds(configured.payload), ['recent', 'old']);
+      assert.deepStrictEqual(contextIds(overridden.payload), ['old', 'recent']);
+    },
+  },
+};
@@ -0,0 +1,202 @@
+/**
+ * Storage concurrency unit tests
+ *
+ * Covers the per-context mutex, the advisory lock file, concurrent writes to the same
+ * context and repositories of several processes sharing one directory.
+ */
+import assert from 'assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ContextRelationshipType } from '../../domain/types';
+import { FileSystemRepository } from '../../repositories/file-system.repository';
+import { GraphRepository } from '../../repositories/graph.repository';
+import { withFileLock, writeJsonAtomic } from '../../utils/atomic-file';
+import { KeyedMutex } from '../../utils/keyed-mutex';
+import { TestSuite, createTestServices } from './test-harness';
+
+const CONCURRENT_WRITES = 20;
+
+/**
+ * Run a task in a fresh temporary directory that is removed afterwards
+ */
+async function withTempDir(task: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-storage-test-'));
+  try {
+    await task(dir);
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+export const storageConcurrencyTests: TestSuite = {
+  name: 'Storage concurrency',
+  tests: {
+    'keyed mutex runs tasks for one key in order': async () => {
+      const mutex = new KeyedMutex();
+      const order: string[] = [];
+      const task = (label: string, delay: number) => async () => {
+        order.push(`${label}:start`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        order.push(`${label}:end`);
+      };
+
+      await Promise.all([
+        mutex.runExclusive('a', task('first', 20)),
+        mutex.runExclusive('a', task('second', 0)),
+      ]);
+
+      assert.deepStrictEqual(order, ['first:start', 'first:end', 'second:start', 'second:end']);
+      assert.strictEqual(mutex.isLocked('a'), false);
+    },
+
+    'keyed mutex releases the key when a task fails': async () => {
+      const mutex = new KeyedMutex();
+
+      await assert.rejects(
+        mutex.runExclusive('a', async () => {
+          throw new Error('boom');
+        })
+      );
+
+      assert.strictEqual(await mutex.runExclusive('a', async () => 'next'), 'next');
+    },
+
+    'file lock excludes concurrent holders': () =>
+      withTempDir(async (dir) => {
+        const lockPath = path.join(dir, 'test.lock');
+        let holders = 0;
+        let maxHolders = 0;
+        const hold = () =>
+          withFileLock(lockPath, async () => {
+            holders++;
+            maxHolders = Math.max(maxHolders, holders);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            holders--;
+          });
+
+        await Promise.all([hold(), hold(), hold()]);
+
+        assert.strictEqual(maxHolders, 1);
+        assert.strictEqual(await fs.pathExists(lockPath), false);
+      }),
+
+    'file lock breaks locks left by dead processes': () =>
+      withTempDir(async (dir) => {
+        const lockPath = path.join(dir, 'stale.lock');
+        // PIDs are far below this limit, so no live process owns the lock
+        await fs.writeFile(lockPath, '2147483646');
+
+        const result = await withFileLock(lockPath, async () => 'acquired', { timeoutMs: 500 });
+
+        assert.strictEqual(result, 'acquired');
+      }),
+
+    'file lock keeps the lock of a live holder past the stale age': () =>
+      withTempDir(async (dir) => {
+        const lockPath = path.join(dir, 'slow.lock');
+        const order: string[] = [];
+        const hold = (label: string, delay: number) =>
+          withFileLock(
+            lockPath,
+            async () => {
+              order.push(`${label}:start`);
+              await new Promise((resolve) => setTimeout(resolve, delay));
+              order.push(`${label}:end`);
+            },
+            { staleMs: 90 }
+          );
+
+        const slow = hold('slow', 400);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await Promise.all([slow, hold('waiting', 0)]);
+
+        assert.deepStrictEqual(order, ['slow:start', 'slow:end', 'waiting:start', 'waiting:end']);
+      }),
+
+    'file lock lets one waiter take over an abandoned lock': () =>
+      withTempDir(async (dir) => {
+        const lockPath = path.join(dir, 'abandoned.lock');
+        await fs.writeFile(lockPath, `${process.pid} abandoned`);
+        const past = new Date(Date.now() - 60000);
+        await fs.utimes(lockPath, past, past);
+        let holders = 0;
+        let maxHolders = 0;
+        const hold = () =>
+          withFileLock(lockPath, async () => {
+            holders++;
+            maxHolders = Math.max(maxHolders, holders);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            holders--;
+          });
+
+        await Promise.all([hold(), hold(), hold(), hold()]);
+
+        assert.strictEqual(maxHolders, 1);
+        assert.deepStrictEqual(await fs.readdir(dir), []);
+      }),
+
+    'graph repositories sharing a directory keep the edges of both': () =>
+      withTempDir(async (dir) => {
+        const first = new GraphRepository(dir);
+        await first.addRelationship('old', 'gone', ContextRelationshipType.SIMILAR, 0.5);
+        const second = new GraphRepository(dir);
+        await second.ensureInitialized();
+
+        await first.addRelationship('a', 'b', ContextRelationshipType.SIMILAR, 0.9);
+        await second.addRelationship('c', 'd', ContextRelationshipType.CONTINUES, 1);
+        await second.deleteContext('gone');
+
+        const reopened = new GraphRepository(dir);
+        assert.deepStrictEqual(await reopened.getRelatedContexts('a'), ['b']);
+        assert.deepStrictEqual(await reopened.getRelatedContexts('c'), ['d']);
+        assert.deepStrictEqual(await reopened.getRelatedContexts('old'), []);
+        assert.strictEqual(await reopened.hasContext('gone'), false);
+      }),
+
+    'atomic writes leave no temporary files behind': () =>
+      withTempDir(async (dir) => {
+        const filePath = path.join(dir, 'data.json');
+        await Promise.all(
+          Array.from({ length: 5 }, (_, i) => writeJsonAtomic(filePath, { value: i }))
+        );
+
+        assert.deepStrictEqual(await fs.readdir(dir), ['data.json']);
+        assert.strictEqual(typeof (await fs.readJson(filePath)).value, 'number');
+      }),
+
+    'file system repository counts concurrent messages exactly': () =>
+      withTempDir(async (dir) => {
+        const store = new FileSystemRepository(dir);
+
+        await Promise.all(
+          Array.from({ length: CONCURRENT_WRITES }, (_, i) =>
+            store.addMessage('shared', { contextId: 'shared', role: 'user', content: `m${i}` })
+          )
+        );
+
+        const context = await store.loadContext('shared');
+        assert.strictEqual(context?.messages.length, CONCURRENT_WRITES);
+        assert.strictEqual(context?.metadata.totalMessageCount, CONCURRENT_WRITES);
+        assert.strictEqual(context?.metadata.messagesSinceLastSummary, CONCURRENT_WRITES);
+      }),
+
+    'context service does not double count concurrent messages': async () => {
+      const services = await createTestServices({ autoSummarize: false });
+
+      await Promise.all(
+        Array.from({ length: CONCURRENT_WRITES }, (_, i) =>
+          services.contextService.addMessage({
+            contextId: 'shared',
+            role: 'user',
+            content: `Message ${i}`,
+          })
+        )
+      );
+
+      const metadata = await services.contextStore.loadContextData('shared');
+      assert.strictEqual(metadata?.totalMessageCount, CONCURRENT_WRITES);
+      assert.strictEqual(metadata?.messagesSinceLastSummary, CONCURRENT_WRITES);
+    },
+  },
+};
@@ -0,0 +1,162 @@
+/**
+ * Unit Test Harness
+ *
+ * Minimal runner and helpers for unit tests. Tests run with ts-node and node's assert,
+ * against in-memory repositories and a deterministic embedder, so they need neither the
+ * ONNX model, native bindings nor a context directory.
+ */
+import { MCPConfig } from '../../config/config';
+import { ContextSummary, Message, ToolName } from '../../domain/types';
+import { initializeMcpServer, InitializedServices } from '../../main';
+import { BaseSummarizer, GeneratedSummary } from '../../services/summarizer.service';
+import {
+  InMemoryContextRepository,
+  InMemoryGraphRepository,
+  InMemoryVectorRepository,
+} from '../../testing';
+
+/**
+ * Named group of test cases
+ */
+export interface TestSuite {
+  name: string;
+  tests: Record<string, () => Promise<void> | void>;
+}
+
+/**
+ * Services wired to in-memory repositories
+ */
+export interface TestServices extends Required<Omit<InitializedServices, 'contextStore'>> {
+  contextStore: InMemoryContextRepository;
+  vectorRepository: InMemoryVectorRepository;
+  graphRepository: InMemoryGraphRepository;
+  summarizer: StubSummarizer;
+}
+
+/**
+ * Summarizer producing a predictable summary and counting its calls
+ */
+export class StubSummarizer extends BaseSummarizer {
+  calls = 0;
+
+  protected async generateSummary(
+    messages: Message[],
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary> {
+    this.calls++;
+    const previous = previousSummary ? ` after v${previousSummary.version}` : '';
+    return { summary: `Summary of ${messages.length} messages in ${contextId}${previous}.` };
+  }
+}
+
+/**
+ * Initialize the MCP server with in-memory repositories
+ * @param config Configuration applied over the defaults
+ * @returns Initialized services together with the in-memory repositories
+ */
+export async function createTestServices(config: Partial<MCPConfig> = {}): Promise<TestServices> {
+  const contextStore = new InMemoryContextRepository();
+  const vectorRepository = new InMemoryVectorRepository();
+  const graphRepository = new InMemoryGraphRepository();
+  const summarizer = new StubSummarizer();
+
+  const services = await initializeMcpServer({
+    config: { trackApiCalls: false, ...config },
+    contextStore,
+    vectorRepository,
+    graphRepository,
+    summarizer,
+    analytics: null,
+  });
+
+  if (!services.contextService || !services.mcpServer) {
+    throw new Error('Services were not initialized');
+  }
+
+  return {
+    contextService: services.contextService,
+    mcpServer: services.mcpServer,
+    contextStore,
+    vectorRepository,
+    graphRepository,
+    summarizer,
+  };
+}
+
+/**
+ * Build a user message for a context
+ * @param contextId Context identifier
+ * @param content Message content
+ * @returns Message
+ */
+export function message(contextId: string, content: string): Message {
+  return { contextId, role: 'user', content };
+}
+
+/**
+ * Invoke a tool handler and parse its JSON response
+ * @param services Test services
+ * @param name Tool name
+ * @param args Tool arguments
+ * @returns Parsed response payload and error flag
+ */
+export async function callTool(
+  services: TestServices,
+  name: ToolName,
+  args: Record<string, unknown>
+): Promise<{ payload: Record<string, unknown>; isError: boolean }> {
+  const tool = services.mcpServer.tools.find((candidate) => candidate.getName() === name);
+  if (!tool) {
+    throw new Error(`${name} tool not found`);
+  }
+
+  const response = await tool.getHandler(services.mcpServer)(args);
+  return { payload: JSON.parse(response.content[0].text), isError: Boolean(response.isError) };
+}
+
+/**
+ * Wait until a condition holds, for work running in the background
+ * @param condition Condition to poll
+ * @param timeoutMs Maximum time to wait
+ */
+export async function waitFor(
+  condition: () => Promise<boolean> | boolean,
+  timeoutMs = 2000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Run test suites sequentially and report the results
+ * @param suites Suites to run
+ * @returns Number of failed tests
+ */
+export async function runSuites(suites: TestSuite[]): Promise<number> {
+  let passed = 0;
+  let failed = 0;
+
+  for (const suite of suites) {
+    console.log(`\n${suite.name}`);
+    for (const [name, test] of Object.entries(suite.tests)) {
+      try {
+        await test();
+        passed++;
+        console.log(`  ✓ ${name}`);
+      } catch (error) {
+        failed++;
+        console.log(`  ✗ ${name}`);
+        console.log(`    ${error instanceof Error ? error.stack || error.message : String(error)}`);
+      }
+    }
+  }
+
+  console.log(`\n${passed} passed, ${failed} failed`);
+  return failed;
+}
@@ -0,0 +1,345 @@
+/**
+ * Vector repository unit tests
+ *
+ * Covers the configurable HNSW index: growth beyond its initial capacity, dimension
+ * validation, detection of vectors built with another model, binary persistence,
+ * chunk-level search, queries without words, changes made while the index is rebuilt and
+ * repositories sharing one file.
+ */
+import assert from 'assert';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { VectorDbConfig } from '../../config/config';
+import { VectorRepository } from '../../repositories/vector.repository';
+import { HashingEmbedder } from '../../testing';
+import { chunkMessages } from '../../utils/chunker';
+import { TestSuite } from './test-harness';
+
+/**
+ * Run a task with the path of a vector database in a fresh temporary directory
+ */
+async function withVectorDbPath(task: (dbPath: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-vector-test-'));
+  try {
+    await task(path.join(dir, 'vector-db.json'));
+  } finally {
+    await fs.remove(dir);
+  }
+}
+
+/**
+ * Hashing embedder that holds embeddings back while paused, to run changes during a rebuild
+ */
+class PausableEmbedder extends HashingEmbedder {
+  private paused: Promise<void> = Promise.resolve();
+  private resume: () => void = () => undefined;
+
+  pause(): void {
+    this.paused = new Promise((resolve) => {
+      this.resume = resolve;
+    });
+  }
+
+  play(): void {
+    this.resume();
+  }
+
+  async getEmbedding(text: string): Promise<number[]> {
+    await this.paused;
+    return super.getEmbedding(text);
+  }
+}
+
+/**
+ * Open a vector repository that saves every change immediately
+ */
+function openRepository(
+  dbPath: string,
+  dimensions?: number,
+  config: VectorDbConfig = {}
+): VectorRepository {
+  return new VectorRepository(dbPath, new HashingEmbedder(dimensions), {
+    saveDebounceMs: 0,
+    ...config,
+  });
+}
+
+export const vectorRepositoryTests: TestSuite = {
+  name: 'VectorRepository',
+  tests: {
+    'grows the index beyond its initial capacity': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, undefined, { maxElements: 2 });
+        const topics = ['react hooks', 'postgres indexes', 'docker volumes', 'rust lifetimes'];
+        for (const topic of topics) {
+          await vector.addContext(topic, topic, topic);
+        }
+
+        const results = await vector.findSimilarContexts('docker volumes', 1);
+
+        assert.strictEqual(results[0].contextId, 'docker volumes');
+      }),
+
+    'rejects an embedding model of another dimension': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, 8, { dimensions: 16 });
+
+        await assert.rejects(vector.ensureInitialized(), /configured for 16/);
+      }),
+
+    'detects vectors stored by another model': () =>
+      withVectorDbPath(async (dbPath) => {
+        const original = openRepository(dbPath, 8);
+        await original.addContext('a', 'alpha', 'alpha');
+
+        const reopened = openRepository(dbPath, 16);
+        const stale = await reopened.getIndexStatus();
+        assert.strictEqual(stale.needsReindex, true);
+        assert.strictEqual(stale.mismatchedEmbeddings, 1);
+        assert.deepStrictEqual(stale.stored, { modelId: 'hashed-ngram-v1-8', dimensions: 8 });
+
+        await reopened.rebuild([{ id: 'a', text: 'alpha', summary: 'alpha' }]);
+        const rebuilt = await openRepository(dbPath, 16).getIndexStatus();
+        assert.strictEqual(rebuilt.needsReindex, false);
+        assert.strictEqual(rebuilt.stored?.dimensions, 16);
+      }),
+
+    'stores the index and embeddings in binary revision files': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, 8);
+        await vector.addContext('a', 'alpha beta', 'alpha');
+        await vector.addContext('b', 'gamma delta', 'gamma');
+        await vector.deleteContext('b');
+
+        const files = (await fs.readdir(path.dirname(dbPath))).sort();
+        assert.strictEqual(files.length, 3);
+        assert.match(files[0], /^vector-db\.[0-9a-f]+\.hnsw$/);
+        assert.match(files[1], /^vector-db\.[0-9a-f]+\.vectors$/);
+        assert.strictEqual(files[2], 'vector-db.json');
+        const metadata = await fs.readJson(dbPath);
+        assert.strictEqual(metadata.format, 3);
+        assert.strictEqual(metadata.contexts[0].chunks[0].embedding, undefined);
+
+        const reopened = openRepository(dbPath, 8);
+        assert.deepStrictEqual(
+          (await reopened.getContext('a'))?.chunks[0].embedding,
+          (await vector.getContext('a'))?.chunks[0].embedding.map(Math.fround)
+        );
+        assert.deepStrictEqual(await reopened.listContextIds(), ['a']);
+        const results = await reopened.findSimilarContexts('alpha', 1);
+        assert.strictEqual(results[0].contextId, 'a');
+      }),
+
+    'migrates embeddings stored inline as JSON': () =>
+      withVectorDbPath(async (dbPath) => {
+        const embedding = await new HashingEmbedder(8).getEmbedding('alpha');
+        await fs.writeJson(dbPath, {
+          model: { modelId: 'hashed-ngram-v1-8', dimensions: 8 },
+          contexts: [{ id: 'a', text: 'alpha', summary: 'alpha', embedding, relationships: [] }],
+          contextIdToIndex: [['a', 0]],
+          indexToContextId: [[0, 'a']],
+        });
+
+        const vector = openRepository(dbPath, 8);
+
+        assert.strictEqual((await vector.findSimilarContexts('alpha', 1))[0].contextId, 'a');
+        assert.strictEqual((await fs.readJson(dbPath)).format, 3);
+        const reopened = openRepository(dbPath, 8);
+        // Whole-context vectors stay searchable, but only a reindex splits them into chunks
+        assert.strictEqual((await reopened.getIndexStatus()).needsReindex, true);
+        const chunks = (await reopened.getContext('a'))?.chunks || [];
+        assert.deepStrictEqual(
+          chunks.map((chunk) => [chunk.text, chunk.embedding.length]),
+          [['alpha', 8]]
+        );
+      }),
+
+    'finds text beyond the first chunk of a long context': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath);
+        const filler = Array.from({ length: 200 }, (_, i) => `filler${i}`).join(' ');
+        await vector.addContext('long', `${filler} kubernetes ingress controller`, 'long');
+        await vector.addContext('short', 'react component layout', 'short');
+
+        const [result] = await vector.findSimilarContexts('kubernetes ingress', 1);
+
+        assert.strictEqual(result.contextId, 'long');
+        const snippet = result.snippets?.[0];
+        assert.match(snippet?.text || '', /kubernetes ingress controller$/);
+        assert.strictEqual(snippet?.start, result.text.indexOf(snippet?.text || ''));
+      }),
+
+    'only embeds chunks that changed': () =>
+      withVectorDbPath(async (dbPath) => {
+        const embedder = new HashingEmbedder(8);
+        const embedded: string[] = [];
+        const counting = {
+          modelId: embedder.modelId,
+          dimensions: embedder.dimensions,
+          getEmbedding: (text: string) => {
+            embedded.push(text);
+            return embedder.getEmbedding(text);
+          },
+        };
+        const vector = new VectorRepository(dbPath, counting, { saveDebounceMs: 0 });
+        const messages = [
+          { contextId: 'c', role: 'user' as const, content: 'first question' },
+          { contextId: 'c', role: 'assistant' as const, content: 'first answer' },
+        ];
+
+        await vector.updateContext('c', 'v1', 'c', chunkMessages(messages.slice(0, 1)));
+        await vector.updateContext('c', 'v2', 'c', chunkMessages(messages));
+        await vector.addRelationship('c', 'c', 'similar');
+
+        assert.deepStrictEqual(embedded, ['first question', 'first answer']);
+        const chunks = (await vector.getContext('c'))?.chunks || [];
+        assert.deepStrictEqual(
+          chunks.map((chunk) => [chunk.messageIndex, chunk.label]),
+          [
+            [0, 0],
+            [1, 1],
+          ]
+        );
+      }),
+
+    'filters searches by context and message role': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, 8);
+        const chunks = (contextId: string) =>
+          chunkMessages([
+            { contextId, role: 'user', content: 'how do I rotate logs' },
+            { contextId, role: 'assistant', content: 'configure logrotate daily' },
+          ]);
+        await vector.addContext('a', 'a', 'a', chunks('a'));
+        await vector.addContext('b', 'b', 'b', chunks('b'));
+
+        const results = await vector.findSimilarContexts('rotate logs', 5, {
+          excludeContextIds: ['a'],
+          role: 'assistant',
+        });
+
+        assert.deepStrictEqual(
+          results.map((result) => result.contextId),
+          ['b']
+        );
+        assert.deepStrictEqual(
+          results[0].snippets?.map((snippet) => snippet.messageIndex),
+          [1]
+        );
+        assert.deepStrictEqual(await vector.findSimilarContexts('logs', 5, { contextIds: [] }), []);
+      }),
+
+    'matches nothing for a query without words': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath);
+        await vector.addContext('a', 'postgres indexes', 'a');
+        await vector.addContext('b', '???', 'b');
+
+        // Index search and, with a context filter, exact comparison
+        assert.deepStrictEqual(await vector.findSimilarContexts('???', 5), []);
+        assert.deepStrictEqual(
+          await vector.findSimilarContexts('?!… 🙂', 5, { contextIds: ['a', 'b'] }),
+          []
+        );
+        assert.strictEqual((await vector.findSimilarContexts('postgres', 5))[0].contextId, 'a');
+      }),
+
+    'filters large candidate sets inside the index search': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, 8, { saveDebounceMs: 60000 });
+        const contextIds: string[] = [];
+        for (let context = 0; context < 45; context++) {
+          const contextId = `context-${context}`;
+          contextIds.push(contextId);
+          const chunks = Array.from({ length: 50 }, (_, chunk) => ({
+            text: `topic${context} part${chunk}`,
+            kind: 'text' as const,
+            start: 0,
+            end: 0,
+          }));
+          await vector.addContext(contextId, contextId, contextId, chunks);
+        }
+
+        const results = await vector.findSimilarContexts('topic7 part3', 3, {
+          contextIds: contextIds.filter((contextId) => contextId !== 'context-7'),
+        });
+
+        assert.strictEqual(results.length, 3);
+        assert.ok(results.every((result) => result.contextId !== 'context-7'));
+      }),
+
+    'applies changes made during a rebuild to the new index': () =>
+      withVectorDbPath(async (dbPath) => {
+        const embedder = new PausableEmbedder(16);
+        const vector = new VectorRepository(dbPath, embedder, { saveDebounceMs: 0 });
+        await vector.addContext('a', 'react hooks', 'a');
+        await vector.addContext('b', 'postgres indexes', 'b');
+
+        embedder.pause();
+        const rebuilt = vector.rebuild(async () => [
+          { id: 'a', text: 'react hooks', summary: 'a' },
+          { id: 'b', text: 'postgres indexes', summary: 'b' },
+        ]);
+        const changes = Promise.all([
+          vector.addContext('a', 'docker volumes', 'a'),
+          vector.deleteContext('b'),
+          vector.addContext('c', 'rust lifetimes', 'c'),
+        ]);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        embedder.play();
+        await Promise.all([rebuilt, changes]);
+
+        assert.deepStrictEqual((await vector.listContextIds()).sort(), ['a', 'c']);
+        assert.strictEqual((await vector.getContext('a'))?.text, 'docker volumes');
+        const labels = ['a', 'c'].map(async (id) => (await vector.getContext(id))?.chunks[0].label);
+        assert.notStrictEqual(await labels[0], await labels[1]);
+        for (const [query, contextId] of [
+          ['docker volumes', 'a'],
+          ['rust lifetimes', 'c'],
+        ]) {
+          assert.strictEqual((await vector.findSimilarContexts(query, 1))[0]?.contextId, contextId);
+        }
+        assert.deepStrictEqual((await openRepository(dbPath, 16).listContextIds()).sort(), [
+          'a',
+          'c',
+        ]);
+      }),
+
+    'debounces saves until the delay passes or the repository is flushed': () =>
+      withVectorDbPath(async (dbPath) => {
+        const vector = openRepository(dbPath, 8, { saveDebounceMs: 60000 });
+        await vector.addContext('a', 'alpha', 'alpha');
+        await vector.addContext('b', 'beta', 'beta');
+
+        assert.strictEqual(await fs.pathExists(dbPath), false);
+        await vector.close();
+        assert.deepStrictEqual(await openRepository(dbPath, 8).listContextIds(), ['a', 'b']);
+      }),
+
+    'keeps the changes of two repositories sharing one file': () =>
+      withVectorDbPath(async (dbPath) => {
+        const first = openRepository(dbPath, 8);
+        await first.addContext('shared', 'gamma', 'gamma');
+        await first.addContext('gone', 'delta', 'delta');
+        const second = openRepository(dbPath, 8, { saveDebounceMs: 60000 });
+        await second.ensureInitialized();
+
+        await first.addContext('a', 'alpha', 'alpha');
+        await second.addContext('b', 'beta', 'beta');
+        await second.deleteContext('gone');
+        await first.addRelationship('a', 'shared', 'similar');
+        await second.close();
+        await first.addContext('c', 'epsilon', 'epsilon');
+
+        const reopened = openRepository(dbPath, 8);
+        assert.deepStrictEqual((await reopened.listContextIds()).sort(), ['a', 'b', 'c', 'shared']);
+        assert.deepStrictEqual(
+          (await reopened.getContext('a'))?.relationships?.map((rel) => rel.contextId),
+          ['shared']
+        );
+        const [match] = await reopened.findSimilarContexts('beta', 1);
+        assert.strictEqual(match.contextId, 'b');
+      }),
+  },
+};
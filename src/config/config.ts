@@ -1,6 +1,7 @@
 /**
  * Configuration types for the Prompt Context MCP Server
  */
+import { SearchMode } from '../domain/types';
 
 /**
  * MCP configuration options
@@ -44,31 +45,141 @@ export interface MCPConfig {
   apiKey?: string;
   /** Vector DB configuration */
   vectorDb?: VectorDbConfig;
+  /** Embedding provider configuration */
+  embedding?: EmbeddingConfig;
   /** Summarizer configuration */
   summarizer?: SummarizerConfig;
+  /** Context storage configuration */
+  storage?: StorageConfig;
   /** Debug flag */
   debug?: boolean;
-  /** Whether to fallback to keyword match when primary summarization fails */
+  /** Whether to fall back to keyword search when vector search is unavailable or fails */
   fallbackToKeywordMatch?: boolean;
+  /** Default ranking of search results: 'hybrid', 'vector' or 'keyword' (default: 'hybrid') */
+  searchMode?: SearchMode;
+  /** Reordering of search results after retrieval */
+  ranking?: RankingConfig;
 }
 
 /**
  * Vector database configuration
  */
 export interface VectorDbConfig {
+  /** Length of the embedding vectors; must match the embedding model (default: the model's, 384) */
   dimensions?: number;
+  /** Initial index capacity; the index doubles in size whenever it fills up (default: 1000) */
   maxElements?: number;
-  // Add other vector DB specific settings if needed
+  /** Number of links per HNSW node; higher improves recall and uses more memory (default: 16) */
+  M?: number;
+  /** Candidate list size while inserting; higher builds a better index more slowly (default: 200) */
+  efConstruction?: number;
+  /** Candidate list size while searching; higher improves recall at the cost of speed (default: 100) */
+  efSearch?: number;
+  /** Delay before changes are written to disk, so bursts of updates are saved once; 0 saves every change immediately (default: 1000) */
+  saveDebounceMs?: number;
+}
+
+/**
+ * Embedding provider configuration
+ */
+export interface EmbeddingConfig {
+  /** Registered embedding provider name: 'onnx', 'openai', 'ollama' or 'hashing' (default: 'onnx') */
+  provider?: string;
+  /** Name or ID of the embedding model; part of the model ID stored with the vector index */
+  model?: string;
+  /** Path of the ONNX model file (default: ./models/model.onnx) */
+  modelPath?: string;
+  /** Directory with the ONNX model's tokenizer.json or vocab.txt (default: the model's directory) */
+  tokenizerPath?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** API key sent as a bearer token, if the provider needs one */
+  apiKey?: string;
+  /** Length of the vectors the model produces; required for HTTP models without a known length */
+  dimensions?: number;
+  /** Request timeout in milliseconds for HTTP providers */
+  timeoutMs?: number;
+  /** Whether to use the hashing provider when the configured one can't be loaded (default: true) */
+  fallbackToHashing?: boolean;
+  /** Whether to cache embeddings by text in memory and in <contextDir>/embedding-cache (default: true) */
+  cache?: boolean;
+  /** Number of embeddings kept in memory by the cache (default: 10000) */
+  cacheSize?: number;
+  /** Number of embeddings the cache file of a model keeps; the oldest are dropped beyond it (default: 100000) */
+  cacheDiskSize?: number;
+}
+
+/**
+ * Configuration of the steps reordering search results after retrieval
+ * The step toggles are defaults that each query can override
+ */
+export interface RankingConfig {
+  /** Diversify results with maximal marginal relevance (default: false) */
+  diversify?: boolean;
+  /** Boost recently active contexts (default: false) */
+  recencyBoost?: boolean;
+  /** Boost contexts with a high importance score (default: false) */
+  importanceBoost?: boolean;
+  /** Rerank results with the cross-encoder; needs reranker.modelPath (default: false) */
+  rerank?: boolean;
+  /** Trade-off of diversification between relevance (1) and novelty (0) (default: 0.7) */
+  mmrLambda?: number;
+  /** Days after which the recency boost of a context halves (default: 30) */
+  recencyHalfLifeDays?: number;
+  /** Boost of a context active right now, relative to its relevance (default: 0.2) */
+  recencyWeight?: number;
+  /** Boost of a context with importance 1, relative to its relevance (default: 0.2) */
+  importanceWeight?: number;
+  /** Number of results retrieved per requested result before reordering (default: 4) */
+  candidateFactor?: number;
+  /** Cross-encoder reranker */
+  reranker?: RerankerConfig;
+}
+
+/**
+ * Cross-encoder reranker configuration
+ */
+export interface RerankerConfig {
+  /** Path of the ONNX cross-encoder model file */
+  modelPath?: string;
+  /** Directory with the model's tokenizer.json or vocab.txt (default: the model's directory) */
+  tokenizerPath?: string;
+  /** Maximum number of tokens of a query and passage pair (default: 512) */
+  maxSeqLength?: number;
 }
 
 /**
  * Summarizer configuration
  */
 export interface SummarizerConfig {
-  model?: string; // Example: Name or ID of the summarization model
-  apiKey?: string; // Example: API key if needed
+  /** Registered summarizer provider name (default: 'extractive') */
+  provider?: string;
+  /** Name or ID of the summarization model */
+  model?: string;
+  /** API key sent as a bearer token, if the provider needs one */
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseUrl?: string;
+  /** Maximum number of tokens the model may generate for a summary */
   maxOutputTokens?: number;
-  // Add other summarizer specific settings
+  /** System prompt replacing the provider's default prompt template */
+  systemPrompt?: string;
+  /** Sampling temperature for LLM providers */
+  temperature?: number;
+  /** Request timeout in milliseconds for LLM providers */
+  timeoutMs?: number;
+  /** Whether to fall back to the extractive summarizer when the provider fails (default: true) */
+  fallbackToExtractive?: boolean;
+}
+
+/**
+ * Context storage configuration
+ */
+export interface StorageConfig {
+  /** Storage backend for messages, metadata and summaries (default: 'file') */
+  backend?: 'file' | 'sqlite';
+  /** Path of the SQLite database file (default: <contextDir>/contexts.db) */
+  sqlitePath?: string;
 }
 
 /**
@@ -86,13 +197,17 @@ export const DEFAULT_CONFIG: Omit<Required<MCPConfig>, 'ignorePatterns'> &
   useVectorDb: true,
   useGraphDb: true,
   vectorDb: {},
+  embedding: {},
   summarizer: {},
+  storage: {},
   debug: false,
   similarityThreshold: 0.6,
   autoCleanupContexts: true,
   trackApiCalls: true,
   apiAnalyticsRetention: 30,
   fallbackToKeywordMatch: true,
+  searchMode: 'hybrid',
+  ranking: {},
   enableHttpServer: false,
   httpPort: 3000,
   port: 6789,
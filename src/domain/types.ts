@@ -22,6 +22,8 @@ export interface Message {
   timestamp?: number;
   importance?: number;
   tags?: string[];
+  /** Pinned messages are always preferred when recalling a context */
+  pinned?: boolean;
 }
 
 /**
@@ -34,10 +36,13 @@ export interface ContextMetadata {
   messagesSinceLastSummary: number;
   hasSummary?: boolean;
   lastSummarizedAt?: number;
+  /** Number of stored messages the last summary covers; the messages after them are pending */
+  summarizedMessageCount?: number;
   importanceScore?: number;
   totalMessageCount?: number;
   totalTokenCount?: number;
   parentContextId?: string;
+  tags?: string[];
 }
 
 /**
@@ -65,8 +70,75 @@ export interface ContextSummary {
   relatedContexts?: string[];
   tokensUsed?: number;
   tokenLimit?: number;
+  /** 0 for conversation summaries, 1 or more for meta-summaries of child contexts */
+  hierarchyLevel?: number;
+  /** Child contexts covered by a meta-summary */
+  childContextIds?: string[];
+  /** Decisions made in the conversation */
+  decisions?: string[];
+  /** Questions that were raised and not yet resolved */
+  openQuestions?: string[];
+  /** Tasks to do or already done */
+  actionItems?: ActionItem[];
+  /** Files, functions, packages and URLs mentioned */
+  entities?: SummaryEntities;
+  /** Requirements and limitations the work has to respect */
+  constraints?: string[];
+}
+
+/**
+ * Status of a summary action item
+ */
+export type ActionItemStatus = 'open' | 'done';
+
+/**
+ * Task extracted into a summary
+ */
+export interface ActionItem {
+  text: string;
+  status: ActionItemStatus;
+}
+
+/**
+ * Named things mentioned in a conversation
+ */
+export interface SummaryEntities {
+  files: string[];
+  functions: string[];
+  packages: string[];
+  urls: string[];
+}
+
+/**
+ * Structured sections of a context summary
+ */
+export interface StructuredSummarySections {
+  decisions: string[];
+  openQuestions: string[];
+  actionItems: ActionItem[];
+  entities: SummaryEntities;
+  constraints: string[];
 }
 
+/**
+ * Sections of a summary that can be requested on their own
+ */
+export const SUMMARY_SECTIONS = [
+  'summary',
+  'keyInsights',
+  'codeBlocks',
+  'decisions',
+  'openQuestions',
+  'actionItems',
+  'entities',
+  'constraints',
+] as const;
+
+/**
+ * Summary section name
+ */
+export type SummarySection = (typeof SUMMARY_SECTIONS)[number];
+
 /**
  * Context data
  */
@@ -75,6 +147,7 @@ export interface ContextData {
   metadata: ContextMetadata;
   messages: Message[];
   summary?: string | ContextSummary;
+  metaSummary?: ContextSummary;
   messagesSinceLastSummary: number;
   hasSummary: boolean;
   lastSummarizedAt?: number;
@@ -123,6 +196,13 @@ export enum ApiCallType {
 export const TOOL_NAMES = {
   ADD_CONTEXT: 'add_context',
   GET_CONTEXT: 'get_context',
+  LIST_CONTEXTS: 'list_contexts',
+  DELETE_CONTEXT: 'delete_context',
+  SUMMARIZE_CONTEXT: 'summarize_context',
+  GET_SUMMARY_HISTORY: 'get_summary_history',
+  RECALL: 'recall',
+  DOCTOR: 'doctor',
+  REINDEX: 'reindex',
 } as const;
 
 /**
@@ -139,9 +219,22 @@ export interface AddContextParams {
   role: 'user' | 'assistant';
   importance?: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   tags?: string[];
-  random_string: string;
+  parentContextId?: string;
+  pinned?: boolean;
 }
 
+/**
+ * Ways of ranking contexts for a search query
+ * hybrid fuses keyword and vector rankings, vector ranks by embedding similarity only and
+ * keyword ranks by BM25 only
+ */
+export const SEARCH_MODES = ['hybrid', 'vector', 'keyword'] as const;
+
+/**
+ * Search ranking mode
+ */
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
 /**
  * Get Context tool parameters
  */
@@ -149,9 +242,264 @@ export interface GetContextParams {
   contextId?: string;
   query?: string;
   limit?: number;
-  random_string: string;
+  section?: SummarySection;
+  mode?: SearchMode;
+  tags?: string[];
+  role?: string;
+  minImportance?: number;
+  since?: string | number;
+  until?: string | number;
+  parentContextId?: string;
+  contextIds?: string[];
+  excludeContextIds?: string[];
+  diversify?: boolean;
+  recencyBoost?: boolean;
+  importanceBoost?: boolean;
+  rerank?: boolean;
+  includeText?: boolean;
 }
 
+/**
+ * Metadata fields that contexts can be sorted by
+ */
+export type ContextSortField = 'lastActivityAt' | 'createdAt' | 'totalMessageCount';
+
+/**
+ * Options for listing contexts
+ */
+export interface ListContextsOptions {
+  /** Only include contexts carrying all of these tags */
+  tags?: string[];
+  /** Only include contexts active at or after this timestamp (ms) */
+  since?: number;
+  /** Only include contexts active at or before this timestamp (ms) */
+  until?: number;
+  hasSummary?: boolean;
+  minImportance?: number;
+  sortBy?: ContextSortField;
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  /** Opaque cursor returned as nextCursor by the previous page */
+  cursor?: string;
+}
+
+/**
+ * Criteria narrowing down the contexts a search may return
+ */
+export interface SearchFilters {
+  /** Only contexts carrying all of these tags */
+  tags?: string[];
+  /** Only match text of messages with this role; summaries never match */
+  role?: string;
+  /** Only contexts with at least this importance score */
+  minImportance?: number;
+  /** Only contexts active at or after this timestamp (ms) */
+  since?: number;
+  /** Only contexts active at or before this timestamp (ms) */
+  until?: number;
+  /** Only direct children of this context */
+  parentContextId?: string;
+  /** Only these contexts */
+  contextIds?: string[];
+  /** Never these contexts */
+  excludeContextIds?: string[];
+}
+
+/**
+ * Steps reordering search results after retrieval; unset steps use the configured defaults
+ */
+export interface RankingOptions {
+  /** Spread results over different content with maximal marginal relevance */
+  diversify?: boolean;
+  /** Favor recently active contexts */
+  recencyBoost?: boolean;
+  /** Favor contexts with a high importance score */
+  importanceBoost?: boolean;
+  /** Score results with the cross-encoder reranker */
+  rerank?: boolean;
+}
+
+/**
+ * Options of a context search
+ */
+export interface SearchOptions {
+  /** Ranking mode; defaults to the configured searchMode */
+  mode?: SearchMode;
+  filters?: SearchFilters;
+  ranking?: RankingOptions;
+}
+
+/**
+ * Context entry returned when listing contexts
+ */
+export interface ContextListItem {
+  metadata: ContextMetadata;
+  summarySnippet?: string;
+}
+
+/**
+ * Page of contexts returned by a list operation
+ */
+export interface ContextListResult {
+  contexts: ContextListItem[];
+  /** Number of contexts matching the filters across all pages */
+  total: number;
+  nextCursor?: string;
+}
+
+/**
+ * Report of the data removed (or, in dry-run mode, that would be removed) for a context
+ */
+export interface DeleteContextResult {
+  contextId: string;
+  dryRun: boolean;
+  /** Context files in the file store */
+  files: string[];
+  /** Whether the context had an entry in the vector database */
+  vectorEntry: boolean;
+  /** Whether the context had a node in the graph database */
+  graphNode: boolean;
+  /** Number of graph edges attached to the context node */
+  graphEdgeCount: number;
+}
+
+/**
+ * Differences between two versions of a context summary
+ */
+export interface SummaryDiff {
+  fromVersion: number;
+  toVersion: number;
+  /** Change in the number of summarized messages */
+  messageCountDelta: number;
+  /** Sentences present only in the newer summary text */
+  addedSentences: string[];
+  /** Sentences present only in the older summary text */
+  removedSentences: string[];
+  addedInsights: string[];
+  removedInsights: string[];
+  addedCodeBlocks: CodeBlock[];
+  removedCodeBlocks: CodeBlock[];
+}
+
+/**
+ * Recall tool parameters
+ */
+export interface RecallParams {
+  contextId?: string;
+  query?: string;
+  tokenBudget: number;
+  recentMessages?: number;
+  maxCodeBlocks?: number;
+  similarLimit?: number;
+}
+
+/**
+ * Kind of material packed into a recall
+ */
+export type RecallItemKind = 'summary' | 'pinned' | 'recent' | 'code' | 'similar';
+
+/**
+ * Entry of a recall manifest describing one candidate item
+ */
+export interface RecallManifestEntry {
+  kind: RecallItemKind;
+  /** Identifier of the item, e.g. `message:12` or `context:auth-flow` */
+  id: string;
+  /** Tokens the item takes (or would take) in the assembled text */
+  tokens: number;
+  /** Whether the item was shortened to fit the budget */
+  truncated?: boolean;
+  /** Why the item was left out */
+  reason?: 'budget' | 'duplicate';
+}
+
+/**
+ * Result of assembling a recall
+ */
+export interface RecallResult {
+  /** Prompt-ready text */
+  text: string;
+  tokenBudget: number;
+  tokensUsed: number;
+  included: RecallManifestEntry[];
+  dropped: RecallManifestEntry[];
+}
+
+/**
+ * Kinds of inconsistency the doctor detects between the context, vector and graph stores
+ */
+export type DoctorIssueType =
+  | 'orphan_vector_entry'
+  | 'orphan_graph_node'
+  | 'missing_embedding'
+  | 'count_mismatch'
+  | 'unparsable_message';
+
+/**
+ * Inconsistency found by the doctor
+ */
+export interface DoctorIssue {
+  type: DoctorIssueType;
+  contextId: string;
+  /** What is wrong, e.g. the stored and actual message counts */
+  detail: string;
+  /** Whether the issue was repaired in this run */
+  repaired: boolean;
+}
+
+/**
+ * Result of checking (and optionally repairing) the stores
+ */
+export interface DoctorReport {
+  repair: boolean;
+  /** Number of contexts in the context store */
+  checkedContexts: number;
+  issues: DoctorIssue[];
+}
+
+/**
+ * Embedding model a vector index was built with; vectors of different models can't be compared
+ */
+export interface VectorIndexStamp {
+  modelId: string;
+  dimensions: number;
+}
+
+/**
+ * Compatibility of the stored vectors with the current embedding model
+ */
+export interface VectorIndexStatus {
+  /** Model of the stored vectors; undefined for indexes written before models were recorded */
+  stored?: VectorIndexStamp;
+  /** Model of the current embedding provider */
+  current: VectorIndexStamp;
+  /** Whether the stored vectors must be regenerated before new ones can be compared with them */
+  needsReindex: boolean;
+  contextCount: number;
+  /** Stored embeddings whose length differs from the configured dimension */
+  mismatchedEmbeddings: number;
+}
+
+/**
+ * Result of regenerating every context embedding
+ */
+export interface ReindexResult {
+  /** Number of contexts in the new index */
+  contextCount: number;
+  /** Model the new index was built with */
+  model: VectorIndexStamp;
+  durationMs: number;
+}
+
+/**
+ * Callback for reporting progress of long-running operations
+ */
+export type ProgressCallback = (
+  progress: number,
+  total: number,
+  message: string
+) => void | Promise<void>;
+
 /**
  * Context with vector embedding
  */
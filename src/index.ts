@@ -4,12 +4,83 @@
 export { FileSystemRepository } from './repositories/file-system.repository';
 export { VectorRepository } from './repositories/vector.repository';
 export { GraphRepository } from './repositories/graph.repository';
+export { SqliteRepository } from './repositories/sqlite.repository';
+export { createContextStore } from './repositories/store-factory';
+export type {
+  ContextStore,
+  ContextMetadataFilter,
+  VectorStore,
+  GraphStore,
+  Repositories,
+  UnparsableMessage,
+  VectorIndexEntry,
+  VectorRebuildOptions,
+  VectorSearchFilter,
+} from './repositories/interfaces';
 
 // Services
-export { Summarizer } from './services/summarizer.service';
+export { BaseSummarizer, Summarizer } from './services/summarizer.service';
+export { OpenAICompatibleSummarizer } from './services/llm-summarizer.service';
+export { SamplingSummarizer } from './services/sampling-summarizer.service';
+export type { SamplingClient } from './services/sampling-summarizer.service';
+export {
+  createSummarizer,
+  registerSummarizerProvider,
+  listSummarizerProviders,
+} from './services/summarizer-registry';
+export type { SummarizerFactory, SummarizerDependencies } from './services/summarizer-registry';
+export {
+  createEmbeddingProvider,
+  registerEmbeddingProvider,
+  listEmbeddingProviders,
+} from './services/embedding-registry';
+export type { EmbeddingProviderFactory } from './services/embedding-registry';
+
+export { migrateContexts } from './services/storage-migration';
+export type { StorageMigrationResult } from './services/storage-migration';
+export { runDoctor } from './services/doctor';
+export type { DoctorOptions } from './services/doctor';
 
 // Utils
 export { ApiAnalytics } from './utils/analytics';
+export { EmbeddingUtil, createInputFeeds, embedInBatches } from './utils/embedding';
+export type { EmbeddingOptions, EmbeddingProvider } from './utils/embedding';
+export { HashedNgramEmbedder } from './utils/hashed-ngram-embedder';
+export { CachedEmbeddingProvider } from './utils/embedding-cache';
+export type { EmbeddingCacheOptions } from './utils/embedding-cache';
+export { OpenAICompatibleEmbedder } from './utils/openai-embedder';
+export { OnnxCrossEncoder } from './utils/cross-encoder';
+export type { CrossEncoderOptions, Reranker } from './utils/cross-encoder';
+export {
+  Tokenizer,
+  createWordPieceTokenizer,
+  loadTokenizer,
+  parseTokenizerJson,
+} from './utils/embedding-tokenizer';
+export type {
+  EncodedText,
+  PairTemplatePiece,
+  TokenizerPipeline,
+  WordPieceVocabOptions,
+} from './utils/embedding-tokenizer';
+export { chunkMessages, chunkPlainText, chunkText } from './utils/chunker';
+export type { ChunkKind, ChunkOptions, ContextChunk } from './utils/chunker';
+export type {
+  ContextSnippet,
+  RelatedContext,
+  ScoreBreakdown,
+  TextRange,
+} from './types/related-context';
+export { Bm25Index, highlightTerms, tokenize } from './utils/bm25';
+export type { Bm25Options } from './utils/bm25';
+export {
+  boostScore,
+  computeBoosts,
+  diversifyResults,
+  fuseRankings,
+  normalizeScores,
+} from './utils/search-ranking';
+export type { BoostOptions, RankingSignals } from './utils/search-ranking';
 
 // Services
 export { ContextService } from './services/context.service';
@@ -1,54 +1,114 @@
 #!/usr/bin/env node
 
 import { loadConfig } from './config/config-loader';
+import { DEFAULT_CONFIG, MCPConfig } from './config/config';
 import { FileSystemRepository } from './repositories/file-system.repository';
+import { SqliteRepository } from './repositories/sqlite.repository';
+import { createContextStore, getSqlitePath } from './repositories/store-factory';
+import { ContextStore, GraphStore, VectorStore } from './repositories/interfaces';
 import { VectorRepository } from './repositories/vector.repository';
 import { GraphRepository } from './repositories/graph.repository';
 import { ContextService } from './services/context.service';
-import { Summarizer } from './services/summarizer.service';
+import { BaseSummarizer } from './services/summarizer.service';
+import { createSummarizer, DEFAULT_SUMMARIZER_PROVIDER } from './services/summarizer-registry';
+import { createEmbeddingProvider } from './services/embedding-registry';
+import { SamplingSummarizer } from './services/sampling-summarizer.service';
+import { migrateContexts } from './services/storage-migration';
 import { PromptContextMcpServer } from './presentation/mcp-server';
 import { ApiAnalytics } from './utils/analytics';
+import { OnnxCrossEncoder, Reranker } from './utils/cross-encoder';
 import path from 'path';
 
 // Object to store initialized services and repositories
 export interface InitializedServices {
-  vectorRepository?: VectorRepository;
-  graphRepository?: GraphRepository;
+  contextStore?: ContextStore;
+  vectorRepository?: VectorStore;
+  graphRepository?: GraphStore;
   contextService?: ContextService;
   mcpServer?: PromptContextMcpServer;
 }
 
+/**
+ * Dependencies replacing the ones initializeMcpServer would create, e.g. in-memory ones in tests
+ */
+export interface ServiceOverrides {
+  /** Configuration applied over the defaults instead of loading the config file and environment */
+  config?: Partial<MCPConfig>;
+  contextStore?: ContextStore;
+  vectorRepository?: VectorStore;
+  graphRepository?: GraphStore;
+  /** Summarizer replacing the configured provider; null disables summarization */
+  summarizer?: BaseSummarizer | null;
+  /** Analytics replacing the configured one; null disables tracking */
+  analytics?: ApiAnalytics | null;
+  /** Reranker replacing the configured cross-encoder; null disables reranking */
+  reranker?: Reranker | null;
+}
+
 /**
  * MCP Server initialization function
  * Loads configuration and initializes necessary services and repositories
+ * @param overrides Dependencies to use instead of creating them from the configuration
  */
-export async function initializeMcpServer(): Promise<InitializedServices> {
+export async function initializeMcpServer(
+  overrides: ServiceOverrides = {}
+): Promise<InitializedServices> {
   try {
     console.error('[MCP Server] Starting Prompt Context MCP Server...');
 
     // Load configuration
-    const config = loadConfig();
+    const config: MCPConfig = overrides.config
+      ? { ...DEFAULT_CONFIG, ...overrides.config }
+      : loadConfig();
     console.error('[MCP Server] Configuration loaded.');
 
     // Object to store services and repositories
     const services: InitializedServices = {};
 
     // Initialize repositories
-    const fileSystemRepository = new FileSystemRepository(config.contextDir);
+    const contextStore = overrides.contextStore || (await createContextStore(config));
+    services.contextStore = contextStore;
+    console.error(
+      `[MCP Server] Context store initialized (backend: ${overrides.contextStore ? 'custom' : config.storage?.backend || 'file'}).`
+    );
 
-    let vectorRepository;
-    if (config.useVectorDb) {
+    let vectorRepository: VectorStore | undefined = overrides.vectorRepository;
+    if (vectorRepository) {
+      await vectorRepository.ensureInitialized();
+      services.vectorRepository = vectorRepository;
+    } else if (config.useVectorDb) {
       console.error('[MCP Server] Initializing Vector Repository...');
       // Specify clear vector DB file path
       const vectorDbPath = path.join(config.contextDir, 'vector-db.json');
-      vectorRepository = new VectorRepository(vectorDbPath);
+      const embeddingProvider = await createEmbeddingProvider(
+        config.embedding || {},
+        path.join(config.contextDir, 'embedding-cache'),
+        config.vectorDb?.dimensions
+      );
+      console.error(
+        `[MCP Server] Embedding provider initialized (model: ${embeddingProvider.modelId}, ${embeddingProvider.dimensions} dimensions).`
+      );
+      vectorRepository = new VectorRepository(vectorDbPath, embeddingProvider, config.vectorDb);
       await vectorRepository.ensureInitialized();
       services.vectorRepository = vectorRepository;
       console.error('[MCP Server] Vector Repository initialized.');
+
+      const indexStatus = await vectorRepository.getIndexStatus();
+      if (indexStatus.needsReindex) {
+        const stored = indexStatus.stored
+          ? `${indexStatus.stored.modelId} (${indexStatus.stored.dimensions} dimensions)`
+          : 'an unrecorded model';
+        console.error(
+          `[MCP Server] WARNING: The vector index was built with ${stored}, but the current embedding model is ${indexStatus.current.modelId} (${indexStatus.current.dimensions} dimensions). Similarity search is unreliable until the index is rebuilt: run "prompt-context reindex" or call the reindex tool.`
+        );
+      }
     }
 
-    let graphRepository;
-    if (config.useGraphDb) {
+    let graphRepository: GraphStore | undefined = overrides.graphRepository;
+    if (graphRepository) {
+      await graphRepository.ensureInitialized();
+      services.graphRepository = graphRepository;
+    } else if (config.useGraphDb) {
       console.error('[MCP Server] Initializing Graph Repository...');
       graphRepository = new GraphRepository(config.contextDir);
       await graphRepository.ensureInitialized();
@@ -58,22 +118,34 @@ export async function initializeMcpServer(): Promise<InitializedServices> {
 
     // Set up optional analytics
     let analytics: ApiAnalytics | null = null;
-    if (config.trackApiCalls) {
+    if (overrides.analytics !== undefined) {
+      analytics = overrides.analytics;
+    } else if (config.trackApiCalls) {
       console.error('[MCP Server] Initializing Analytics...');
       analytics = new ApiAnalytics(config.contextDir, config.apiAnalyticsRetention);
       console.error('[MCP Server] Analytics initialized.');
     }
 
     // Initialize summarizer if enabled
-    const summarizer: Summarizer | undefined =
-      config.autoSummarize || config.useVectorDb
-        ? new Summarizer(config.tokenLimitPercentage, analytics, vectorRepository, graphRepository)
-        : undefined;
-    console.error('[MCP Server] Summarizer initialized.');
+    let summarizer: BaseSummarizer | undefined;
+    if (overrides.summarizer !== undefined) {
+      summarizer = overrides.summarizer || undefined;
+    } else if (config.autoSummarize || config.useVectorDb) {
+      summarizer = createSummarizer({
+        config: config.summarizer || {},
+        tokenPercentage: config.tokenLimitPercentage,
+        analytics,
+        vectorRepository,
+        graphRepository,
+      });
+      console.error(
+        `[MCP Server] Summarizer initialized (provider: ${config.summarizer?.provider || DEFAULT_SUMMARIZER_PROVIDER}).`
+      );
+    }
 
     // Initialize context service
     const repositories = {
-      fs: fileSystemRepository,
+      store: contextStore,
       vector: vectorRepository,
       graph: graphRepository,
     };
@@ -82,10 +154,30 @@ export async function initializeMcpServer(): Promise<InitializedServices> {
     services.contextService = contextService;
     console.error('[MCP Server] Context Service initialized.');
 
+    // The cross-encoder loads its model on the first search that asks for reranking
+    const rerankerConfig = config.ranking?.reranker;
+    if (overrides.reranker !== undefined) {
+      contextService.setReranker(overrides.reranker);
+    } else if (rerankerConfig?.modelPath) {
+      contextService.setReranker(
+        new OnnxCrossEncoder({
+          modelPath: rerankerConfig.modelPath,
+          tokenizerPath: rerankerConfig.tokenizerPath,
+          maxSeqLength: rerankerConfig.maxSeqLength,
+        })
+      );
+      console.error(`[MCP Server] Reranker configured (${rerankerConfig.modelPath}).`);
+    }
+
     // Initialize MCP server
     const mcpServer = new PromptContextMcpServer(contextService, config);
     services.mcpServer = mcpServer;
 
+    // Let the client's own model write summaries when sampling is configured
+    if (summarizer instanceof SamplingSummarizer) {
+      summarizer.setSamplingClient(mcpServer);
+    }
+
     return services;
   } catch (error) {
     console.error('[MCP Server] Fatal error initializing server:', error);
@@ -112,6 +204,9 @@ async function main() {
         if (services.vectorRepository) {
           await services.vectorRepository.close();
         }
+        if (services.contextStore?.close) {
+          await services.contextStore.close();
+        }
         process.exit(0);
       });
     } else {
@@ -123,7 +218,140 @@ async function main() {
   }
 }
 
+/**
+ * Read the value following a command line flag
+ * @param args Command line arguments
+ * @param flag Flag name, e.g. --from
+ * @returns Flag value or undefined if the flag is absent
+ */
+function getFlagValue(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+/**
+ * Import a file-based context directory into a SQLite database
+ * Usage: prompt-context migrate-storage [--from <context dir>] [--to <database file>]
+ * @param args Arguments following the command name
+ */
+async function runStorageMigration(args: string[]) {
+  const config = loadConfig();
+  const from = path.resolve(getFlagValue(args, '--from') || config.contextDir);
+  const to = path.resolve(getFlagValue(args, '--to') || getSqlitePath(config));
+
+  console.error(`[Migration] Importing contexts from ${from} into ${to}...`);
+  const source = new FileSystemRepository(from);
+  const target = new SqliteRepository(to);
+
+  try {
+    await target.ensureInitialized();
+    const result = await migrateContexts(source, target, (processed, total, contextId) => {
+      console.error(`[Migration] ${processed}/${total} ${contextId}`);
+    });
+
+    for (const failure of result.failed) {
+      console.error(`[Migration] Failed to migrate ${failure.contextId}: ${failure.error}`);
+    }
+    console.error(
+      `[Migration] Done: ${result.migrated.length} migrated, ${result.failed.length} failed.`
+    );
+    if (result.failed.length > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('[Migration] Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await target.close();
+  }
+}
+
+/**
+ * Check the configured stores for inconsistencies and optionally repair them
+ * Usage: prompt-context doctor [--repair]
+ * @param args Arguments following the command name
+ */
+async function runDoctorCommand(args: string[]) {
+  const repair = args.includes('--repair');
+  let services: InitializedServices = {};
+
+  try {
+    services = await initializeMcpServer();
+    if (!services.contextService) {
+      throw new Error('Context service initialization failed');
+    }
+
+    console.error(`[Doctor] Checking stores${repair ? ' and repairing issues' : ''}...`);
+    const report = await services.contextService.checkConsistency(repair);
+
+    for (const issue of report.issues) {
+      console.error(
+        `[Doctor] ${issue.type} ${issue.contextId}: ${issue.detail}${issue.repaired ? ' (repaired)' : ''}`
+      );
+    }
+    const unrepaired = report.issues.filter((issue) => !issue.repaired).length;
+    console.error(
+      `[Doctor] Done: ${report.checkedContexts} contexts checked, ${report.issues.length} issues found, ${report.issues.length - unrepaired} repaired.`
+    );
+    if (unrepaired > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('[Doctor] Check failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await services.vectorRepository?.close();
+    await services.contextStore?.close?.();
+  }
+}
+
+/**
+ * Regenerate every context embedding with the current embedding model
+ * Usage: prompt-context reindex [--batch-size <n>]
+ * @param args Arguments following the command name
+ */
+async function runReindexCommand(args: string[]) {
+  const batchSize = getFlagValue(args, '--batch-size');
+  let services: InitializedServices = {};
+
+  try {
+    if (batchSize !== undefined && !(Number(batchSize) > 0)) {
+      throw new Error(`Invalid batch size: ${batchSize}`);
+    }
+
+    services = await initializeMcpServer();
+    if (!services.contextService) {
+      throw new Error('Context service initialization failed');
+    }
+
+    console.error('[Reindex] Regenerating context embeddings...');
+    const result = await services.contextService.reindexContexts({
+      batchSize: batchSize !== undefined ? Number(batchSize) : undefined,
+      onProgress: (processed, total) => {
+        console.error(`[Reindex] ${processed}/${total}`);
+      },
+    });
+    console.error(
+      `[Reindex] Done: ${result.contextCount} contexts indexed with ${result.model.modelId} in ${result.durationMs}ms.`
+    );
+  } catch (error) {
+    console.error('[Reindex] Reindexing failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await services.vectorRepository?.close();
+    await services.contextStore?.close?.();
+  }
+}
+
 // Run main function only when this file is executed directly
 if (require.main === module) {
-  main();
+  if (process.argv[2] === 'migrate-storage') {
+    runStorageMigration(process.argv.slice(3));
+  } else if (process.argv[2] === 'doctor') {
+    runDoctorCommand(process.argv.slice(3));
+  } else if (process.argv[2] === 'reindex') {
+    runReindexCommand(process.argv.slice(3));
+  } else {
+    main();
+  }
 }
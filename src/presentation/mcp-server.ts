@@ -2,357 +2,810 @@
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
 import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
+  CreateMessageRequest,
+  CreateMessageResult,
+  ServerNotification,
+  ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 import http from 'http';
 import path from 'path';
 import fs from 'fs-extra';
 import crypto from 'crypto';
+import { z } from 'zod';
 import { ContextService } from '../services/context.service';
+import { RecallService } from '../services/recall.service';
+import { SamplingClient } from '../services/sampling-summarizer.service';
 import { MCPConfig } from '../config/config';
-import { TOOL_NAMES, AddContextParams, GetContextParams } from '../domain/types';
-import { z } from 'zod';
+import {
+  TOOL_NAMES,
+  ToolName,
+  ContextImportance,
+  ProgressCallback,
+  ContextSummary,
+  SUMMARY_SECTIONS,
+  SEARCH_MODES,
+  SummarySection,
+} from '../domain/types';
+import { diffSummaries } from '../utils/summary-diff';
+
+/**
+ * Result returned by tool handlers
+ */
+export type ToolResponse = {
+  content: Array<{ text: string; type: 'text' }>;
+  isError?: boolean;
+};
+
+/**
+ * Request metadata passed to tool handlers by the MCP SDK
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Tool handler signature. Arguments are validated against the tool schema before use.
+ */
+export type ToolHandler = (args: unknown, extra?: ToolExtra) => Promise<ToolResponse>;
 
 /**
  * Tool interface for strategy pattern
  */
-interface Tool {
-  getName(): string;
-  getSchema(): z.ZodObject<any>;
-  getHandler(server: PromptContextMcpServer): (args: any) => Promise<{
-    content: Array<{ text: string; type: 'text' }>;
-    isError?: boolean;
-  }>;
+export interface Tool {
+  getName(): ToolName;
+  getDescription(): string;
+  getSchema(): z.AnyZodObject;
+  getHandler(server: PromptContextMcpServer): ToolHandler;
 }
 
 /**
- * Add context tool implementation
+ * Serialize a payload into a tool response
+ * @param payload Payload to serialize as JSON
+ * @param isError Whether the response represents an error
  */
-class AddContextTool implements Tool {
-  getName(): string {
-    return "add_context";
-  }
-
-  getSchema(): z.ZodObject<any> {
-    return z.object({
-      random_string: z.string(),
-      contextId: z.string(),
-      message: z.string(),
-      role: z.enum(['user', 'assistant']),
-      importance: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
-      tags: z.array(z.string()).optional(),
-    });
+function jsonResponse(payload: Record<string, unknown>, isError = false): ToolResponse {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(payload, null, 2),
+      },
+    ],
+    isError,
+  };
+}
+
+/**
+ * Create an error tool response
+ * @param error Error message
+ */
+function errorResponse(error: string): ToolResponse {
+  return jsonResponse({ success: false, error }, true);
+}
+
+/**
+ * Convert an ISO date string or epoch milliseconds into a timestamp
+ * @param value Date value supplied by the client
+ * @returns Timestamp in milliseconds, or undefined if no value was given
+ */
+function parseTimestamp(value: string | number | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
   }
+  const timestamp = typeof value === 'number' ? value : Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return timestamp;
+}
 
-  getHandler(server: PromptContextMcpServer): (args: any) => Promise<{
-    content: Array<{ text: string; type: 'text' }>;
-    isError?: boolean;
-  }> {
-    return async (rawArgs: any) => {
-      // UUID 자동 생성
+/**
+ * Create a progress callback that forwards progress as MCP notifications
+ * @param extra Request metadata from the MCP SDK
+ * @returns Progress callback, or undefined if the client did not request progress
+ */
+function createProgressReporter(extra?: ToolExtra): ProgressCallback | undefined {
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined) {
+    return undefined;
+  }
+
+  return async (progress, total, message) => {
+    try {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error) {
+      console.error('[MCP Server] Failed to send progress notification:', error);
+    }
+  };
+}
+
+/**
+ * Base class for tools. Validates arguments against the tool schema and
+ * converts thrown errors into error responses.
+ */
+abstract class BaseTool<TSchema extends z.AnyZodObject> implements Tool {
+  abstract getName(): ToolName;
+  abstract getDescription(): string;
+  abstract getSchema(): TSchema;
+
+  /**
+   * Execute the tool with validated arguments
+   * @param args Parsed tool arguments
+   * @param server MCP server instance
+   * @param extra Request metadata from the MCP SDK, if invoked through a transport
+   */
+  protected abstract execute(
+    args: z.infer<TSchema>,
+    server: PromptContextMcpServer,
+    extra?: ToolExtra
+  ): Promise<ToolResponse>;
+
+  getHandler(server: PromptContextMcpServer): ToolHandler {
+    return async (rawArgs: unknown, extra?: ToolExtra) => {
       const requestId = crypto.randomUUID();
-      
-      try {
-        // 전체 rawArgs 객체를 검사하기 위한 자세한 로깅
-        console.error(`[DEBUG] AddContextTool [${requestId}] Raw args (typeof: ${typeof rawArgs}):`, rawArgs);
-        console.error(`[DEBUG] AddContextTool [${requestId}] Raw args JSON:`, JSON.stringify(rawArgs, null, 2));
-        console.error(`[DEBUG] AddContextTool [${requestId}] Raw args keys:`, Object.keys(rawArgs));
-        
-        // 매개변수 처리 로직 개선
-        let args;
-        if (typeof rawArgs === 'object') {
-          // 다양한 매개변수 구조 처리
-          if (rawArgs.arguments) {
-            args = rawArgs.arguments;
-            console.error(`[DEBUG] AddContextTool [${requestId}] Using rawArgs.arguments`);
-          } else if (rawArgs.params && rawArgs.params.arguments) {
-            args = rawArgs.params.arguments;
-            console.error(`[DEBUG] AddContextTool [${requestId}] Using rawArgs.params.arguments`);
-          } else if (rawArgs.params) {
-            args = rawArgs.params;
-            console.error(`[DEBUG] AddContextTool [${requestId}] Using rawArgs.params`);
-          } else {
-            args = rawArgs;
-            console.error(`[DEBUG] AddContextTool [${requestId}] Using rawArgs directly`);
-          }
-        } else {
-          args = rawArgs;
-          console.error(`[DEBUG] AddContextTool [${requestId}] Using rawArgs directly (non-object)`);
-        }
-        
-        console.error(`[DEBUG] AddContextTool [${requestId}] Processed args:`, JSON.stringify(args, null, 2));
-        
-        // 필수 파라미터 검증
-        if (!args.contextId) {
-          console.error('[DEBUG] Missing contextId');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: 'Context ID is required',
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
-        }
-        
-        if (!args.message) {
-          console.error('[DEBUG] Missing message');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: 'Message content is required',
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
-        }
-        
-        if (!args.role || (args.role !== 'user' && args.role !== 'assistant')) {
-          console.error(`[DEBUG] Invalid role: ${args.role}`);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: 'Role must be either "user" or "assistant"',
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
-        }
-        
-        // Process importance parameter
-        let importance = 0.5; // Default to MEDIUM
-        if (args.importance) {
-          switch (args.importance) {
-            case 'LOW':
-              importance = 0.25;
-              break;
-            case 'MEDIUM':
-              importance = 0.5;
-              break;
-            case 'HIGH':
-              importance = 0.75;
-              break;
-            case 'CRITICAL':
-              importance = 1.0;
-              break;
-          }
-        }
+      const parsed = this.getSchema().safeParse(rawArgs ?? {});
 
-        // Add message to context
-        await server.contextService.addMessage({
-          contextId: args.contextId,
-          content: args.message,
-          role: args.role,
-          timestamp: Date.now(),
-          importance,
-          tags: args.tags || [],
-        });
-
-        // 성공 응답을 JSON 형식으로 반환
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                message: `Message added to context: ${args.contextId}`,
-              }, null, 2),
-            },
-          ],
-          isError: false,
-        };
+      if (!parsed.success) {
+        const issues = parsed.error.issues
+          .map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`)
+          .join('; ');
+        console.error(`[DEBUG] ${this.getName()} [${requestId}] Invalid arguments: ${issues}`);
+        return errorResponse(`Invalid arguments: ${issues}`);
+      }
+
+      try {
+        return await this.execute(parsed.data, server, extra);
       } catch (error) {
-        console.error(`[ERROR] Error in add_context handler [${requestId}]:`, error);
-        
-        // 오류 응답을 JSON 형식으로 반환
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: false,
-                error: `Internal server error: ${error instanceof Error ? error.message : String(error)}`,
-              }, null, 2),
-            },
-          ],
-          isError: true,
-        };
+        console.error(`[ERROR] Error in ${this.getName()} handler [${requestId}]:`, error);
+        return errorResponse(
+          `Internal server error: ${error instanceof Error ? error.message : String(error)}`
+        );
       }
     };
   }
 }
 
+const addContextSchema = z.object({
+  contextId: z
+    .string()
+    .min(1)
+    .describe(
+      'Unique identifier of the context, e.g. a file path or topic name. The context is created if it does not exist.'
+    ),
+  message: z.string().min(1).describe('Message content to store.'),
+  role: z.enum(['user', 'assistant']).describe('Role of the message sender.'),
+  importance: z
+    .enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'])
+    .optional()
+    .describe('Importance of the message. Defaults to MEDIUM.'),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe('Tags associated with the message, used for filtering and search.'),
+  parentContextId: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(
+      'ID of a parent context. Once enough child contexts are summarized, the parent receives a meta-summary of them.'
+    ),
+  pinned: z
+    .boolean()
+    .optional()
+    .describe('Pin the message so it is always preferred when the context is recalled.'),
+});
+
 /**
- * Get context tool implementation
+ * Add context tool implementation
  */
-class GetContextTool implements Tool {
-  getName(): string {
-    return "get_context";
+class AddContextTool extends BaseTool<typeof addContextSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.ADD_CONTEXT;
+  }
+
+  getDescription(): string {
+    return 'Add a message to a context. Messages are stored persistently, indexed for similarity search and summarized automatically once the message threshold is reached.';
   }
 
-  getSchema(): z.ZodObject<any> {
-    return z.object({
-      random_string: z.string(),
-      contextId: z.string().optional(),
-      query: z.string().optional(),
-      limit: z.number().int().optional(),
+  getSchema(): typeof addContextSchema {
+    return addContextSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof addContextSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    await server.contextService.addMessage({
+      contextId: args.contextId,
+      content: args.message,
+      role: args.role,
+      timestamp: Date.now(),
+      importance: ContextImportance[args.importance ?? 'MEDIUM'],
+      tags: args.tags || [],
+      ...(args.pinned && { pinned: true }),
     });
+
+    if (args.parentContextId) {
+      await server.contextService.setParentContext(args.contextId, args.parentContextId);
+    }
+
+    return jsonResponse({
+      success: true,
+      message: `Message added to context: ${args.contextId}`,
+    });
+  }
+}
+
+const dateSchema = z.union([z.string(), z.number()]);
+
+const getContextSchema = z.object({
+  contextId: z
+    .string()
+    .optional()
+    .describe('ID of the context to retrieve, including its messages and latest summary.'),
+  query: z
+    .string()
+    .optional()
+    .describe(
+      'Text to search for in stored contexts, matched by meaning and by exact words such as function names or error codes. Used when contextId is omitted.'
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of similar contexts to return for a query. Defaults to 5.'),
+  mode: z
+    .enum(SEARCH_MODES)
+    .optional()
+    .describe(
+      'How to rank query results: "hybrid" combines keyword and semantic ranking, "vector" uses semantic similarity only and "keyword" uses exact word matches only. Defaults to the configured searchMode.'
+    ),
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe('Only search contexts that carry all of these tags.'),
+  role: z
+    .string()
+    .optional()
+    .describe(
+      'Only match messages with this role, e.g. "user" or "assistant". Summaries are skipped.'
+    ),
+  minImportance: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Only search contexts with at least this importance score between 0 and 1.'),
+  since: dateSchema
+    .optional()
+    .describe('Only search contexts active at or after this ISO date or epoch milliseconds.'),
+  until: dateSchema
+    .optional()
+    .describe('Only search contexts active at or before this ISO date or epoch milliseconds.'),
+  parentContextId: z
+    .string()
+    .optional()
+    .describe('Only search the direct child contexts of this context.'),
+  contextIds: z.array(z.string()).optional().describe('Only search these contexts.'),
+  excludeContextIds: z.array(z.string()).optional().describe('Never return these contexts.'),
+  diversify: z
+    .boolean()
+    .optional()
+    .describe(
+      'Skip results that repeat better ranked ones, so the returned contexts cover more ground. Defaults to ranking.diversify.'
+    ),
+  recencyBoost: z
+    .boolean()
+    .optional()
+    .describe('Rank recently active contexts higher. Defaults to ranking.recencyBoost.'),
+  importanceBoost: z
+    .boolean()
+    .optional()
+    .describe(
+      'Rank contexts with a high importance score higher. Defaults to ranking.importanceBoost.'
+    ),
+  rerank: z
+    .boolean()
+    .optional()
+    .describe(
+      'Rescore results with the configured cross-encoder model, which reads query and result together. Slower, but more precise. Defaults to ranking.rerank.'
+    ),
+  includeText: z
+    .boolean()
+    .optional()
+    .describe(
+      'Include the full text of each query result. Set to false to return only the highlighted snippets, their message indices and the scores, which keeps responses small. Defaults to true.'
+    ),
+  section: z
+    .enum(SUMMARY_SECTIONS)
+    .optional()
+    .describe(
+      'Return only this section of the context summary instead of the whole context, e.g. "decisions" or "actionItems". Requires contextId.'
+    ),
+});
+
+/**
+ * Read one section of a summary, using an empty value for sections the summary lacks
+ * @param summary Context summary
+ * @param section Section to read
+ * @returns Section content
+ */
+function getSummarySection(summary: ContextSummary, section: SummarySection): unknown {
+  if (section === 'entities') {
+    return summary.entities ?? { files: [], functions: [], packages: [], urls: [] };
   }
+  return summary[section] ?? [];
+}
 
-  getHandler(server: PromptContextMcpServer): (args: any) => Promise<{
-    content: Array<{ text: string; type: 'text' }>;
-    isError?: boolean;
-  }> {
-    return async (rawArgs: any) => {
-      // UUID 자동 생성
-      const requestId = crypto.randomUUID();
-      
-      try {
-        // 전체 rawArgs 객체를 검사하기 위한 자세한 로깅
-        console.error(`[DEBUG] GetContextTool [${requestId}] Raw args (typeof: ${typeof rawArgs}):`, rawArgs);
-        console.error(`[DEBUG] GetContextTool [${requestId}] Raw args JSON:`, JSON.stringify(rawArgs, null, 2));
-        console.error(`[DEBUG] GetContextTool [${requestId}] Raw args keys:`, Object.keys(rawArgs));
-        
-        // 매개변수 처리 로직 개선
-        let args;
-        if (typeof rawArgs === 'object') {
-          // 다양한 매개변수 구조 처리
-          if (rawArgs.arguments) {
-            args = rawArgs.arguments;
-            console.error(`[DEBUG] GetContextTool [${requestId}] Using rawArgs.arguments`);
-          } else if (rawArgs.params && rawArgs.params.arguments) {
-            args = rawArgs.params.arguments;
-            console.error(`[DEBUG] GetContextTool [${requestId}] Using rawArgs.params.arguments`);
-          } else if (rawArgs.params) {
-            args = rawArgs.params;
-            console.error(`[DEBUG] GetContextTool [${requestId}] Using rawArgs.params`);
-          } else {
-            args = rawArgs;
-            console.error(`[DEBUG] GetContextTool [${requestId}] Using rawArgs directly`);
-          }
-        } else {
-          args = rawArgs;
-          console.error(`[DEBUG] GetContextTool [${requestId}] Using rawArgs directly (non-object)`);
-        }
-        
-        console.error(`[DEBUG] GetContextTool [${requestId}] Processed args:`, JSON.stringify(args, null, 2));
-        
-        // 필수 파라미터 검증
-        const hasContextId = !!args.contextId;
-        const hasQuery = !!args.query;
-        
-        console.error(`[DEBUG] GetContextTool [${requestId}] hasContextId: ${hasContextId}, hasQuery: ${hasQuery}`);
-        
-        if (!hasContextId && !hasQuery) {
-          console.error('[DEBUG] Missing both contextId and query');
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: false,
-                  error: 'Either contextId or query must be provided',
-                }, null, 2),
-              },
-            ],
-            isError: true,
-          };
-        }
+/**
+ * Get context tool implementation
+ */
+class GetContextTool extends BaseTool<typeof getContextSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.GET_CONTEXT;
+  }
 
-        // 특정 컨텍스트 검색
-        if (hasContextId) {
-          console.error(`[DEBUG] Retrieving context: ${args.contextId}`);
-          const context = await server.contextService.getContext(args.contextId);
-          
-          if (!context) {
-            console.error(`[DEBUG] Context not found: ${args.contextId}`);
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify({
-                    success: false,
-                    error: `Context with ID '${args.contextId}' not found`,
-                  }, null, 2),
-                },
-              ],
-              isError: true,
-            };
-          }
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: true,
-                  context,
-                }, null, 2),
-              },
-            ],
-          };
-        } else {
-          // 유사 컨텍스트 검색 (hasQuery가 true인 경우)
-          console.error(`[DEBUG] Searching for contexts with query: ${args.query}`);
-          const contexts = await server.contextService.findSimilarContexts(
-            args.query, 
-            args.limit || 5
-          );
-          
-          return {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify({
-                  success: true,
-                  contexts,
-                }, null, 2),
-              },
-            ],
-          };
-        }
-      } catch (error) {
-        console.error(`[ERROR] Error in get_context handler [${requestId}]:`, error);
-        
-        // 오류 응답을 JSON 형식으로 반환
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: false,
-                error: `Internal server error: ${error instanceof Error ? error.message : String(error)}`,
-              }, null, 2),
-            },
-          ],
-          isError: true,
-        };
+  getDescription(): string {
+    return 'Retrieve a context by ID, or search for contexts similar to a query. Either contextId or query must be provided. With contextId, pass section to fetch a single part of the summary such as decisions, openQuestions or actionItems. With query, filters such as tags, since or role narrow down the searched contexts, and diversify, recencyBoost, importanceBoost or rerank reorder the results. Query results carry their best matching snippets with the query terms highlighted, the messageIndex each snippet came from and the scores that ranked them.';
+  }
+
+  getSchema(): typeof getContextSchema {
+    return getContextSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof getContextSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    if (args.section) {
+      if (!args.contextId) {
+        return errorResponse('section requires contextId');
       }
-    };
+
+      const summary = await server.contextService.getSummary(args.contextId);
+      if (!summary) {
+        return errorResponse(`Context with ID '${args.contextId}' has no summary yet`);
+      }
+      return jsonResponse({
+        success: true,
+        contextId: args.contextId,
+        version: summary.version,
+        section: args.section,
+        content: getSummarySection(summary, args.section),
+      });
+    }
+
+    if (args.contextId) {
+      const context = await server.contextService.getContext(args.contextId);
+      if (!context) {
+        return errorResponse(`Context with ID '${args.contextId}' not found`);
+      }
+      return jsonResponse({ success: true, context });
+    }
+
+    if (args.query) {
+      const contexts = await server.contextService.findSimilarContexts(
+        args.query,
+        args.limit || 5,
+        {
+          mode: args.mode,
+          filters: {
+            tags: args.tags,
+            role: args.role,
+            minImportance: args.minImportance,
+            since: parseTimestamp(args.since),
+            until: parseTimestamp(args.until),
+            parentContextId: args.parentContextId,
+            contextIds: args.contextIds,
+            excludeContextIds: args.excludeContextIds,
+          },
+          ranking: {
+            diversify: args.diversify,
+            recencyBoost: args.recencyBoost,
+            importanceBoost: args.importanceBoost,
+            rerank: args.rerank,
+          },
+        }
+      );
+      return jsonResponse({
+        success: true,
+        // Snippets point at the message they came from, so agents can cite without the full text;
+        // undefined fields are left out of the JSON response
+        contexts:
+          args.includeText === false
+            ? contexts.map((context) => ({ ...context, text: undefined }))
+            : contexts,
+      });
+    }
+
+    return errorResponse('Either contextId or query must be provided');
+  }
+}
+
+const listContextsSchema = z.object({
+  tags: z
+    .array(z.string())
+    .optional()
+    .describe('Only include contexts that carry all of these tags.'),
+  since: dateSchema
+    .optional()
+    .describe('Only include contexts active at or after this ISO date or epoch milliseconds.'),
+  until: dateSchema
+    .optional()
+    .describe('Only include contexts active at or before this ISO date or epoch milliseconds.'),
+  hasSummary: z.boolean().optional().describe('Only include contexts with (or without) a summary.'),
+  minImportance: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Minimum context importance score between 0 and 1.'),
+  sortBy: z
+    .enum(['lastActivityAt', 'createdAt', 'totalMessageCount'])
+    .optional()
+    .describe('Field to sort by. Defaults to lastActivityAt.'),
+  sortOrder: z.enum(['asc', 'desc']).optional().describe('Sort direction. Defaults to desc.'),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .max(100)
+    .optional()
+    .describe('Maximum number of contexts per page. Defaults to 20.'),
+  cursor: z
+    .string()
+    .optional()
+    .describe('Cursor returned as nextCursor by a previous call, to fetch the next page.'),
+});
+
+/**
+ * List contexts tool implementation
+ */
+class ListContextsTool extends BaseTool<typeof listContextsSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.LIST_CONTEXTS;
+  }
+
+  getDescription(): string {
+    return 'List existing contexts with their metadata and a summary snippet. Use this to discover context IDs before adding to or retrieving a context.';
+  }
+
+  getSchema(): typeof listContextsSchema {
+    return listContextsSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof listContextsSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    const result = await server.contextService.listContexts({
+      ...args,
+      since: parseTimestamp(args.since),
+      until: parseTimestamp(args.until),
+    });
+    return jsonResponse({ success: true, ...result });
   }
 }
 
+const deleteContextSchema = z.object({
+  contextId: z.string().min(1).describe('ID of the context to delete.'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('When true, report what would be removed without deleting anything.'),
+});
+
+/**
+ * Delete context tool implementation
+ */
+class DeleteContextTool extends BaseTool<typeof deleteContextSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.DELETE_CONTEXT;
+  }
+
+  getDescription(): string {
+    return 'Delete a context and all of its data: messages, metadata, summary, vector index entry and graph relationships. Use dryRun to preview what would be removed.';
+  }
+
+  getSchema(): typeof deleteContextSchema {
+    return deleteContextSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof deleteContextSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    const result = await server.contextService.deleteContext(args.contextId, args.dryRun);
+
+    if (result.files.length === 0 && !result.vectorEntry && !result.graphNode) {
+      return errorResponse(`Context with ID '${args.contextId}' not found`);
+    }
+
+    return jsonResponse({ success: true, ...result });
+  }
+}
+
+const summarizeContextSchema = z.object({
+  contextId: z.string().min(1).describe('ID of the context to summarize.'),
+  sinceLastSummary: z
+    .boolean()
+    .optional()
+    .describe(
+      'When true, fold only the messages added since the last summary into the previous summary.'
+    ),
+});
+
+/**
+ * Summarize context tool implementation
+ */
+class SummarizeContextTool extends BaseTool<typeof summarizeContextSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.SUMMARIZE_CONTEXT;
+  }
+
+  getDescription(): string {
+    return 'Summarize a context immediately instead of waiting for the message threshold. Use this to compact a conversation before starting a large task. Reports progress notifications when the client supplies a progress token.';
+  }
+
+  getSchema(): typeof summarizeContextSchema {
+    return summarizeContextSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof summarizeContextSchema>,
+    server: PromptContextMcpServer,
+    extra?: ToolExtra
+  ): Promise<ToolResponse> {
+    const result = await server.contextService.triggerManualSummarization(args.contextId, {
+      sinceLastSummary: args.sinceLastSummary,
+      onProgress: createProgressReporter(extra),
+    });
+
+    if (!result.success || !result.summary) {
+      return errorResponse(result.error || `Failed to summarize context '${args.contextId}'`);
+    }
+
+    return jsonResponse({
+      success: true,
+      summary: result.summary,
+      tokensUsed: result.tokensUsed,
+    });
+  }
+}
+
+const getSummaryHistorySchema = z.object({
+  contextId: z.string().min(1).describe('ID of the context whose summary history to return.'),
+  fromVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Summary version to diff from. When set, a diff against toVersion is included.'),
+  toVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Summary version to diff to. Defaults to the latest version.'),
+});
+
+/**
+ * Get summary history tool implementation
+ */
+class GetSummaryHistoryTool extends BaseTool<typeof getSummaryHistorySchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.GET_SUMMARY_HISTORY;
+  }
+
+  getDescription(): string {
+    return 'List every stored version of a context summary, oldest first. Pass fromVersion (and optionally toVersion) to also get a diff of sentences, key insights and code blocks between two versions.';
+  }
+
+  getSchema(): typeof getSummaryHistorySchema {
+    return getSummaryHistorySchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof getSummaryHistorySchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    const versions = await server.contextService.getSummaryHistory(args.contextId);
+    if (versions.length === 0) {
+      return errorResponse(`No summaries found for context '${args.contextId}'`);
+    }
+
+    if (args.fromVersion === undefined) {
+      return jsonResponse({ success: true, contextId: args.contextId, versions });
+    }
+
+    const toVersion = args.toVersion ?? versions[versions.length - 1].version;
+    const from = versions.find((summary) => summary.version === args.fromVersion);
+    const to = versions.find((summary) => summary.version === toVersion);
+    if (!from || !to) {
+      return errorResponse(
+        `Summary version ${from ? toVersion : args.fromVersion} not found for context '${args.contextId}'`
+      );
+    }
+
+    return jsonResponse({
+      success: true,
+      contextId: args.contextId,
+      versions,
+      diff: diffSummaries(from, to),
+    });
+  }
+}
+
+const recallSchema = z.object({
+  contextId: z.string().min(1).optional().describe('ID of the context to recall.'),
+  query: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('What the recall is for. Used to rank code blocks and find related contexts.'),
+  tokenBudget: z
+    .number()
+    .int()
+    .min(50)
+    .max(200000)
+    .describe('Maximum number of tokens the returned text may use.'),
+  recentMessages: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of most recent messages to consider. Defaults to 6.'),
+  maxCodeBlocks: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Maximum number of code blocks to consider. Defaults to 5.'),
+  similarLimit: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Maximum number of related contexts to consider. Defaults to 3; 0 disables them.'),
+});
+
+/**
+ * Recall tool implementation
+ */
+class RecallTool extends BaseTool<typeof recallSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.RECALL;
+  }
+
+  getDescription(): string {
+    return 'Build a prompt-ready text block about a context that fits a token budget. Packs, in priority order, the latest summary, pinned and high-importance messages, the most recent messages, relevant code blocks and related contexts, and returns a manifest of what was included and dropped. Prefer this over get_context when context window space matters.';
+  }
+
+  getSchema(): typeof recallSchema {
+    return recallSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof recallSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    if (!args.contextId && !args.query) {
+      return errorResponse('Either contextId or query must be provided');
+    }
+
+    const result = await server.recallService.recall(args);
+    return jsonResponse({ success: true, ...result });
+  }
+}
+
+const doctorSchema = z.object({
+  repair: z
+    .boolean()
+    .optional()
+    .describe(
+      'When true, fix the issues found: prune orphans, re-embed contexts, recount message counters and drop unparsable messages.'
+    ),
+});
+
+/**
+ * Doctor tool implementation
+ */
+class DoctorTool extends BaseTool<typeof doctorSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.DOCTOR;
+  }
+
+  getDescription(): string {
+    return 'Check the context, vector and graph stores for inconsistencies: vector entries and graph nodes of removed contexts, contexts without an embedding, message counters that disagree with the stored messages and unparsable messages. Pass repair to fix them.';
+  }
+
+  getSchema(): typeof doctorSchema {
+    return doctorSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof doctorSchema>,
+    server: PromptContextMcpServer
+  ): Promise<ToolResponse> {
+    const report = await server.contextService.checkConsistency(args.repair);
+    return jsonResponse({ success: true, ...report });
+  }
+}
+
+const reindexSchema = z.object({
+  batchSize: z
+    .number()
+    .int()
+    .positive()
+    .max(256)
+    .optional()
+    .describe('Number of chunks embedded between progress reports. Defaults to 16.'),
+});
+
+/**
+ * Reindex tool implementation
+ */
+class ReindexTool extends BaseTool<typeof reindexSchema> {
+  getName(): ToolName {
+    return TOOL_NAMES.REINDEX;
+  }
+
+  getDescription(): string {
+    return 'Regenerate the embeddings of every context with the current embedding model and replace the vector index. Run this when the server reports that the index was built with a different model. Reports progress notifications when the client supplies a progress token.';
+  }
+
+  getSchema(): typeof reindexSchema {
+    return reindexSchema;
+  }
+
+  protected async execute(
+    args: z.infer<typeof reindexSchema>,
+    server: PromptContextMcpServer,
+    extra?: ToolExtra
+  ): Promise<ToolResponse> {
+    const result = await server.contextService.reindexContexts({
+      batchSize: args.batchSize,
+      onProgress: createProgressReporter(extra),
+    });
+    return jsonResponse({ success: true, ...result });
+  }
+}
+
+/** Configuration fields holding credentials, at any depth of the configuration */
+const SECRET_FIELD_PATTERN = /(apiKey|token|secret|password|authorization)$/i;
+
+/**
+ * Copy a configuration value with every credential replaced by a mask
+ * @param value Configuration value
+ * @returns Copy that is safe to expose; empty credentials are left out
+ */
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SECRET_FIELD_PATTERN.test(key) ? (field ? '********' : undefined) : redactSecrets(field),
+    ])
+  );
+}
+
 /**
  * MCP Server class responsible for handling MCP requests
  */
-export class PromptContextMcpServer {
+export class PromptContextMcpServer implements SamplingClient {
   private server!: McpServer;
   private httpServer?: http.Server;
   public contextService: ContextService;
+  public recallService: RecallService;
   private config: Omit<MCPConfig, 'ignorePatterns'>;
   private packageVersion: string;
   public tools: Tool[];
@@ -364,10 +817,21 @@ export class PromptContextMcpServer {
    */
   constructor(contextService: ContextService, config: Omit<MCPConfig, 'ignorePatterns'>) {
     this.contextService = contextService;
+    this.recallService = new RecallService(contextService);
     this.config = config;
 
     // Initialize available tools
-    this.tools = [new AddContextTool(), new GetContextTool()];
+    this.tools = [
+      new AddContextTool(),
+      new GetContextTool(),
+      new ListContextsTool(),
+      new DeleteContextTool(),
+      new SummarizeContextTool(),
+      new GetSummaryHistoryTool(),
+      new RecallTool(),
+      new DoctorTool(),
+      new ReindexTool(),
+    ];
 
     // Get package version
     this.packageVersion = 'unknown';
@@ -394,6 +858,56 @@ export class PromptContextMcpServer {
     console.error(`[MCP Server] Starting Prompt Context MCP Server v${this.packageVersion}`);
   }
 
+  /**
+   * Check whether the connected client advertises the sampling capability
+   * @returns True if sampling requests can be sent to the client
+   */
+  isSamplingSupported(): boolean {
+    return Boolean(this.server?.server.getClientCapabilities()?.sampling);
+  }
+
+  /**
+   * Ask the connected client to sample a message from its model
+   * @param params Sampling request parameters
+   * @returns Message produced by the client
+   */
+  async createMessage(params: CreateMessageRequest['params']): Promise<CreateMessageResult> {
+    if (!this.server) {
+      throw new Error('MCP server is not started');
+    }
+    return this.server.server.createMessage(params);
+  }
+
+  /**
+   * Answer a request to the HTTP server's health and info endpoints
+   * @param req HTTP request
+   * @param res HTTP response
+   */
+  handleHttpRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.url === '/health') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ status: 'ok', version: this.packageVersion }));
+      return;
+    }
+
+    if (req.url === '/info') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          name: 'prompt-context-server',
+          version: this.packageVersion,
+          tools: this.tools.map((tool) => tool.getName()),
+          // Provider settings such as summarizer.apiKey hold credentials too
+          config: redactSecrets(this.config),
+        })
+      );
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Not found' }));
+  }
+
   /**
    * Start HTTP server if configured
    */
@@ -408,33 +922,7 @@ export class PromptContextMcpServer {
 
       return new Promise((resolve) => {
         this.httpServer = http
-          .createServer((req, res) => {
-            if (req.url === '/health') {
-              res.writeHead(200, { 'Content-Type': 'application/json' });
-              res.end(JSON.stringify({ status: 'ok', version: this.packageVersion }));
-              return;
-            }
-
-            if (req.url === '/info') {
-              res.writeHead(200, { 'Content-Type': 'application/json' });
-              res.end(
-                JSON.stringify({
-                  name: 'prompt-context-server',
-                  version: this.packageVersion,
-                  tools: this.tools.map((tool) => tool.getName()),
-                  config: {
-                    ...this.config,
-                    // Hide sensitive info
-                    apiKey: this.config.apiKey ? '********' : undefined,
-                  },
-                })
-              );
-              return;
-            }
-
-            res.writeHead(404, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Not found' }));
-          })
+          .createServer((req, res) => this.handleHttpRequest(req, res))
           .listen(httpPort, () => {
             console.error(`[MCP Server] HTTP server started on port ${httpPort}`);
             resolve();
@@ -445,57 +933,59 @@ export class PromptContextMcpServer {
     }
   }
 
+  /**
+   * Register all tools with the MCP server, including their descriptions and input schemas
+   */
+  private registerTools(): void {
+    for (const tool of this.tools) {
+      const name = tool.getName();
+      const handler = tool.getHandler(this);
+
+      try {
+        this.server.tool(name, tool.getDescription(), tool.getSchema().shape, (args, extra) =>
+          handler(args, extra)
+        );
+        console.error(`[DEBUG] Tool ${name} registered successfully`);
+      } catch (error) {
+        console.error(`[ERROR] Failed to register tool ${name}:`, error);
+        throw error;
+      }
+    }
+  }
+
   /**
    * Start the MCP server
    */
   async start(): Promise<void> {
     try {
       console.error('[DEBUG] Starting MCP server...');
-      
-      // 서버 초기화
-      this.server = new McpServer({
-        name: 'prompt-context-server',
-        version: this.packageVersion,
-      }, {
-        capabilities: {
-          tools: {},
+
+      this.server = new McpServer(
+        {
+          name: 'prompt-context-server',
+          version: this.packageVersion,
         },
-      });
-      
-      // 도구 등록
-      console.error('[DEBUG] Registering tools...');
-      
-      // 도구 스키마 로깅
-      for (const tool of this.tools) {
-        const name = tool.getName();
-        const schema = tool.getSchema();
-        console.error(`[DEBUG] Tool ${name} schema:`, JSON.stringify(schema, null, 2));
-      }
-      
-      for (const tool of this.tools) {
-        const name = tool.getName();
-        console.error(`[DEBUG] Registering tool: ${name}`);
-        
-        try {
-          this.server.tool(name, tool.getHandler(this));
-          console.error(`[DEBUG] Tool ${name} registered successfully`);
-        } catch (error) {
-          console.error(`[ERROR] Failed to register tool ${name}:`, error);
-          throw error;
+        {
+          capabilities: {
+            tools: {},
+          },
         }
-      }
+      );
+
+      console.error('[DEBUG] Registering tools...');
+      this.registerTools();
 
       console.error('[DEBUG] Tools registered, checking HTTP server configuration...');
-      
+
       // Start the HTTP server if enabled
       await this.startHttpServer();
 
       console.error('[DEBUG] Initializing stdio transport...');
-      
+
       // Start server with stdio transport
       const transport = new StdioServerTransport();
       console.error('[DEBUG] Connecting server to transport...');
-      
+
       await this.server.connect(transport);
 
       console.error('[DEBUG] Server connected to transport successfully');
@@ -503,7 +993,9 @@ export class PromptContextMcpServer {
       console.error('[MCP Server] MCP Server started successfully.');
     } catch (error) {
       console.error('[MCP Server] Error starting server:', error);
-      console.error(`[DEBUG] Stack trace: ${error instanceof Error ? error.stack : 'No stack trace available'}`);
+      console.error(
+        `[DEBUG] Stack trace: ${error instanceof Error ? error.stack : 'No stack trace available'}`
+      );
       throw error;
     }
   }
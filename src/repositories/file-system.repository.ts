@@ -1,6 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { Message, ContextMetadata, ContextData, ContextSummary } from '../domain/types';
+import { ContextMetadataFilter, ContextStore, UnparsableMessage } from './interfaces';
+import { KeyedMutex } from '../utils/keyed-mutex';
+import { withFileLock, writeFileAtomic, writeJsonAtomic } from '../utils/atomic-file';
 
 /**
  * Sanitize a file path segment to ensure valid file names
@@ -13,30 +16,86 @@ function sanitizePathSegment(segment: string | undefined | null): string {
     console.error('[WARNING] sanitizePathSegment received undefined or null value');
     return 'undefined_segment';
   }
-  
+
   // 문자열이 아닌 경우 문자열로 변환
   if (typeof segment !== 'string') {
     console.error(`[WARNING] sanitizePathSegment received non-string value: ${typeof segment}`);
     segment = String(segment);
   }
-  
+
   // 빈 문자열 처리
   if (segment.trim().length === 0) {
     console.error('[WARNING] sanitizePathSegment received empty string');
     return 'empty_segment';
   }
-  
+
   // 경로 조작 방지 - 경로 구분자 및 상위 디렉토리 참조 제거
-  segment = segment.replace(/\.\./g, '_').replace(/[\/\\]/g, '_');
-  
+  segment = segment.replace(/\.\./g, '_').replace(/[/\\]/g, '_');
+
   // 파일 시스템에서 문제를 일으킬 수 있는 문자 제거
   return segment.replace(/[/:*?"<>|]/g, '_');
 }
 
+/**
+ * Fill in required metadata fields that may be missing from a stored file
+ * @param metadata Raw metadata read from disk
+ * @param contextId Fallback context identifier
+ * @returns Normalized metadata
+ */
+function normalizeMetadata(metadata: Partial<ContextMetadata>, contextId: string): ContextMetadata {
+  return {
+    contextId: metadata.contextId || contextId,
+    createdAt: metadata.createdAt || 0,
+    lastActivityAt: metadata.lastActivityAt || 0,
+    messagesSinceLastSummary: metadata.messagesSinceLastSummary || 0,
+    hasSummary: metadata.hasSummary || false,
+    lastSummarizedAt: metadata.lastSummarizedAt,
+    summarizedMessageCount: metadata.summarizedMessageCount,
+    importanceScore: metadata.importanceScore,
+    parentContextId: metadata.parentContextId,
+    totalMessageCount: metadata.totalMessageCount,
+    totalTokenCount: metadata.totalTokenCount,
+    tags: metadata.tags,
+  };
+}
+
+/**
+ * Check whether metadata matches a listing filter
+ * @param metadata Context metadata
+ * @param filter Listing filter
+ * @returns True if the context should be listed
+ */
+export function matchesMetadataFilter(
+  metadata: ContextMetadata,
+  filter: ContextMetadataFilter
+): boolean {
+  if (filter.tags && !filter.tags.every((tag) => (metadata.tags || []).includes(tag))) {
+    return false;
+  }
+  if (filter.since !== undefined && metadata.lastActivityAt < filter.since) {
+    return false;
+  }
+  if (filter.until !== undefined && metadata.lastActivityAt > filter.until) {
+    return false;
+  }
+  if (filter.parentContextId !== undefined && metadata.parentContextId !== filter.parentContextId) {
+    return false;
+  }
+  return true;
+}
+
+const METADATA_FILE_SUFFIX = '.metadata.json';
+const LOCK_DIR_NAME = '.locks';
+
+/**
+ * Serializes writes per context within this process; lock files do the same across processes
+ */
+const contextMutex = new KeyedMutex();
+
 /**
  * File system based repository for persistent storage
  */
-export class FileSystemRepository {
+export class FileSystemRepository implements ContextStore {
   private baseDir: string;
 
   /**
@@ -56,6 +115,18 @@ export class FileSystemRepository {
     fs.ensureDirSync(this.baseDir);
   }
 
+  /**
+   * Run a write operation while holding the context's in-process and cross-process locks
+   * @param contextId Context identifier
+   * @param task Operation to run
+   * @returns Result of the operation
+   */
+  private withContextLock<T>(contextId: string, task: () => Promise<T>): Promise<T> {
+    const sanitizedId = sanitizePathSegment(contextId);
+    const lockPath = path.join(this.baseDir, LOCK_DIR_NAME, `${sanitizedId}.lock`);
+    return contextMutex.runExclusive(lockPath, () => withFileLock(lockPath, task));
+  }
+
   /**
    * Get the file path for a context summary
    * @param contextId Context identifier
@@ -66,6 +137,50 @@ export class FileSystemRepository {
     return path.join(this.baseDir, `${sanitizedId}.summary.json`);
   }
 
+  /**
+   * Get the file path for an archived summary version
+   * @param contextId Context identifier
+   * @param version Summary version
+   * @returns Path to the archived summary file
+   */
+  private getSummaryVersionPath(contextId: string, version: number): string {
+    const sanitizedId = sanitizePathSegment(contextId);
+    return path.join(this.baseDir, `${sanitizedId}.summary.v${version}.json`);
+  }
+
+  /**
+   * Find the archived summary versions stored for a context
+   * @param contextId Context identifier
+   * @returns Archived version numbers in ascending order
+   */
+  private async listArchivedSummaryVersions(contextId: string): Promise<number[]> {
+    const prefix = `${sanitizePathSegment(contextId)}.summary.v`;
+
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error) {
+      console.error(`Error listing summary history for ${contextId}:`, error);
+      return [];
+    }
+
+    return files
+      .filter((file) => file.startsWith(prefix) && file.endsWith('.json'))
+      .map((file) => Number(file.slice(prefix.length, -'.json'.length)))
+      .filter((version) => Number.isInteger(version))
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Get the file path for a context meta-summary
+   * @param contextId Context identifier
+   * @returns Path to the meta-summary file
+   */
+  private getMetaSummaryPath(contextId: string): string {
+    const sanitizedId = sanitizePathSegment(contextId);
+    return path.join(this.baseDir, `${sanitizedId}.meta-summary.json`);
+  }
+
   /**
    * Get the file path for context messages (JSON Lines format)
    */
@@ -82,7 +197,7 @@ export class FileSystemRepository {
    */
   private getMetadataPath(contextId: string): string {
     const sanitizedId = sanitizePathSegment(contextId);
-    return path.join(this.baseDir, `${sanitizedId}.metadata.json`);
+    return path.join(this.baseDir, `${sanitizedId}${METADATA_FILE_SUFFIX}`);
   }
 
   /**
@@ -91,7 +206,44 @@ export class FileSystemRepository {
    */
   async saveSummary(summary: ContextSummary): Promise<void> {
     const summaryPath = this.getSummaryPath(summary.contextId);
-    await fs.writeJson(summaryPath, summary, { spaces: 2 });
+
+    await this.withContextLock(summary.contextId, async () => {
+      // Archive the current summary so earlier versions stay available
+      const previous = await this.loadSummary(summary.contextId);
+      if (previous) {
+        await writeJsonAtomic(
+          this.getSummaryVersionPath(previous.contextId, previous.version),
+          previous,
+          2
+        );
+      }
+
+      await writeJsonAtomic(summaryPath, summary, 2);
+    });
+  }
+
+  /**
+   * Load every stored version of a context summary
+   * @param contextId Context identifier
+   * @returns Summaries ordered from oldest to newest version
+   */
+  async listSummaryHistory(contextId: string): Promise<ContextSummary[]> {
+    const history = new Map<number, ContextSummary>();
+
+    for (const version of await this.listArchivedSummaryVersions(contextId)) {
+      try {
+        history.set(version, await fs.readJson(this.getSummaryVersionPath(contextId, version)));
+      } catch (error) {
+        console.error(`Error loading summary version ${version} for ${contextId}:`, error);
+      }
+    }
+
+    const current = await this.loadSummary(contextId);
+    if (current) {
+      history.set(current.version, current);
+    }
+
+    return Array.from(history.values()).sort((a, b) => a.version - b.version);
   }
 
   /**
@@ -113,6 +265,34 @@ export class FileSystemRepository {
     return undefined;
   }
 
+  /**
+   * Save a meta-summary covering the child contexts of a context
+   * @param summary Meta-summary to save
+   */
+  async saveMetaSummary(summary: ContextSummary): Promise<void> {
+    const summaryPath = this.getMetaSummaryPath(summary.contextId);
+    await this.withContextLock(summary.contextId, () => writeJsonAtomic(summaryPath, summary, 2));
+  }
+
+  /**
+   * Load the meta-summary of a context
+   * @param contextId Context identifier
+   * @returns Stored meta-summary or undefined if it doesn't exist
+   */
+  async loadMetaSummary(contextId: string): Promise<ContextSummary | undefined> {
+    const summaryPath = this.getMetaSummaryPath(contextId);
+
+    try {
+      if (await fs.pathExists(summaryPath)) {
+        return await fs.readJson(summaryPath);
+      }
+    } catch (error) {
+      console.error(`Error loading meta-summary for ${contextId}:`, error);
+    }
+
+    return undefined;
+  }
+
   /**
    * Add a message to a context
    * @param contextId Context identifier
@@ -127,63 +307,96 @@ export class FileSystemRepository {
       message.timestamp = Date.now();
     }
 
-    // Add the message as a single line to the JSONL file
-    await fs.appendFile(messagesPath, JSON.stringify(message) + '\n');
+    await this.withContextLock(contextId, async () => {
+      // Add the message as a single line to the JSONL file, starting a new line if a
+      // crash left the previous one unterminated
+      const separator = (await this.endsWithNewline(messagesPath)) ? '' : '\n';
+      await fs.appendFile(messagesPath, separator + JSON.stringify(message) + '\n');
 
-    // Update metadata
-    let metadata: ContextMetadata;
-    try {
-      if (await fs.pathExists(metadataPath)) {
-        metadata = await fs.readJson(metadataPath);
-        metadata.lastActivityAt = Date.now();
-        metadata.messagesSinceLastSummary = (metadata.messagesSinceLastSummary || 0) + 1;
-        metadata.totalMessageCount = (metadata.totalMessageCount || 0) + 1;
-      } else {
-        metadata = {
-          contextId,
-          createdAt: Date.now(),
-          lastActivityAt: Date.now(),
-          messagesSinceLastSummary: 1,
-          hasSummary: false,
-          totalMessageCount: 1,
-        };
+      // Update metadata
+      let metadata: ContextMetadata;
+      try {
+        if (await fs.pathExists(metadataPath)) {
+          metadata = await fs.readJson(metadataPath);
+          metadata.lastActivityAt = Date.now();
+          metadata.messagesSinceLastSummary = (metadata.messagesSinceLastSummary || 0) + 1;
+          metadata.totalMessageCount = (metadata.totalMessageCount || 0) + 1;
+        } else {
+          metadata = {
+            contextId,
+            createdAt: Date.now(),
+            lastActivityAt: Date.now(),
+            messagesSinceLastSummary: 1,
+            hasSummary: false,
+            totalMessageCount: 1,
+          };
+        }
+
+        // Keep the union of message tags on the context for filtering
+        if (message.tags && message.tags.length > 0) {
+          metadata.tags = Array.from(new Set([...(metadata.tags || []), ...message.tags]));
+        }
+
+        await writeJsonAtomic(metadataPath, metadata, 2);
+      } catch (error) {
+        console.error(`Error updating metadata for ${contextId}:`, error);
+        throw error;
       }
+    });
+  }
 
-      await fs.writeJson(metadataPath, metadata, { spaces: 2 });
+  /**
+   * Check whether a file is missing, empty or ends with a newline
+   * @param filePath File path
+   * @returns False only if the file's last byte is something other than a newline
+   */
+  private async endsWithNewline(filePath: string): Promise<boolean> {
+    let handle: number;
+    try {
+      handle = await fs.open(filePath, 'r');
     } catch (error) {
-      console.error(`Error updating metadata for ${contextId}:`, error);
-      throw error;
+      return true;
+    }
+
+    try {
+      const { size } = await fs.fstat(handle);
+      if (size === 0) {
+        return true;
+      }
+      const buffer = Buffer.alloc(1);
+      await fs.read(handle, buffer, 0, 1, size - 1);
+      return buffer[0] === 0x0a;
+    } finally {
+      await fs.close(handle);
     }
   }
 
+  /**
+   * Replace all messages of a context without touching its metadata
+   * @param contextId Context identifier
+   * @param messages Messages in chronological order
+   */
+  async saveMessages(contextId: string, messages: Message[]): Promise<void> {
+    const content = messages.map((message) => JSON.stringify(message) + '\n').join('');
+    await this.withContextLock(contextId, () =>
+      writeFileAtomic(this.getMessagesPath(contextId), content)
+    );
+  }
+
   /**
    * Load messages for a context
    * @param contextId Context identifier
    * @returns Array of messages
    */
   async loadMessages(contextId: string): Promise<Message[]> {
-    const messagesPath = this.getMessagesPath(contextId);
-
     try {
-      if (!(await fs.pathExists(messagesPath))) {
-        return [];
-      }
-
-      const content = await fs.readFile(messagesPath, 'utf8');
-      if (!content.trim()) {
-        return [];
-      }
-
       // Parse JSONL format
-      return content
-        .trim()
-        .split('\n')
-        .filter(Boolean)
-        .map((line) => {
+      return (await this.readMessageLines(contextId))
+        .map(({ content }) => {
           try {
-            return JSON.parse(line) as Message;
+            return JSON.parse(content) as Message;
           } catch (error) {
-            console.error(`Error parsing message line: ${line}`, error);
+            console.error(`Error parsing message line: ${content}`, error);
             return null;
           }
         })
@@ -194,6 +407,47 @@ export class FileSystemRepository {
     }
   }
 
+  /**
+   * Find JSONL lines that loadMessages skips because they are not valid JSON
+   * @param contextId Context identifier
+   * @returns Unparsable lines with their line numbers
+   */
+  async listUnparsableMessages(contextId: string): Promise<UnparsableMessage[]> {
+    const unparsable: UnparsableMessage[] = [];
+    for (const { line, content } of await this.readMessageLines(contextId)) {
+      try {
+        JSON.parse(content);
+      } catch (error) {
+        unparsable.push({
+          position: line,
+          content,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return unparsable;
+  }
+
+  /**
+   * Read the non-empty lines of a context's message file
+   * @param contextId Context identifier
+   * @returns Lines with their 1-based line numbers
+   */
+  private async readMessageLines(
+    contextId: string
+  ): Promise<Array<{ line: number; content: string }>> {
+    const messagesPath = this.getMessagesPath(contextId);
+    if (!(await fs.pathExists(messagesPath))) {
+      return [];
+    }
+
+    const content = await fs.readFile(messagesPath, 'utf8');
+    return content
+      .split('\n')
+      .map((line, index) => ({ line: index + 1, content: line }))
+      .filter((entry) => entry.content.trim());
+  }
+
   /**
    * Load context metadata
    * @param contextId Context identifier
@@ -205,20 +459,7 @@ export class FileSystemRepository {
     try {
       if (await fs.pathExists(metadataPath)) {
         const metadata = await fs.readJson(metadataPath);
-
-        // Ensure all required fields
-        return {
-          contextId: metadata.contextId || contextId,
-          createdAt: metadata.createdAt || 0,
-          lastActivityAt: metadata.lastActivityAt || 0,
-          messagesSinceLastSummary: metadata.messagesSinceLastSummary || 0,
-          hasSummary: metadata.hasSummary || false,
-          lastSummarizedAt: metadata.lastSummarizedAt,
-          importanceScore: metadata.importanceScore,
-          parentContextId: metadata.parentContextId,
-          totalMessageCount: metadata.totalMessageCount,
-          totalTokenCount: metadata.totalTokenCount,
-        };
+        return normalizeMetadata(metadata, contextId);
       }
     } catch (error) {
       console.error(`Error loading metadata for ${contextId}:`, error);
@@ -234,7 +475,104 @@ export class FileSystemRepository {
    */
   async saveContextData(contextId: string, metadata: ContextMetadata): Promise<void> {
     const metadataPath = this.getMetadataPath(contextId);
-    await fs.writeJson(metadataPath, metadata, { spaces: 2 });
+    await this.withContextLock(contextId, () => writeJsonAtomic(metadataPath, metadata, 2));
+  }
+
+  /**
+   * Read, modify and write context metadata without interleaving other writes to the context
+   * @param contextId Context identifier
+   * @param update Receives the current metadata and returns the metadata to save, or undefined to leave it unchanged
+   * @returns Saved metadata, or the current metadata if nothing was saved
+   */
+  async updateContextData(
+    contextId: string,
+    update: (current: ContextMetadata | undefined) => ContextMetadata | undefined
+  ): Promise<ContextMetadata | undefined> {
+    return this.withContextLock(contextId, async () => {
+      const current = await this.loadContextData(contextId);
+      const updated = update(current);
+      if (!updated) {
+        return current;
+      }
+      await writeJsonAtomic(this.getMetadataPath(contextId), updated, 2);
+      return updated;
+    });
+  }
+
+  /**
+   * Get the paths of all files stored for a context
+   * @param contextId Context identifier
+   * @returns Paths of existing context files
+   */
+  async getContextFiles(contextId: string): Promise<string[]> {
+    const candidates = [
+      this.getMessagesPath(contextId),
+      this.getMetadataPath(contextId),
+      this.getSummaryPath(contextId),
+      this.getMetaSummaryPath(contextId),
+      ...(await this.listArchivedSummaryVersions(contextId)).map((version) =>
+        this.getSummaryVersionPath(contextId, version)
+      ),
+    ];
+
+    const files: string[] = [];
+    for (const filePath of candidates) {
+      if (await fs.pathExists(filePath)) {
+        files.push(filePath);
+      }
+    }
+    return files;
+  }
+
+  /**
+   * Delete all files stored for a context
+   * @param contextId Context identifier
+   * @returns Paths of the removed files
+   */
+  async deleteContext(contextId: string): Promise<string[]> {
+    return this.withContextLock(contextId, async () => {
+      const files = await this.getContextFiles(contextId);
+      for (const filePath of files) {
+        await fs.remove(filePath);
+      }
+      return files;
+    });
+  }
+
+  /**
+   * Load metadata for stored contexts
+   * @param filter Optional criteria to narrow down the listing
+   * @returns Metadata of the matching contexts in the base directory
+   */
+  async listContextMetadata(filter: ContextMetadataFilter = {}): Promise<ContextMetadata[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.baseDir);
+    } catch (error) {
+      console.error(`Error listing contexts in ${this.baseDir}:`, error);
+      return [];
+    }
+
+    const results: ContextMetadata[] = [];
+    for (const file of files) {
+      if (!file.endsWith(METADATA_FILE_SUFFIX)) {
+        continue;
+      }
+
+      try {
+        const metadata = normalizeMetadata(
+          await fs.readJson(path.join(this.baseDir, file)),
+          file.slice(0, -METADATA_FILE_SUFFIX.length)
+        );
+        if (matchesMetadataFilter(metadata, filter)) {
+          results.push(metadata);
+        }
+      } catch (error) {
+        console.error(`Error reading metadata file ${file}:`, error);
+      }
+    }
+
+    return results;
   }
 
   /**
@@ -251,6 +589,7 @@ export class FileSystemRepository {
 
       const messages = await this.loadMessages(contextId);
       const summary = await this.loadSummary(contextId);
+      const metaSummary = await this.loadMetaSummary(contextId);
 
       const hasSummary = Boolean(summary);
       metadata.hasSummary = hasSummary;
@@ -261,6 +600,7 @@ export class FileSystemRepository {
         metadata,
         messages,
         summary,
+        metaSummary,
         messagesSinceLastSummary: metadata.messagesSinceLastSummary || 0,
         hasSummary,
         lastSummarizedAt: metadata.lastSummarizedAt,
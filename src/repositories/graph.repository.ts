@@ -2,6 +2,8 @@ import graphology from 'graphology';
 import fs from 'fs-extra';
 import path from 'path';
 import { ContextRelationshipType } from '../domain/types';
+import { withFileLock, writeFileAtomic } from '../utils/atomic-file';
+import { GraphStore } from './interfaces';
 
 /**
  * Edge type for graph relationships
@@ -18,10 +20,14 @@ export interface EdgeType {
 /**
  * Repository for managing graph database operations
  */
-export class GraphRepository {
+export class GraphRepository implements GraphStore {
   private graph: graphology;
   private dbPath: string;
   private isInitialized: boolean = false;
+  /** Edges added or updated since the last save; they win over other processes' versions */
+  private changedEdges = new Set<string>();
+  /** Nodes removed since the last save */
+  private deletedNodes = new Set<string>();
 
   /**
    * Create a new graph repository instance
@@ -57,16 +63,74 @@ export class GraphRepository {
 
   /**
    * Save the current graph state to disk
+   * The file is read again while holding the lock, so edges other processes saved meanwhile
+   * are kept; this process's changes since its last save are applied on top of them
    */
   private async saveGraph(): Promise<void> {
     try {
       await fs.ensureDir(path.dirname(this.dbPath));
-      await fs.writeFile(this.dbPath, JSON.stringify(this.graph.export()), 'utf-8');
+      await withFileLock(`${this.dbPath}.lock`, async () => {
+        const stored = new graphology();
+        if (await fs.pathExists(this.dbPath)) {
+          stored.import(JSON.parse(await fs.readFile(this.dbPath, 'utf-8')));
+        }
+
+        // Changes made while the file is written are saved by their own call
+        const changedEdges = Array.from(this.changedEdges);
+        const deletedNodes = Array.from(this.deletedNodes);
+        this.changedEdges.clear();
+        this.deletedNodes.clear();
+        try {
+          this.graph = this.mergeChanges(stored, changedEdges, deletedNodes);
+          await writeFileAtomic(this.dbPath, JSON.stringify(this.graph.export()));
+        } catch (error) {
+          changedEdges.forEach((edge) => this.changedEdges.add(edge));
+          deletedNodes.forEach((node) => this.deletedNodes.add(node));
+          throw error;
+        }
+      });
     } catch (error) {
       console.error('Failed to save graph data:', error);
     }
   }
 
+  /**
+   * Apply this process's changes to the stored graph
+   * @param stored Graph read from disk
+   * @param changedEdges Edges added or updated locally
+   * @param deletedNodes Nodes removed locally
+   * @returns Merged graph
+   */
+  private mergeChanges(
+    stored: graphology,
+    changedEdges: string[],
+    deletedNodes: string[]
+  ): graphology {
+    for (const node of deletedNodes) {
+      if (stored.hasNode(node)) {
+        stored.dropNode(node);
+      }
+    }
+
+    for (const edge of changedEdges) {
+      // Edges removed locally after changing them are gone with their node
+      if (!this.graph.hasEdge(edge)) {
+        continue;
+      }
+      const source = this.graph.source(edge);
+      const target = this.graph.target(edge);
+      stored.mergeNode(source);
+      stored.mergeNode(target);
+      if (stored.hasEdge(edge)) {
+        stored.replaceEdgeAttributes(edge, { ...this.graph.getEdgeAttributes(edge) });
+      } else {
+        stored.addEdgeWithKey(edge, source, target, { ...this.graph.getEdgeAttributes(edge) });
+      }
+    }
+
+    return stored;
+  }
+
   /**
    * Add a relationship between two contexts
    */
@@ -104,6 +168,7 @@ export class GraphRepository {
           metadata,
         });
       }
+      this.changedEdges.add(edgeId);
 
       // Save changes to disk
       await this.saveGraph();
@@ -112,4 +177,66 @@ export class GraphRepository {
       throw error;
     }
   }
+
+  /**
+   * Get the contexts that a context points to, optionally filtered by relationship type
+   * @param contextId Source context identifier
+   * @param type Relationship type to filter by
+   * @returns Target context identifiers
+   */
+  public async getRelatedContexts(
+    contextId: string,
+    type?: ContextRelationshipType
+  ): Promise<string[]> {
+    await this.ensureInitialized();
+
+    if (!this.graph.hasNode(contextId)) {
+      return [];
+    }
+
+    return this.graph
+      .outEdges(contextId)
+      .filter((edge) => !type || this.graph.getEdgeAttribute(edge, 'type') === type)
+      .map((edge) => this.graph.target(edge));
+  }
+
+  /**
+   * Check whether a context has a node in the graph
+   * @param contextId Context identifier
+   */
+  public async hasContext(contextId: string): Promise<boolean> {
+    await this.ensureInitialized();
+    return this.graph.hasNode(contextId);
+  }
+
+  /**
+   * List the identifiers of all context nodes
+   */
+  public async listContextIds(): Promise<string[]> {
+    await this.ensureInitialized();
+    return this.graph.nodes();
+  }
+
+  /**
+   * Count the edges attached to a context node
+   * @param contextId Context identifier
+   */
+  public async getEdgeCount(contextId: string): Promise<number> {
+    await this.ensureInitialized();
+    return this.graph.hasNode(contextId) ? this.graph.edges(contextId).length : 0;
+  }
+
+  /**
+   * Remove a context node together with all of its edges
+   * @param contextId Context identifier
+   */
+  public async deleteContext(contextId: string): Promise<void> {
+    await this.ensureInitialized();
+
+    if (this.graph.hasNode(contextId)) {
+      this.graph.dropNode(contextId);
+      this.deletedNodes.add(contextId);
+      await this.saveGraph();
+    }
+  }
 }
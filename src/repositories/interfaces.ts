@@ -0,0 +1,358 @@
+import {
+  Message,
+  ContextMetadata,
+  ContextData,
+  ContextSummary,
+  ContextRelationshipType,
+  ProgressCallback,
+  VectorIndexStatus,
+} from '../domain/types';
+import { RelatedContext } from '../types/related-context';
+import { ContextChunk } from '../utils/chunker';
+
+/**
+ * Criteria a store can use to narrow down a metadata listing
+ * Stores may apply them with indexes; callers must not rely on unlisted fields being filtered
+ */
+export interface ContextMetadataFilter {
+  /** Only contexts carrying all of these tags */
+  tags?: string[];
+  /** Only contexts active at or after this epoch millisecond */
+  since?: number;
+  /** Only contexts active at or before this epoch millisecond */
+  until?: number;
+  /** Only direct children of this context */
+  parentContextId?: string;
+}
+
+/**
+ * Restriction of the chunks a similarity search may return
+ */
+export interface VectorSearchFilter {
+  /** Only search chunks of these contexts */
+  contextIds?: string[];
+  /** Never return chunks of these contexts */
+  excludeContextIds?: string[];
+  /** Only search chunks cut from messages with this role */
+  role?: string;
+}
+
+/**
+ * A stored message that could not be parsed
+ */
+export interface UnparsableMessage {
+  /** 1-based position of the message within the context, e.g. the JSONL line number */
+  position: number;
+  /** Raw stored content */
+  content: string;
+  /** Parser error */
+  error: string;
+}
+
+/**
+ * Persistent storage for context messages, metadata and summaries
+ */
+export interface ContextStore {
+  /**
+   * Append a message to a context and update its metadata, creating the context if needed
+   * @param contextId Context identifier
+   * @param message Message to store
+   */
+  addMessage(contextId: string, message: Message): Promise<void>;
+
+  /**
+   * Replace all messages of a context without touching its metadata
+   * @param contextId Context identifier
+   * @param messages Messages in chronological order
+   */
+  saveMessages(contextId: string, messages: Message[]): Promise<void>;
+
+  /**
+   * Load all messages of a context
+   * @param contextId Context identifier
+   * @returns Messages in chronological order
+   */
+  loadMessages(contextId: string): Promise<Message[]>;
+
+  /**
+   * Find stored messages that loadMessages skips because they can't be parsed
+   * @param contextId Context identifier
+   * @returns Unparsable messages in storage order
+   */
+  listUnparsableMessages(contextId: string): Promise<UnparsableMessage[]>;
+
+  /**
+   * Load the metadata of a context
+   * @param contextId Context identifier
+   * @returns Metadata or undefined if the context doesn't exist
+   */
+  loadContextData(contextId: string): Promise<ContextMetadata | undefined>;
+
+  /**
+   * Save the metadata of a context
+   * @param contextId Context identifier
+   * @param metadata Metadata to save
+   */
+  saveContextData(contextId: string, metadata: ContextMetadata): Promise<void>;
+
+  /**
+   * Read, modify and write the metadata of a context atomically with respect to other writes
+   * @param contextId Context identifier
+   * @param update Receives the current metadata and returns the metadata to save, or undefined to leave it unchanged
+   * @returns Saved metadata, or the current metadata if nothing was saved
+   */
+  updateContextData(
+    contextId: string,
+    update: (current: ContextMetadata | undefined) => ContextMetadata | undefined
+  ): Promise<ContextMetadata | undefined>;
+
+  /**
+   * Load metadata of stored contexts
+   * @param filter Optional criteria to narrow down the listing
+   * @returns Metadata of the matching contexts
+   */
+  listContextMetadata(filter?: ContextMetadataFilter): Promise<ContextMetadata[]>;
+
+  /**
+   * Save a context summary, keeping earlier versions in the summary history
+   * @param summary Summary to save
+   */
+  saveSummary(summary: ContextSummary): Promise<void>;
+
+  /**
+   * Load the latest summary of a context
+   * @param contextId Context identifier
+   * @returns Summary or undefined if the context has none
+   */
+  loadSummary(contextId: string): Promise<ContextSummary | undefined>;
+
+  /**
+   * Load every stored version of a context summary
+   * @param contextId Context identifier
+   * @returns Summaries ordered from oldest to newest version
+   */
+  listSummaryHistory(contextId: string): Promise<ContextSummary[]>;
+
+  /**
+   * Save a meta-summary covering the child contexts of a context
+   * @param summary Meta-summary to save
+   */
+  saveMetaSummary(summary: ContextSummary): Promise<void>;
+
+  /**
+   * Load the meta-summary of a context
+   * @param contextId Context identifier
+   * @returns Meta-summary or undefined if the context has none
+   */
+  loadMetaSummary(contextId: string): Promise<ContextSummary | undefined>;
+
+  /**
+   * Load a full context including metadata, messages and summaries
+   * @param contextId Context identifier
+   * @returns Context data or undefined if the context doesn't exist
+   */
+  loadContext(contextId: string): Promise<ContextData | undefined>;
+
+  /**
+   * Describe where the data of a context is stored, e.g. file paths or database tables
+   * @param contextId Context identifier
+   * @returns Storage locations holding data for the context
+   */
+  getContextFiles(contextId: string): Promise<string[]>;
+
+  /**
+   * Delete all data stored for a context
+   * @param contextId Context identifier
+   * @returns Storage locations that were removed
+   */
+  deleteContext(contextId: string): Promise<string[]>;
+
+  /**
+   * Release resources held by the store
+   */
+  close?(): Promise<void>;
+}
+
+/**
+ * Context to embed when rebuilding a vector store
+ */
+export interface VectorIndexEntry {
+  id: string;
+  /** Full context text returned with search results */
+  text: string;
+  /** Short description returned with search results */
+  summary: string;
+  /** Parts of the context to embed; the text is split into word windows when omitted */
+  chunks?: ContextChunk[];
+}
+
+/**
+ * Options for rebuilding a vector store
+ */
+export interface VectorRebuildOptions {
+  /** Number of chunks embedded between progress reports (default: 16) */
+  batchSize?: number;
+  /** Called after each batch with the number of embedded chunks */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Similarity search over context embeddings
+ */
+export interface VectorStore {
+  /**
+   * Prepare the store for use, loading persisted state if any
+   */
+  ensureInitialized(): Promise<void>;
+
+  /**
+   * Attach a summary to a context entry, creating the entry if needed
+   * @param summary Context summary
+   */
+  addSummary(summary: ContextSummary): Promise<void>;
+
+  /**
+   * Embed and store a context, one vector per chunk
+   * @param id Context identifier
+   * @param text Full context text
+   * @param summary Short description returned with search results
+   * @param chunks Parts of the context to embed; the text is split into word windows when omitted
+   */
+  addContext(id: string, text: string, summary: string, chunks?: ContextChunk[]): Promise<void>;
+
+  /**
+   * Re-embed an existing context, adding it if it doesn't exist
+   * Chunks whose text didn't change keep their embedding
+   * @param id Context identifier
+   * @param text Full context text
+   * @param summary Short description returned with search results
+   * @param chunks Parts of the context to embed; when omitted the stored chunks are kept if the
+   * text is unchanged, otherwise the text is split into word windows
+   */
+  updateContext(id: string, text: string, summary: string, chunks?: ContextChunk[]): Promise<void>;
+
+  /**
+   * Find contexts similar to a text by searching their chunks
+   * @param text Query text
+   * @param limit Maximum number of results
+   * @param filter Restricts the chunks that may match
+   * @returns Related contexts ordered by their best chunk, with the best chunks as snippets
+   */
+  findSimilarContexts(
+    text: string,
+    limit?: number,
+    filter?: VectorSearchFilter
+  ): Promise<RelatedContext[]>;
+
+  /**
+   * Check whether a context has an entry in the store
+   * @param id Context identifier
+   */
+  hasContext(id: string): Promise<boolean>;
+
+  /**
+   * Check whether a context entry has an embedding, e.g. entries created from a summary alone have none
+   * @param id Context identifier
+   */
+  hasEmbedding(id: string): Promise<boolean>;
+
+  /**
+   * List the identifiers of all stored contexts
+   */
+  listContextIds(): Promise<string[]>;
+
+  /**
+   * Remove a context and relationships pointing at it
+   * @param id Context identifier
+   */
+  deleteContext(id: string): Promise<void>;
+
+  /**
+   * Compare the model the stored vectors were generated with to the current embedding model
+   */
+  getIndexStatus(): Promise<VectorIndexStatus>;
+
+  /**
+   * Replace all entries with freshly embedded contexts and record the current model
+   * The previous entries stay searchable until every context is embedded; changes made in the
+   * meantime wait for the rebuild and are applied to the new entries
+   * @param entries Contexts to embed, or a function loading them once changes are on hold, so
+   *   changes made before the rebuild starts are part of them
+   * @param options Batch size and progress reporting
+   */
+  rebuild(
+    entries: VectorIndexEntry[] | (() => Promise<VectorIndexEntry[]>),
+    options?: VectorRebuildOptions
+  ): Promise<void>;
+
+  /**
+   * Release resources held by the store
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Stores a service works with; the vector and graph stores are optional
+ */
+export interface Repositories {
+  store: ContextStore;
+  vector?: VectorStore | null;
+  graph?: GraphStore | null;
+}
+
+/**
+ * Directed relationships between contexts
+ */
+export interface GraphStore {
+  /**
+   * Prepare the store for use, loading persisted state if any
+   */
+  ensureInitialized(): Promise<void>;
+
+  /**
+   * Add or update a relationship from one context to another
+   * @param source Source context identifier
+   * @param target Target context identifier
+   * @param type Relationship type
+   * @param weight Relationship strength
+   * @param metadata Additional edge data
+   */
+  addRelationship(
+    source: string,
+    target: string,
+    type: ContextRelationshipType,
+    weight: number,
+    metadata?: Record<string, unknown>
+  ): Promise<void>;
+
+  /**
+   * Get the contexts that a context points to
+   * @param contextId Source context identifier
+   * @param type Relationship type to filter by
+   * @returns Target context identifiers
+   */
+  getRelatedContexts(contextId: string, type?: ContextRelationshipType): Promise<string[]>;
+
+  /**
+   * Check whether a context has a node in the graph
+   * @param contextId Context identifier
+   */
+  hasContext(contextId: string): Promise<boolean>;
+
+  /**
+   * Count the edges attached to a context
+   * @param contextId Context identifier
+   */
+  getEdgeCount(contextId: string): Promise<number>;
+
+  /**
+   * List the identifiers of all context nodes
+   */
+  listContextIds(): Promise<string[]>;
+
+  /**
+   * Remove a context together with all of its edges
+   * @param contextId Context identifier
+   */
+  deleteContext(contextId: string): Promise<void>;
+}
@@ -0,0 +1,491 @@
+import fs from 'fs-extra';
+import path from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { Message, ContextMetadata, ContextData, ContextSummary } from '../domain/types';
+import { ContextMetadataFilter, ContextStore, UnparsableMessage } from './interfaces';
+
+/**
+ * Schema of the context database
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS contexts (
+    context_id TEXT PRIMARY KEY,
+    parent_context_id TEXT,
+    created_at INTEGER NOT NULL,
+    last_activity_at INTEGER NOT NULL,
+    metadata TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_contexts_last_activity ON contexts(last_activity_at);
+  CREATE INDEX IF NOT EXISTS idx_contexts_parent ON contexts(parent_context_id);
+
+  CREATE TABLE IF NOT EXISTS context_tags (
+    context_id TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    PRIMARY KEY (context_id, tag)
+  );
+  CREATE INDEX IF NOT EXISTS idx_context_tags_tag ON context_tags(tag);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    context_id TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_context_timestamp ON messages(context_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS summaries (
+    context_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (context_id, version)
+  );
+
+  CREATE TABLE IF NOT EXISTS meta_summaries (
+    context_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+/**
+ * Tables holding per-context rows, used to describe and delete a context
+ */
+const CONTEXT_TABLES = ['messages', 'contexts', 'context_tags', 'summaries', 'meta_summaries'];
+
+/**
+ * SQLite based repository storing all contexts in a single database file
+ */
+export class SqliteRepository implements ContextStore {
+  private readonly dbPath: string;
+  private db: BetterSqlite3.Database | null = null;
+
+  /**
+   * Repository constructor
+   * @param dbPath Path of the SQLite database file
+   */
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database and create the schema if needed
+   */
+  async ensureInitialized(): Promise<void> {
+    await this.getDb();
+  }
+
+  /**
+   * Get the open database connection
+   * @returns Database connection
+   */
+  private async getDb(): Promise<BetterSqlite3.Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch (error) {
+      throw new Error(
+        `SQLite storage requires the better-sqlite3 package: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    await fs.ensureDir(path.dirname(this.dbPath));
+    const db = new Database(this.dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('synchronous = NORMAL');
+    // Wait for other processes sharing the database instead of failing with SQLITE_BUSY
+    db.pragma('busy_timeout = 5000');
+    db.exec(SCHEMA);
+
+    this.db = db;
+    return db;
+  }
+
+  /**
+   * Write metadata and its tags
+   * @param db Database connection
+   * @param metadata Metadata to write
+   */
+  private writeMetadata(db: BetterSqlite3.Database, metadata: ContextMetadata): void {
+    db.prepare(
+      `INSERT INTO contexts (context_id, parent_context_id, created_at, last_activity_at, metadata)
+       VALUES (@contextId, @parentContextId, @createdAt, @lastActivityAt, @metadata)
+       ON CONFLICT(context_id) DO UPDATE SET
+         parent_context_id = excluded.parent_context_id,
+         created_at = excluded.created_at,
+         last_activity_at = excluded.last_activity_at,
+         metadata = excluded.metadata`
+    ).run({
+      contextId: metadata.contextId,
+      parentContextId: metadata.parentContextId ?? null,
+      createdAt: metadata.createdAt || 0,
+      lastActivityAt: metadata.lastActivityAt || 0,
+      metadata: JSON.stringify(metadata),
+    });
+
+    db.prepare('DELETE FROM context_tags WHERE context_id = ?').run(metadata.contextId);
+    const insertTag = db.prepare(
+      'INSERT OR IGNORE INTO context_tags (context_id, tag) VALUES (?, ?)'
+    );
+    for (const tag of metadata.tags || []) {
+      insertTag.run(metadata.contextId, tag);
+    }
+  }
+
+  /**
+   * Read the metadata of a context
+   * @param db Database connection
+   * @param contextId Context identifier
+   * @returns Metadata or undefined if the context doesn't exist
+   */
+  private readMetadata(db: BetterSqlite3.Database, contextId: string): ContextMetadata | undefined {
+    const row = db.prepare('SELECT metadata FROM contexts WHERE context_id = ?').get(contextId) as
+      | { metadata: string }
+      | undefined;
+    return row ? (JSON.parse(row.metadata) as ContextMetadata) : undefined;
+  }
+
+  /**
+   * Add a message to a context
+   * @param contextId Context identifier
+   * @param message Message to add
+   */
+  async addMessage(contextId: string, message: Message): Promise<void> {
+    const db = await this.getDb();
+
+    // Ensure message has a timestamp
+    if (!message.timestamp) {
+      message.timestamp = Date.now();
+    }
+
+    db.transaction(() => {
+      db.prepare('INSERT INTO messages (context_id, timestamp, data) VALUES (?, ?, ?)').run(
+        contextId,
+        message.timestamp,
+        JSON.stringify(message)
+      );
+
+      const now = Date.now();
+      const existing = this.readMetadata(db, contextId);
+      const metadata: ContextMetadata = existing
+        ? {
+            ...existing,
+            lastActivityAt: now,
+            messagesSinceLastSummary: (existing.messagesSinceLastSummary || 0) + 1,
+            totalMessageCount: (existing.totalMessageCount || 0) + 1,
+          }
+        : {
+            contextId,
+            createdAt: now,
+            lastActivityAt: now,
+            messagesSinceLastSummary: 1,
+            hasSummary: false,
+            totalMessageCount: 1,
+          };
+
+      // Keep the union of message tags on the context for filtering
+      if (message.tags && message.tags.length > 0) {
+        metadata.tags = Array.from(new Set([...(metadata.tags || []), ...message.tags]));
+      }
+
+      this.writeMetadata(db, metadata);
+    })();
+  }
+
+  /**
+   * Replace all messages of a context without touching its metadata
+   * @param contextId Context identifier
+   * @param messages Messages in chronological order
+   */
+  async saveMessages(contextId: string, messages: Message[]): Promise<void> {
+    const db = await this.getDb();
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM messages WHERE context_id = ?').run(contextId);
+      const insert = db.prepare(
+        'INSERT INTO messages (context_id, timestamp, data) VALUES (?, ?, ?)'
+      );
+      for (const message of messages) {
+        insert.run(contextId, message.timestamp || 0, JSON.stringify(message));
+      }
+    })();
+  }
+
+  /**
+   * Load messages for a context
+   * @param contextId Context identifier
+   * @returns Array of messages
+   */
+  async loadMessages(contextId: string): Promise<Message[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare('SELECT data FROM messages WHERE context_id = ? ORDER BY timestamp, id')
+      .all(contextId) as Array<{ data: string }>;
+
+    return rows
+      .map((row) => {
+        try {
+          return JSON.parse(row.data) as Message;
+        } catch (error) {
+          console.error(`Error parsing message row for ${contextId}:`, error);
+          return null;
+        }
+      })
+      .filter((message): message is Message => message !== null);
+  }
+
+  /**
+   * Find message rows that loadMessages skips because they are not valid JSON
+   * @param contextId Context identifier
+   * @returns Unparsable rows, positioned by their order within the context
+   */
+  async listUnparsableMessages(contextId: string): Promise<UnparsableMessage[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare('SELECT data FROM messages WHERE context_id = ? ORDER BY timestamp, id')
+      .all(contextId) as Array<{ data: string }>;
+
+    const unparsable: UnparsableMessage[] = [];
+    rows.forEach((row, index) => {
+      try {
+        JSON.parse(row.data);
+      } catch (error) {
+        unparsable.push({
+          position: index + 1,
+          content: row.data,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    return unparsable;
+  }
+
+  /**
+   * Load context metadata
+   * @param contextId Context identifier
+   * @returns Context metadata or undefined if not found
+   */
+  async loadContextData(contextId: string): Promise<ContextMetadata | undefined> {
+    const db = await this.getDb();
+    return this.readMetadata(db, contextId);
+  }
+
+  /**
+   * Save context metadata
+   * @param contextId Context identifier
+   * @param metadata Metadata to save
+   */
+  async saveContextData(contextId: string, metadata: ContextMetadata): Promise<void> {
+    const db = await this.getDb();
+    db.transaction(() => this.writeMetadata(db, { ...metadata, contextId }))();
+  }
+
+  /**
+   * Read, modify and write context metadata in a single transaction
+   * @param contextId Context identifier
+   * @param update Receives the current metadata and returns the metadata to save, or undefined to leave it unchanged
+   * @returns Saved metadata, or the current metadata if nothing was saved
+   */
+  async updateContextData(
+    contextId: string,
+    update: (current: ContextMetadata | undefined) => ContextMetadata | undefined
+  ): Promise<ContextMetadata | undefined> {
+    const db = await this.getDb();
+    // Take the write lock up front so another process can't change the row between read and write
+    return db
+      .transaction(() => {
+        const current = this.readMetadata(db, contextId);
+        const updated = update(current);
+        if (!updated) {
+          return current;
+        }
+        this.writeMetadata(db, { ...updated, contextId });
+        return updated;
+      })
+      .immediate();
+  }
+
+  /**
+   * Load metadata for stored contexts
+   * @param filter Optional criteria to narrow down the listing
+   * @returns Metadata of the matching contexts
+   */
+  async listContextMetadata(filter: ContextMetadataFilter = {}): Promise<ContextMetadata[]> {
+    const db = await this.getDb();
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (filter.since !== undefined) {
+      conditions.push('last_activity_at >= ?');
+      params.push(filter.since);
+    }
+    if (filter.until !== undefined) {
+      conditions.push('last_activity_at <= ?');
+      params.push(filter.until);
+    }
+    if (filter.parentContextId !== undefined) {
+      conditions.push('parent_context_id = ?');
+      params.push(filter.parentContextId);
+    }
+    if (filter.tags && filter.tags.length > 0) {
+      const tags = Array.from(new Set(filter.tags));
+      conditions.push(
+        `context_id IN (SELECT context_id FROM context_tags WHERE tag IN (${tags
+          .map(() => '?')
+          .join(', ')}) GROUP BY context_id HAVING COUNT(*) = ?)`
+      );
+      params.push(...tags, tags.length);
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = db.prepare(`SELECT metadata FROM contexts${where}`).all(...params) as Array<{
+      metadata: string;
+    }>;
+
+    return rows.map((row) => JSON.parse(row.metadata) as ContextMetadata);
+  }
+
+  /**
+   * Save a context summary; earlier versions stay in the summary history
+   * @param summary Summary to save
+   */
+  async saveSummary(summary: ContextSummary): Promise<void> {
+    const db = await this.getDb();
+    db.prepare(
+      `INSERT OR REPLACE INTO summaries (context_id, version, created_at, data)
+       VALUES (?, ?, ?, ?)`
+    ).run(summary.contextId, summary.version, summary.createdAt, JSON.stringify(summary));
+  }
+
+  /**
+   * Load a context summary
+   * @param contextId Context identifier
+   * @returns Latest summary or undefined if it doesn't exist
+   */
+  async loadSummary(contextId: string): Promise<ContextSummary | undefined> {
+    const db = await this.getDb();
+    const row = db
+      .prepare('SELECT data FROM summaries WHERE context_id = ? ORDER BY version DESC LIMIT 1')
+      .get(contextId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ContextSummary) : undefined;
+  }
+
+  /**
+   * Load every stored version of a context summary
+   * @param contextId Context identifier
+   * @returns Summaries ordered from oldest to newest version
+   */
+  async listSummaryHistory(contextId: string): Promise<ContextSummary[]> {
+    const db = await this.getDb();
+    const rows = db
+      .prepare('SELECT data FROM summaries WHERE context_id = ? ORDER BY version')
+      .all(contextId) as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data) as ContextSummary);
+  }
+
+  /**
+   * Save a meta-summary covering the child contexts of a context
+   * @param summary Meta-summary to save
+   */
+  async saveMetaSummary(summary: ContextSummary): Promise<void> {
+    const db = await this.getDb();
+    db.prepare('INSERT OR REPLACE INTO meta_summaries (context_id, data) VALUES (?, ?)').run(
+      summary.contextId,
+      JSON.stringify(summary)
+    );
+  }
+
+  /**
+   * Load the meta-summary of a context
+   * @param contextId Context identifier
+   * @returns Stored meta-summary or undefined if it doesn't exist
+   */
+  async loadMetaSummary(contextId: string): Promise<ContextSummary | undefined> {
+    const db = await this.getDb();
+    const row = db
+      .prepare('SELECT data FROM meta_summaries WHERE context_id = ?')
+      .get(contextId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ContextSummary) : undefined;
+  }
+
+  /**
+   * Load a full context including metadata, messages, and summary
+   * @param contextId Context identifier
+   * @returns Context data or undefined if it doesn't exist
+   */
+  async loadContext(contextId: string): Promise<ContextData | undefined> {
+    try {
+      const metadata = await this.loadContextData(contextId);
+      if (!metadata) {
+        return undefined;
+      }
+
+      const messages = await this.loadMessages(contextId);
+      const summary = await this.loadSummary(contextId);
+      const metaSummary = await this.loadMetaSummary(contextId);
+
+      const hasSummary = Boolean(summary);
+      metadata.hasSummary = hasSummary;
+
+      return {
+        contextId,
+        metadata,
+        messages,
+        summary,
+        metaSummary,
+        messagesSinceLastSummary: metadata.messagesSinceLastSummary || 0,
+        hasSummary,
+        lastSummarizedAt: metadata.lastSummarizedAt,
+        importanceScore: metadata.importanceScore,
+        relatedContexts: summary?.relatedContexts,
+        parentContextId: metadata.parentContextId,
+      };
+    } catch (error) {
+      console.error(`Error loading context ${contextId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Describe the tables holding rows for a context
+   * @param contextId Context identifier
+   * @returns Locations in the form `<database path>#<table>`
+   */
+  async getContextFiles(contextId: string): Promise<string[]> {
+    const db = await this.getDb();
+    return CONTEXT_TABLES.filter((table) =>
+      db.prepare(`SELECT 1 FROM ${table} WHERE context_id = ? LIMIT 1`).get(contextId)
+    ).map((table) => `${this.dbPath}#${table}`);
+  }
+
+  /**
+   * Delete all rows stored for a context
+   * @param contextId Context identifier
+   * @returns Locations of the removed rows
+   */
+  async deleteContext(contextId: string): Promise<string[]> {
+    const db = await this.getDb();
+    const locations = await this.getContextFiles(contextId);
+
+    db.transaction(() => {
+      for (const table of CONTEXT_TABLES) {
+        db.prepare(`DELETE FROM ${table} WHERE context_id = ?`).run(contextId);
+      }
+    })();
+
+    return locations;
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import path from 'path';
+import { MCPConfig } from '../config/config';
+import { FileSystemRepository } from './file-system.repository';
+import { SqliteRepository } from './sqlite.repository';
+import { ContextStore } from './interfaces';
+
+/**
+ * Default SQLite database file name inside the context directory
+ */
+export const DEFAULT_SQLITE_FILENAME = 'contexts.db';
+
+/**
+ * Resolve the SQLite database path for a configuration
+ * @param config MCP configuration
+ * @returns Path of the SQLite database file
+ */
+export function getSqlitePath(config: Pick<MCPConfig, 'contextDir' | 'storage'>): string {
+  return config.storage?.sqlitePath || path.join(config.contextDir, DEFAULT_SQLITE_FILENAME);
+}
+
+/**
+ * Create the context store selected by the storage.backend option
+ * @param config MCP configuration
+ * @returns Initialized context store
+ */
+export async function createContextStore(
+  config: Pick<MCPConfig, 'contextDir' | 'storage'>
+): Promise<ContextStore> {
+  const backend = config.storage?.backend || 'file';
+
+  switch (backend) {
+    case 'file':
+      return new FileSystemRepository(config.contextDir);
+    case 'sqlite': {
+      const store = new SqliteRepository(getSqlitePath(config));
+      await store.ensureInitialized();
+      return store;
+    }
+    default:
+      throw new Error(`Unknown storage backend: ${backend}`);
+  }
+}
@@ -1,52 +1,220 @@
+import crypto from 'crypto';
 import fs from 'fs-extra';
+import path from 'path';
 import { RelatedContext } from '../types/related-context';
-import { ContextSummary } from '../domain/types';
-import { EmbeddingUtil } from '../utils/embedding';
+import { ContextSummary, VectorIndexStamp, VectorIndexStatus } from '../domain/types';
+import { VectorDbConfig } from '../config/config';
+import { EmbeddingProvider, EmbeddingUtil, embedInBatches } from '../utils/embedding';
+import { ChunkMatch, ContextChunk, chunkPlainText, groupChunkMatches } from '../utils/chunker';
+import { KeyedMutex } from '../utils/keyed-mutex';
+import {
+  replaceFileAtomic,
+  withFileLock,
+  writeFileAtomic,
+  writeJsonAtomic,
+} from '../utils/atomic-file';
+import {
+  VectorIndexEntry,
+  VectorRebuildOptions,
+  VectorSearchFilter,
+  VectorStore,
+} from './interfaces';
+
+const DEFAULT_MAX_ELEMENTS = 1000;
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 200;
+const DEFAULT_EF_SEARCH = 100;
+const DEFAULT_SAVE_DEBOUNCE_MS = 1000;
+/** Chunks fetched per requested context; several chunks of one context can rank high */
+const CHUNK_CANDIDATES_PER_RESULT = 4;
+/**
+ * Filtered searches over at most this many chunks compare every chunk with the query;
+ * HNSW loses recall when a filter leaves only a small part of the graph
+ */
+const EXACT_SEARCH_MAX_CHUNKS = 2000;
+/** Layout of vector-db.json that stores one vector per chunk in binary files */
+const STORAGE_FORMAT = 3;
+/** Binary layout with one vector per whole context */
+const WHOLE_CONTEXT_FORMAT = 2;
+const INDEX_FILE_EXTENSION = '.hnsw';
+const EMBEDDINGS_FILE_EXTENSION = '.vectors';
+
+type VectorRelationship = {
+  contextId: string;
+  type: string;
+  weight: number;
+};
+
+/**
+ * Chunk of a context with its index label and embedding
+ */
+interface VectorChunk extends ContextChunk {
+  label: number;
+  embedding: number[];
+}
 
 // Vector DB Context 내부 타입 정의
 interface VectorContext {
   id: string;
   text: string;
   summary: string;
-  embedding: number[];
-  relationships?: Array<{
-    contextId: string;
-    type: string;
-    weight: number;
-  }>;
+  chunks: VectorChunk[];
+  relationships?: VectorRelationship[];
   metadata?: Record<string, unknown>;
 }
 
-interface VectorSearchResult {
-  contextId: string;
-  similarity: number;
+/**
+ * Chunk entry in vector-db.json; its embedding is stored in the embeddings file
+ */
+interface StoredVectorChunk extends ContextChunk {
+  label: number;
+  /** Number of values of the chunk in the embeddings file; 0 for chunks without embedding */
+  embeddingLength: number;
+}
+
+/**
+ * Content of vector-db.json
+ * The HNSW index and the Float32 embeddings live in files named after the revision, which are
+ * written before this file, so the metadata always points at a complete set of files
+ */
+interface VectorDbMetadata {
+  format: typeof STORAGE_FORMAT;
+  revision: string;
+  model?: VectorIndexStamp;
+  contexts: Array<{
+    id: string;
+    text: string;
+    summary: string;
+    chunks: StoredVectorChunk[];
+    relationships: VectorRelationship[];
+  }>;
+}
+
+/**
+ * Content of vector-db.json in the binary format with one vector per whole context
+ */
+interface WholeContextVectorDbMetadata {
+  format: typeof WHOLE_CONTEXT_FORMAT;
+  revision: string;
+  model?: VectorIndexStamp;
+  contexts: Array<{
+    id: string;
+    text: string;
+    summary: string;
+    embeddingLength: number;
+    relationships: VectorRelationship[];
+  }>;
+  contextIdToIndex: Array<[string, number]>;
+}
+
+/**
+ * Content of vector-db.json before the binary format, with embeddings as JSON arrays
+ */
+interface LegacyVectorDbState {
+  format?: undefined;
+  model?: VectorIndexStamp;
+  contexts: Array<{
+    id: string;
+    text: string;
+    summary: string;
+    embedding: number[];
+    relationships?: VectorRelationship[];
+  }>;
+  contextIdToIndex: Array<[string, number]>;
+}
+
+/**
+ * Copy the chunk fields of an object that also holds index data
+ */
+function toContextChunk(chunk: ContextChunk): ContextChunk {
+  const { text, kind, messageIndex, role, start, end, language } = chunk;
+  return {
+    text,
+    kind,
+    ...(messageIndex !== undefined ? { messageIndex } : {}),
+    ...(role !== undefined ? { role } : {}),
+    start,
+    end,
+    ...(language ? { language } : {}),
+  };
 }
 
 interface HNSWIndex {
-  initIndex(maxElements: number, efConstruction: number, M: number): void;
+  initIndex(maxElements: number, m: number, efConstruction: number): void;
+  getMaxElements(): number;
+  getCurrentCount(): number;
+  resizeIndex(newMaxElements: number): void;
   addPoint(point: number[], label: number): void;
   markDelete(label: number): void;
   setEf(ef: number): void;
-  searchKnn(queryPoint: number[], k: number): { neighbors: number[]; distances: number[] };
+  searchKnn(
+    queryPoint: number[],
+    k: number,
+    filter?: (label: number) => boolean
+  ): { neighbors: number[]; distances: number[] };
+  readIndexSync(filename: string): void;
+  writeIndexSync(filename: string): void;
 }
 
 /**
  * Vector repository for similarity search
+ * Contexts are split into chunks and every chunk is a point of the HNSW index, so text
+ * beyond what the embedding model reads at once stays searchable
  */
-export class VectorRepository {
+export class VectorRepository implements VectorStore {
   private readonly dbPath: string;
-  private readonly embeddingUtil: EmbeddingUtil;
+  private readonly embeddingUtil: EmbeddingProvider;
+  private readonly dimensions: number;
+  private readonly indexOptions: Required<Omit<VectorDbConfig, 'dimensions' | 'saveDebounceMs'>>;
+  private readonly saveDebounceMs: number;
   private contexts: Map<string, VectorContext>;
-  private contextIdToIndex: Map<string, number>;
-  private indexToContextId: Map<number, string>;
+  /** Context of every allocated label */
+  private labelToContextId: Map<number, string>;
+  /** Labels below nextLabel that were released and can be reused */
+  private freeLabels: number[] = [];
+  private nextLabel = 0;
   private index: HNSWIndex | null = null;
+  /** Model the stored vectors were generated with; undefined for files written before it was recorded */
+  private indexStamp: VectorIndexStamp | undefined;
+  /** Loaded embeddings left out of the index because their length isn't the configured dimension */
+  private mismatchedEmbeddings = 0;
+  /** Revision of the binary files vector-db.json currently points at */
+  private revision: string | undefined;
+  /** Whether there are changes that are not written to disk yet */
+  private dirty = false;
+  /** Contexts added, changed or deleted since the last save; they win over other processes' versions */
+  private changedContexts = new Set<string>();
+  /** Whether a rebuild replaced all contexts since the last save */
+  private replaced = false;
+  private saveTimer: NodeJS.Timeout | null = null;
+  /** Save in progress; saves run one after another */
+  private saving: Promise<void> = Promise.resolve();
+  /** Runs changes one after another, so a rebuild never swaps the index under a running change */
+  private readonly changes = new KeyedMutex();
 
-  constructor(dbPath: string) {
+  /**
+   * Repository constructor
+   * @param dbPath Path of the vector database file
+   * @param embeddingProvider Embedding source, the shared ONNX model by default
+   * @param config Index dimension, HNSW parameters and save delay; the dimension defaults to the provider's
+   */
+  constructor(
+    dbPath: string,
+    embeddingProvider: EmbeddingProvider = EmbeddingUtil.getInstance(),
+    config: VectorDbConfig = {}
+  ) {
     this.dbPath = dbPath;
-    this.embeddingUtil = EmbeddingUtil.getInstance();
+    this.embeddingUtil = embeddingProvider;
+    this.dimensions = config.dimensions ?? embeddingProvider.dimensions;
+    this.indexOptions = {
+      maxElements: config.maxElements ?? DEFAULT_MAX_ELEMENTS,
+      M: config.M ?? DEFAULT_M,
+      efConstruction: config.efConstruction ?? DEFAULT_EF_CONSTRUCTION,
+      efSearch: config.efSearch ?? DEFAULT_EF_SEARCH,
+    };
+    this.saveDebounceMs = config.saveDebounceMs ?? DEFAULT_SAVE_DEBOUNCE_MS;
     this.contexts = new Map();
-    this.contextIdToIndex = new Map();
-    this.indexToContextId = new Map();
+    this.labelToContextId = new Map();
   }
 
   /**
@@ -55,9 +223,12 @@ export class VectorRepository {
   public async ensureInitialized(): Promise<void> {
     if (!this.index) {
       try {
-        const hnswlib = await import('hnswlib-node');
-        this.index = new hnswlib.HierarchicalNSW('cosine', 384);
-        this.index.initIndex(1000, 16, 200);
+        if (this.embeddingUtil.dimensions !== this.dimensions) {
+          throw new Error(
+            `Embedding model ${this.embeddingUtil.modelId} produces ${this.embeddingUtil.dimensions}-dimensional vectors, but the vector index is configured for ${this.dimensions}`
+          );
+        }
+        this.index = await this.createIndex(this.indexOptions.maxElements);
 
         await this.loadState();
       } catch (error) {
@@ -67,6 +238,41 @@ export class VectorRepository {
     }
   }
 
+  /**
+   * Create an empty HNSW index with the configured dimension and parameters
+   * @param capacity Initial number of elements; the index grows when it fills up
+   */
+  private async createIndex(capacity: number): Promise<HNSWIndex> {
+    const hnswlib = await import('hnswlib-node');
+    const index = new hnswlib.HierarchicalNSW('cosine', this.dimensions);
+    index.initIndex(capacity, this.indexOptions.M, this.indexOptions.efConstruction);
+    return index;
+  }
+
+  /**
+   * Describe the current embedding model
+   */
+  private getCurrentStamp(): VectorIndexStamp {
+    return { modelId: this.embeddingUtil.modelId, dimensions: this.dimensions };
+  }
+
+  /**
+   * Add a point to an index, doubling the index capacity first when it is full
+   * @param index HNSW index
+   * @param embedding Embedding to add
+   * @param label Index label
+   */
+  private addToIndex(index: HNSWIndex, embedding: number[], label: number): void {
+    const point = this.prepareEmbeddingForIndex(embedding);
+    // Deleted points keep their slot, so the count includes them
+    if (index.getCurrentCount() >= index.getMaxElements()) {
+      const capacity = index.getMaxElements() * 2;
+      console.error(`[VectorRepository] Index is full, resizing to ${capacity} elements`);
+      index.resizeIndex(capacity);
+    }
+    index.addPoint(point, label);
+  }
+
   /**
    * Safely convert embedding array to Float32Array
    */
@@ -79,67 +285,462 @@ export class VectorRepository {
       throw new Error('Embedding cannot be empty');
     }
 
+    if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `Embedding has ${embedding.length} dimensions, but the vector index is configured for ${this.dimensions}`
+      );
+    }
+
     return embedding;
   }
 
   /**
-   * Loads context data from storage
+   * Whether a chunk embedding can be added to the index
    */
-  private async loadState(): Promise<void> {
-    try {
-      const data = await fs.readFile(this.dbPath, 'utf-8');
-      const state = JSON.parse(data);
-
-      this.contexts = new Map(
-        state.contexts.map((context: VectorContext) => [
-          context.id,
-          {
-            ...context,
-            relationships: context.relationships || [],
-          },
-        ])
-      );
+  private isIndexable(chunk: VectorChunk): boolean {
+    return chunk.embedding.length === this.dimensions;
+  }
 
-      this.contextIdToIndex = new Map(state.contextIdToIndex);
-      this.indexToContextId = new Map(state.indexToContextId);
+  /**
+   * Path of a binary file belonging to a revision, next to vector-db.json
+   */
+  private getRevisionPath(revision: string, extension: string): string {
+    return `${this.dbPath.replace(/\.json$/, '')}.${revision}${extension}`;
+  }
 
-      // Rebuild index
-      for (const [id, context] of this.contexts.entries()) {
-        const index = this.contextIdToIndex.get(id);
-        if (index !== undefined && this.index) {
-          // 안전하게 Float32Array 변환
-          const point = this.prepareEmbeddingForIndex(context.embedding);
-          this.index.addPoint(point, index);
-        }
-      }
+  /**
+   * Loads context data from storage, migrating files of older formats
+   */
+  private async loadState(): Promise<void> {
+    let state: VectorDbMetadata | WholeContextVectorDbMetadata | LegacyVectorDbState;
+    try {
+      state = await withFileLock(`${this.dbPath}.lock`, () => fs.readJson(this.dbPath));
     } catch (error) {
       if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
         throw error;
       }
       // File doesn't exist, start with empty state
       this.contexts = new Map();
-      this.contextIdToIndex = new Map();
-      this.indexToContextId = new Map();
+      this.assignLabels();
+      this.indexStamp = this.getCurrentStamp();
+      return;
+    }
+
+    const contexts =
+      state.format === STORAGE_FORMAT
+        ? await this.readChunkedContexts(state)
+        : await this.readWholeContexts(state);
+    this.contexts = new Map(contexts.map((context) => [context.id, context]));
+    this.assignLabels();
+    this.indexStamp =
+      state.model || (this.contexts.size === 0 ? this.getCurrentStamp() : undefined);
+    if (state.format !== STORAGE_FORMAT && this.contexts.size > 0) {
+      // Vectors of whole contexts predate chunking, so the index counts as outdated until reindexed
+      this.indexStamp = undefined;
+    }
+    this.revision = state.format === undefined ? undefined : state.revision;
+
+    this.mismatchedEmbeddings = 0;
+    for (const context of this.contexts.values()) {
+      for (const chunk of context.chunks) {
+        if (chunk.embedding.length > 0 && !this.isIndexable(chunk)) {
+          this.mismatchedEmbeddings++;
+        }
+      }
+    }
+    if (this.mismatchedEmbeddings > 0) {
+      console.error(
+        `[VectorRepository] ${this.mismatchedEmbeddings} stored embeddings don't have the configured ${this.dimensions} dimensions and were left out of the index; reindex to regenerate them`
+      );
+    }
+
+    const savedIndex =
+      state.format === STORAGE_FORMAT && this.mismatchedEmbeddings === 0
+        ? await this.readIndex(state.revision)
+        : null;
+    if (savedIndex) {
+      this.index = savedIndex;
+    } else if (this.index) {
+      // Rebuild index, skipping chunks without an embedding and vectors of another dimension
+      for (const context of this.contexts.values()) {
+        for (const chunk of context.chunks) {
+          if (this.isIndexable(chunk)) {
+            this.addToIndex(this.index, chunk.embedding, chunk.label);
+          }
+        }
+      }
+    }
+
+    if (state.format !== STORAGE_FORMAT) {
+      console.error(`[VectorRepository] Migrating ${this.dbPath} to the chunked storage format`);
+      this.dirty = true;
+      await this.flush();
     }
   }
 
   /**
-   * Saves the current state to storage
+   * Rebuild the label bookkeeping from the chunks of all contexts
    */
-  private async saveState(): Promise<void> {
-    const state = {
-      contexts: Array.from(this.contexts.entries()).map(([id, context]) => ({
-        id,
+  private assignLabels(): void {
+    this.labelToContextId = new Map();
+    for (const context of this.contexts.values()) {
+      for (const chunk of context.chunks) {
+        this.labelToContextId.set(chunk.label, context.id);
+      }
+    }
+    this.nextLabel = 0;
+    for (const label of this.labelToContextId.keys()) {
+      this.nextLabel = Math.max(this.nextLabel, label + 1);
+    }
+    this.freeLabels = [];
+    for (let label = 0; label < this.nextLabel; label++) {
+      if (!this.labelToContextId.has(label)) {
+        this.freeLabels.push(label);
+      }
+    }
+  }
+
+  /**
+   * Reserve a label for a new chunk, reusing released labels first
+   */
+  private allocateLabel(contextId: string): number {
+    const label = this.freeLabels.length > 0 ? this.freeLabels.pop()! : this.nextLabel++;
+    this.labelToContextId.set(label, contextId);
+    return label;
+  }
+
+  /**
+   * Remove chunks from the index and release their labels
+   */
+  private releaseChunks(chunks: VectorChunk[]): void {
+    for (const chunk of chunks) {
+      if (this.index && this.isIndexable(chunk)) {
+        try {
+          this.index.markDelete(chunk.label);
+        } catch (error) {
+          console.error(`[VectorRepository] Label ${chunk.label} not present in index`);
+        }
+      }
+      this.labelToContextId.delete(chunk.label);
+      this.freeLabels.push(chunk.label);
+    }
+  }
+
+  /**
+   * Reads the contexts of a file in the chunked format with their embeddings
+   * @param metadata Content of vector-db.json
+   * @returns Contexts with their chunks
+   */
+  private async readChunkedContexts(metadata: VectorDbMetadata): Promise<VectorContext[]> {
+    const chunks = metadata.contexts.flatMap((context) => context.chunks);
+    const embeddings = await this.readEmbeddings(
+      metadata.revision,
+      chunks.map((chunk) => chunk.embeddingLength)
+    );
+
+    let position = 0;
+    return metadata.contexts.map((context) => ({
+      ...context,
+      relationships: context.relationships || [],
+      chunks: context.chunks.map((chunk) => ({
+        ...toContextChunk(chunk),
+        label: chunk.label,
+        embedding: embeddings[position++],
+      })),
+    }));
+  }
+
+  /**
+   * Reads the contexts of a file with one vector per whole context, turning each vector into
+   * a single chunk covering the whole text
+   * @param state Content of vector-db.json
+   * @returns Contexts with at most one chunk each
+   */
+  private async readWholeContexts(
+    state: WholeContextVectorDbMetadata | LegacyVectorDbState
+  ): Promise<VectorContext[]> {
+    const embeddings =
+      state.format === WHOLE_CONTEXT_FORMAT
+        ? await this.readEmbeddings(
+            state.revision,
+            state.contexts.map((context) => context.embeddingLength)
+          )
+        : state.contexts.map((context) => context.embedding);
+    const contextIdToIndex = new Map(state.contextIdToIndex);
+
+    return state.contexts.map((context, position) => {
+      const embedding = embeddings[position];
+      const label = contextIdToIndex.get(context.id);
+      const chunks: VectorChunk[] =
+        label !== undefined && embedding.length > 0
+          ? [
+              {
+                text: context.text,
+                kind: 'text',
+                start: 0,
+                end: context.text.length,
+                label,
+                embedding,
+              },
+            ]
+          : [];
+      return {
+        id: context.id,
         text: context.text,
         summary: context.summary,
-        embedding: Array.from(context.embedding),
+        chunks,
         relationships: context.relationships || [],
-      })),
-      contextIdToIndex: Array.from(this.contextIdToIndex.entries()),
-      indexToContextId: Array.from(this.indexToContextId.entries()),
-    };
+      };
+    });
+  }
 
-    await fs.writeFile(this.dbPath, JSON.stringify(state, null, 2));
+  /**
+   * Reads the embeddings file of a revision
+   * A missing or truncated file yields empty embeddings, so the doctor can regenerate them
+   * @param revision Revision to read
+   * @param lengths Number of values of every embedding in file order
+   * @returns Embeddings in file order
+   */
+  private async readEmbeddings(revision: string, lengths: number[]): Promise<number[][]> {
+    const embeddingsPath = this.getRevisionPath(revision, EMBEDDINGS_FILE_EXTENSION);
+    const expectedLength = lengths.reduce((sum, length) => sum + length, 0);
+    let values: Float32Array;
+    try {
+      const buffer = await fs.readFile(embeddingsPath);
+      // Copy into an aligned buffer; Float32Array views require a multiple of 4 as offset
+      values = new Float32Array(
+        buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+      );
+      if (values.length !== expectedLength) {
+        throw new Error(`holds ${values.length} values, expected ${expectedLength}`);
+      }
+    } catch (error) {
+      console.error(
+        `[VectorRepository] Embeddings file ${embeddingsPath} can't be read, so contexts are loaded without embedding; run the doctor with --repair or reindex to regenerate them:`,
+        error
+      );
+      return lengths.map(() => []);
+    }
+
+    let offset = 0;
+    return lengths.map((length) => {
+      const embedding = Array.from(values.subarray(offset, offset + length));
+      offset += length;
+      return embedding;
+    });
+  }
+
+  /**
+   * Reads the HNSW index file of a revision
+   * @param revision Revision to read
+   * @returns The index, or null if it can't be read and has to be rebuilt from the embeddings
+   */
+  private async readIndex(revision: string): Promise<HNSWIndex | null> {
+    const indexPath = this.getRevisionPath(revision, INDEX_FILE_EXTENSION);
+    try {
+      const hnswlib = await import('hnswlib-node');
+      const index = new hnswlib.HierarchicalNSW('cosine', this.dimensions);
+      index.readIndexSync(indexPath);
+      return index;
+    } catch (error) {
+      console.error(
+        `[VectorRepository] Index file ${indexPath} can't be read, rebuilding the index from the stored embeddings:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Marks the state as changed and saves it once no further change arrives within the debounce delay
+   * Must run as a change
+   * @param contextIds Contexts that were added, changed or deleted
+   */
+  private async scheduleSave(...contextIds: string[]): Promise<void> {
+    this.dirty = true;
+    for (const contextId of contextIds) {
+      this.changedContexts.add(contextId);
+    }
+    if (this.saveDebounceMs === 0) {
+      await this.writePending();
+      return;
+    }
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        this.flush().catch((error) => {
+          console.error('[VectorRepository] Error saving vector database:', error);
+        });
+      }, this.saveDebounceMs);
+    }
+  }
+
+  /**
+   * Writes pending changes to disk without waiting for the debounce delay
+   */
+  public async flush(): Promise<void> {
+    await this.runChange(() => this.writePending());
+  }
+
+  /**
+   * Writes pending changes to disk; must run as a change, since saving merges in the changes
+   * of other processes
+   */
+  private async writePending(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    // Wait for a save in progress; changes made meanwhile are written by this one
+    const save = this.saving
+      .catch(() => undefined)
+      .then(() => (this.dirty ? this.saveState() : undefined));
+    this.saving = save;
+    await save;
+  }
+
+  /**
+   * Saves the current state to storage
+   * Changes other processes saved meanwhile are merged in first. The index and embeddings are
+   * written to new revision files, then vector-db.json is replaced to point at them and the
+   * files of older revisions are removed
+   */
+  private async saveState(): Promise<void> {
+    this.dirty = false;
+    await withFileLock(`${this.dbPath}.lock`, async () => {
+      if (!this.replaced) {
+        await this.mergeStoredState();
+      }
+      const revision = crypto.randomBytes(4).toString('hex');
+      const contexts = Array.from(this.contexts.values());
+      const chunks = contexts.flatMap((context) => context.chunks);
+      const embeddings = new Float32Array(
+        chunks.reduce((sum, chunk) => sum + chunk.embedding.length, 0)
+      );
+      let offset = 0;
+      for (const chunk of chunks) {
+        embeddings.set(chunk.embedding, offset);
+        offset += chunk.embedding.length;
+      }
+      const metadata: VectorDbMetadata = {
+        format: STORAGE_FORMAT,
+        revision,
+        // Kept until a rebuild, so a stale index stays detectable after new entries are added
+        model: this.indexStamp,
+        contexts: contexts.map((context) => ({
+          id: context.id,
+          text: context.text,
+          summary: context.summary,
+          chunks: context.chunks.map(({ embedding, ...chunk }) => ({
+            ...chunk,
+            embeddingLength: embedding.length,
+          })),
+          relationships: context.relationships || [],
+        })),
+      };
+
+      // The index is dumped synchronously when the write starts, before any await, so it
+      // matches the snapshot above even if contexts change while the files are written
+      const index = this.index;
+      await Promise.all([
+        index &&
+          replaceFileAtomic(this.getRevisionPath(revision, INDEX_FILE_EXTENSION), (tempPath) =>
+            index.writeIndexSync(tempPath)
+          ),
+        writeFileAtomic(
+          this.getRevisionPath(revision, EMBEDDINGS_FILE_EXTENSION),
+          Buffer.from(embeddings.buffer)
+        ),
+      ]);
+      await writeJsonAtomic(this.dbPath, metadata);
+      this.revision = revision;
+      this.changedContexts.clear();
+      this.replaced = false;
+      await this.removeStaleRevisions(revision);
+    });
+  }
+
+  /**
+   * Merge the contexts another process saved since this one last loaded or saved the file
+   * Contexts this process changed since its last save keep their local version, all others
+   * take the stored one; the index is then rebuilt from the merged chunks
+   */
+  private async mergeStoredState(): Promise<void> {
+    let state: VectorDbMetadata;
+    try {
+      state = await fs.readJson(this.dbPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+    if (state.format !== STORAGE_FORMAT || state.revision === this.revision) {
+      return;
+    }
+
+    const contexts = new Map<string, VectorContext>();
+    for (const context of await this.readChunkedContexts(state)) {
+      if (!this.changedContexts.has(context.id)) {
+        contexts.set(context.id, context);
+      }
+    }
+    for (const contextId of this.changedContexts) {
+      const context = this.contexts.get(contextId);
+      if (context) {
+        contexts.set(contextId, context);
+      }
+    }
+    for (const context of contexts.values()) {
+      context.relationships = (context.relationships || []).filter((rel) =>
+        contexts.has(rel.contextId)
+      );
+    }
+
+    // Labels of the two processes overlap, so every chunk gets a new one
+    const chunks = Array.from(contexts.values()).flatMap((context) => context.chunks);
+    const index = await this.createIndex(Math.max(this.indexOptions.maxElements, chunks.length));
+    chunks.forEach((chunk, label) => {
+      chunk.label = label;
+      if (this.isIndexable(chunk)) {
+        this.addToIndex(index, chunk.embedding, label);
+      }
+    });
+
+    this.index = index;
+    this.contexts = contexts;
+    this.assignLabels();
+    this.mismatchedEmbeddings = chunks.filter(
+      (chunk) => chunk.embedding.length > 0 && !this.isIndexable(chunk)
+    ).length;
+    const stored = state.model;
+    if (
+      !stored ||
+      !this.indexStamp ||
+      stored.modelId !== this.indexStamp.modelId ||
+      stored.dimensions !== this.indexStamp.dimensions
+    ) {
+      // The merged vectors may come from different models
+      this.indexStamp = undefined;
+    }
+  }
+
+  /**
+   * Removes the binary files of revisions other than the current one
+   * @param revision Current revision
+   */
+  private async removeStaleRevisions(revision: string): Promise<void> {
+    const directory = path.dirname(this.dbPath);
+    const prefix = `${path.basename(this.dbPath, '.json')}.`;
+    for (const fileName of await fs.readdir(directory)) {
+      const isRevisionFile =
+        fileName.startsWith(prefix) &&
+        (fileName.endsWith(INDEX_FILE_EXTENSION) || fileName.endsWith(EMBEDDINGS_FILE_EXTENSION));
+      if (isRevisionFile && !fileName.startsWith(`${prefix}${revision}.`)) {
+        await fs.remove(path.join(directory, fileName));
+      }
+    }
   }
 
   /**
@@ -152,47 +753,38 @@ export class VectorRepository {
     summaryText?: string
   ): Promise<void> {
     await this.ensureInitialized();
+    await this.runChange(() => this.writeSummary(contextIdOrSummary, summaryText));
+  }
 
+  /**
+   * Set the summary of a context, adding an entry without chunks for unknown contexts
+   */
+  private async writeSummary(
+    contextIdOrSummary: string | ContextSummary,
+    summaryText?: string
+  ): Promise<void> {
     try {
       const contextId =
         typeof contextIdOrSummary === 'string' ? contextIdOrSummary : contextIdOrSummary.contextId;
       const summary =
         typeof contextIdOrSummary === 'string' ? summaryText! : contextIdOrSummary.summary;
 
-      // Add to index
-      if (this.index) {
-        const existingContext = this.contexts.get(contextId);
-        if (existingContext) {
-          // Update existing context
-          existingContext.summary = summary;
-          if (existingContext.embedding && existingContext.embedding.length > 0) {
-            const idx = this.contextIdToIndex.get(contextId);
-            if (idx !== undefined) {
-              // Mark old index for deletion
-              this.index.markDelete(idx);
-              // 안전하게 Float32Array 변환
-              const point = this.prepareEmbeddingForIndex(existingContext.embedding);
-              this.index.addPoint(point, idx);
-            }
-          }
-        } else {
-          // Add new context with placeholder text
-          const newIndex = this.contexts.size;
-          const context: VectorContext = {
-            id: contextId,
-            text: '', // Placeholder text
-            summary,
-            embedding: [], // Will be updated when text is added
-            relationships: [],
-          };
-          this.contexts.set(contextId, context);
-          this.contextIdToIndex.set(contextId, newIndex);
-          this.indexToContextId.set(newIndex, contextId);
-        }
+      const existingContext = this.contexts.get(contextId);
+      if (existingContext) {
+        existingContext.summary = summary;
+      } else {
+        // Add new context without chunks; they are embedded when text is added
+        this.contexts.set(contextId, {
+          id: contextId,
+          text: '', // Placeholder text
+          summary,
+          chunks: [],
+          relationships: [],
+        });
       }
 
       // Save changes
-      await this.saveState();
+      await this.scheduleSave(contextId);
     } catch (error) {
       console.error('Error adding summary:', error);
       throw error;
@@ -200,53 +792,98 @@ export class VectorRepository {
   }
 
   /**
-   * Adds a context with its text and summary
+   * Adds a context with its text and summary, embedding each chunk
    */
-  public async addContext(id: string, text: string, summary: string): Promise<void> {
+  public async addContext(
+    id: string,
+    text: string,
+    summary: string,
+    chunks: ContextChunk[] = chunkPlainText(text)
+  ): Promise<void> {
     await this.ensureInitialized();
+    await this.runChange(() => this.writeContext(id, text, summary, chunks));
+  }
 
-    const embedding = await this.embeddingUtil.getEmbedding(text);
-    const context: VectorContext = {
-      id,
-      text,
-      summary,
-      embedding,
-      relationships: [],
-    };
+  /**
+   * Store a context, embedding the chunks whose text changed
+   * Must run as a change, since it releases and allocates labels of the current index
+   */
+  private async writeContext(
+    id: string,
+    text: string,
+    summary: string,
+    chunks: ContextChunk[]
+  ): Promise<void> {
+    const previous = this.contexts.get(id);
+    const previousChunks = previous?.chunks || [];
 
-    // Find the next available index
-    let index = 0;
-    while (this.indexToContextId.has(index)) {
-      index++;
+    // Chunks whose text didn't change keep their embedding and label
+    const reusable = new Map<string, VectorChunk[]>();
+    for (const chunk of previousChunks.filter((chunk) => this.isIndexable(chunk))) {
+      reusable.set(chunk.text, [...(reusable.get(chunk.text) || []), chunk]);
     }
+    const reused = chunks.map((chunk) => reusable.get(chunk.text)?.shift());
+    const embeddings = await embedInBatches(
+      this.embeddingUtil,
+      chunks.filter((_chunk, position) => !reused[position]).map((chunk) => chunk.text)
+    );
 
-    this.contexts.set(id, context);
-    this.contextIdToIndex.set(id, index);
-    this.indexToContextId.set(index, id);
+    // Index changes happen without awaiting, so a concurrent save sees either state
+    const kept = new Set(reused.filter((chunk): chunk is VectorChunk => chunk !== undefined));
+    this.releaseChunks(previousChunks.filter((chunk) => !kept.has(chunk)));
+    let embedded = 0;
+    const vectorChunks = chunks.map((chunk, position): VectorChunk => {
+      const reusedChunk = reused[position];
+      if (reusedChunk) {
+        return {
+          ...toContextChunk(chunk),
+          label: reusedChunk.label,
+          embedding: reusedChunk.embedding,
+        };
+      }
+      const vectorChunk = {
+        ...toContextChunk(chunk),
+        label: this.allocateLabel(id),
+        embedding: embeddings[embedded++],
+      };
+      if (this.index && vectorChunk.embedding.length > 0) {
+        this.addToIndex(this.index, vectorChunk.embedding, vectorChunk.label);
+      }
+      return vectorChunk;
+    });
 
-    if (this.index && embedding && embedding.length > 0) {
-      // 안전하게 Float32Array 변환
-      const point = this.prepareEmbeddingForIndex(embedding);
-      this.index.addPoint(point, index);
-    }
-    await this.saveState();
+    this.contexts.set(id, {
+      id,
+      text,
+      summary,
+      chunks: vectorChunks,
+      relationships: previous?.relationships || [],
+    });
+    await this.scheduleSave(id);
   }
 
   /**
    * Updates a context with its text and summary
+   * Without chunks, the stored chunks are kept while the text is unchanged
    */
-  public async updateContext(id: string, text: string, summary: string): Promise<void> {
+  public async updateContext(
+    id: string,
+    text: string,
+    summary: string,
+    chunks?: ContextChunk[]
+  ): Promise<void> {
     await this.ensureInitialized();
 
-    const context = this.contexts.get(id);
-    if (context) {
-      context.text = text;
-      context.summary = summary;
-      context.embedding = await this.embeddingUtil.getEmbedding(text);
-      await this.saveState();
-    } else {
-      await this.addContext(id, text, summary);
-    }
+    await this.runChange(() => {
+      const context = this.contexts.get(id);
+      const keepChunks = !chunks && context && context.text === text && context.chunks.length > 0;
+      return this.writeContext(
+        id,
+        text,
+        summary,
+        chunks || (keepChunks ? context.chunks : chunkPlainText(text))
+      );
+    });
   }
 
   /**
@@ -257,6 +894,54 @@ export class VectorRepository {
     return this.contexts.get(id);
   }
 
+  /**
+   * Checks whether a context has an entry in the vector database
+   */
+  public async hasContext(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    return this.contexts.has(id);
+  }
+
+  /**
+   * Checks whether a context entry has an embedded chunk
+   */
+  public async hasEmbedding(id: string): Promise<boolean> {
+    await this.ensureInitialized();
+    return (this.contexts.get(id)?.chunks || []).some((chunk) => chunk.embedding.length > 0);
+  }
+
+  /**
+   * Lists the IDs of all contexts in the vector database
+   */
+  public async listContextIds(): Promise<string[]> {
+    await this.ensureInitialized();
+    return Array.from(this.contexts.keys());
+  }
+
+  /**
+   * Removes a context, marking the index labels of its chunks as deleted and freeing them for reuse
+   */
+  public async deleteContext(id: string): Promise<void> {
+    await this.ensureInitialized();
+
+    await this.runChange(async () => {
+      const context = this.contexts.get(id);
+      if (context) {
+        this.releaseChunks(context.chunks);
+      }
+      this.contexts.delete(id);
+
+      // Drop relationships that point at the removed context
+      for (const context of this.contexts.values()) {
+        if (context.relationships) {
+          context.relationships = context.relationships.filter((rel) => rel.contextId !== id);
+        }
+      }
+
+      await this.scheduleSave(id);
+    });
+  }
+
   /**
    * Calculate cosine similarity between two vectors
    */
@@ -283,10 +968,118 @@ export class VectorRepository {
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
+  /**
+   * Find the chunk stored under an index label
+   */
+  private findChunk(label: number): ContextChunk | undefined {
+    const contextId = this.labelToContextId.get(label);
+    const chunk = contextId
+      ? this.contexts.get(contextId)?.chunks.find((candidate) => candidate.label === label)
+      : undefined;
+    return chunk && toContextChunk(chunk);
+  }
+
+  /**
+   * Collect the labels of the chunks a filter lets through
+   * @returns Labels of the matching chunks, or undefined when the filter doesn't restrict anything
+   */
+  private selectChunkLabels(filter: VectorSearchFilter): Set<number> | undefined {
+    if (!filter.contextIds && !filter.excludeContextIds?.length && filter.role === undefined) {
+      return undefined;
+    }
+
+    const excluded = new Set(filter.excludeContextIds || []);
+    const labels = new Set<number>();
+    for (const contextId of filter.contextIds || this.contexts.keys()) {
+      const context = this.contexts.get(contextId);
+      if (!context || excluded.has(contextId)) {
+        continue;
+      }
+      for (const chunk of context.chunks) {
+        if (this.isIndexable(chunk) && (filter.role === undefined || chunk.role === filter.role)) {
+          labels.add(chunk.label);
+        }
+      }
+    }
+    return labels;
+  }
+
+  /**
+   * Compare the query with every given chunk
+   * @param queryEmbedding Query embedding
+   * @param labels Labels of the chunks to compare
+   * @returns Every chunk with its similarity to the query
+   */
+  private searchExact(queryEmbedding: number[], labels: Set<number>): ChunkMatch[] {
+    const matches: ChunkMatch[] = [];
+    for (const label of labels) {
+      const contextId = this.labelToContextId.get(label);
+      const chunk = contextId
+        ? this.contexts.get(contextId)?.chunks.find((candidate) => candidate.label === label)
+        : undefined;
+      if (contextId && chunk) {
+        matches.push({
+          contextId,
+          chunk: toContextChunk(chunk),
+          similarity: this.calculateCosineSimilarity(queryEmbedding, chunk.embedding),
+        });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Search the HNSW index for the chunks nearest to a point
+   * @param index HNSW index
+   * @param point Query point
+   * @param limit Number of distinct contexts wanted
+   * @param labels Labels of the chunks that may match; every chunk when undefined
+   * @returns Nearest chunks with their similarity to the query
+   */
+  private searchIndex(
+    index: HNSWIndex,
+    point: number[],
+    limit: number,
+    labels?: Set<number>
+  ): ChunkMatch[] {
+    const pointCount = labels ? labels.size : index.getCurrentCount();
+    const filter = labels ? (label: number) => labels.has(label) : undefined;
+
+    // Fetch more chunks until enough distinct contexts are found or the index is exhausted
+    let k = Math.min(limit * CHUNK_CANDIDATES_PER_RESULT, pointCount);
+    let matches: ChunkMatch[] = [];
+    for (;;) {
+      // Higher ef value improves recall at cost of performance; it must not be below k
+      index.setEf(Math.max(this.indexOptions.efSearch, k));
+      const searchResults = index.searchKnn(point, k, filter);
+      matches = [];
+      searchResults.neighbors.forEach((label, position) => {
+        const contextId = this.labelToContextId.get(label);
+        const chunk = this.findChunk(label);
+        if (contextId && chunk) {
+          // Convert distance to similarity
+          matches.push({ contextId, chunk, similarity: 1 - searchResults.distances[position] });
+        }
+      });
+
+      const contextCount = new Set(matches.map((match) => match.contextId)).size;
+      if (contextCount >= limit || searchResults.neighbors.length < k || k >= pointCount) {
+        break;
+      }
+      k = Math.min(k * 2, pointCount);
+    }
+    return matches;
+  }
+
   /**
    * Find contexts similar to the given text
+   * Chunks are searched and grouped by context; each context is ranked by its best chunk
    */
-  public async findSimilarContexts(text: string, limit = 5): Promise<RelatedContext[]> {
+  public async findSimilarContexts(
+    text: string,
+    limit = 5,
+    filter: VectorSearchFilter = {}
+  ): Promise<RelatedContext[]> {
     await this.ensureInitialized();
 
     // Preprocess the query to enhance matching
@@ -297,26 +1090,25 @@ export class VectorRepository {
       throw new Error('Cannot perform similarity search: Index or embedding not available');
     }
 
-    // Set search parameters
-    this.index.setEf(100); // Higher ef value improves recall at cost of performance
-
     // 안전하게 변환
     const point = this.prepareEmbeddingForIndex(queryEmbedding);
-    const searchResults = this.index.searchKnn(point, Math.min(limit * 2, this.contexts.size || 1));
+    // A query without words (e.g. only punctuation or emoji) embeds as a zero vector, which has
+    // no direction to compare; both search paths would rank every chunk at similarity 0
+    if (point.every((value) => value === 0)) {
+      return [];
+    }
+    const labels = this.selectChunkLabels(filter);
+    if ((labels ? labels.size : this.index.getCurrentCount()) === 0) {
+      return [];
+    }
 
-    const results: VectorSearchResult[] = searchResults.neighbors
-      .map((neighbor, idx) => {
-        const contextId = this.indexToContextId.get(neighbor);
-        if (!contextId) return null;
-        return {
-          contextId,
-          similarity: 1 - searchResults.distances[idx], // Convert distance to similarity
-        };
-      })
-      .filter((result): result is VectorSearchResult => result !== null);
+    const matches =
+      labels && labels.size <= EXACT_SEARCH_MAX_CHUNKS
+        ? this.searchExact(point, labels)
+        : this.searchIndex(this.index, point, limit, labels);
 
     // Convert to RelatedContext array
-    return results.slice(0, limit).map((result) => {
+    return groupChunkMatches(matches, limit).map((result) => {
       const context = this.contexts.get(result.contextId);
       if (!context) throw new Error(`Context not found: ${result.contextId}`);
       return {
@@ -326,6 +1118,7 @@ export class VectorRepository {
         type: 'similar',
         weight: result.similarity,
         similarity: result.similarity,
+        snippets: result.snippets,
       };
     });
   }
@@ -339,58 +1132,163 @@ export class VectorRepository {
     relationshipType: string,
     weight = 0.8
   ): Promise<void> {
-    const sourceContext = await this.getContext(sourceContextId);
-    const targetContext = await this.getContext(targetContextId);
+    await this.ensureInitialized();
 
-    if (!sourceContext || !targetContext) {
-      throw new Error('Source or target context not found');
-    }
+    await this.runChange(async () => {
+      const sourceContext = this.contexts.get(sourceContextId);
+      const targetContext = this.contexts.get(targetContextId);
 
-    // Initialize relationships array if it doesn't exist
-    if (!sourceContext.relationships) {
-      sourceContext.relationships = [];
-    }
-    if (!targetContext.relationships) {
-      targetContext.relationships = [];
-    }
+      if (!sourceContext || !targetContext) {
+        throw new Error('Source or target context not found');
+      }
+
+      // Initialize relationships array if it doesn't exist
+      if (!sourceContext.relationships) {
+        sourceContext.relationships = [];
+      }
+      if (!targetContext.relationships) {
+        targetContext.relationships = [];
+      }
+
+      // Add or update relationship in source context
+      const existingSourceRel = sourceContext.relationships.find(
+        (rel) => rel.contextId === targetContextId && rel.type === relationshipType
+      );
+      if (existingSourceRel) {
+        existingSourceRel.weight = weight;
+      } else {
+        sourceContext.relationships.push({
+          contextId: targetContextId,
+          type: relationshipType,
+          weight,
+        });
+      }
+
+      // Add or update reverse relationship in target context
+      const existingTargetRel = targetContext.relationships.find(
+        (rel) => rel.contextId === sourceContextId && rel.type === relationshipType
+      );
+      if (existingTargetRel) {
+        existingTargetRel.weight = weight;
+      } else {
+        targetContext.relationships.push({
+          contextId: sourceContextId,
+          type: relationshipType,
+          weight,
+        });
+      }
+
+      // Relationships don't change the text, so saving is enough; nothing has to be re-embedded
+      await this.scheduleSave(sourceContextId, targetContextId);
+    });
+  }
+
+  /**
+   * Compares the model of the stored vectors with the current embedding model
+   */
+  public async getIndexStatus(): Promise<VectorIndexStatus> {
+    await this.ensureInitialized();
+
+    const stored = this.indexStamp;
+    const current = this.getCurrentStamp();
+    return {
+      stored,
+      current,
+      needsReindex:
+        this.mismatchedEmbeddings > 0 ||
+        (this.contexts.size > 0 &&
+          (!stored ||
+            stored.modelId !== current.modelId ||
+            stored.dimensions !== current.dimensions)),
+      contextCount: this.contexts.size,
+      mismatchedEmbeddings: this.mismatchedEmbeddings,
+    };
+  }
 
-    // Add or update relationship in source context
-    const existingSourceRel = sourceContext.relationships.find(
-      (rel) => rel.contextId === targetContextId && rel.type === relationshipType
+  /**
+   * Replaces all contexts with freshly embedded ones and records the current model
+   * The new index is built aside and swapped in once every chunk is embedded, then written atomically.
+   * Searches keep using the current index meanwhile; changes wait and are applied to the new one.
+   */
+  public async rebuild(
+    entries: VectorIndexEntry[] | (() => Promise<VectorIndexEntry[]>),
+    options: VectorRebuildOptions = {}
+  ): Promise<void> {
+    await this.ensureInitialized();
+    await this.runChange(async () =>
+      this.replaceContexts(typeof entries === 'function' ? await entries() : entries, options)
     );
-    if (existingSourceRel) {
-      existingSourceRel.weight = weight;
-    } else {
-      sourceContext.relationships.push({
-        contextId: targetContextId,
-        type: relationshipType,
-        weight,
-      });
-    }
+  }
 
-    // Add or update reverse relationship in target context
-    const existingTargetRel = targetContext.relationships.find(
-      (rel) => rel.contextId === sourceContextId && rel.type === relationshipType
+  /**
+   * Embed contexts into a new index and swap it in
+   */
+  private async replaceContexts(
+    entries: VectorIndexEntry[],
+    options: VectorRebuildOptions
+  ): Promise<void> {
+    const entryChunks = entries.map((entry) => entry.chunks || chunkPlainText(entry.text));
+    const chunkTexts = entryChunks.flatMap((chunks) => chunks.map((chunk) => chunk.text));
+    const embeddings = await embedInBatches(
+      this.embeddingUtil,
+      chunkTexts,
+      options.batchSize,
+      options.onProgress
     );
-    if (existingTargetRel) {
-      existingTargetRel.weight = weight;
-    } else {
-      targetContext.relationships.push({
-        contextId: sourceContextId,
-        type: relationshipType,
-        weight,
+
+    const index = await this.createIndex(
+      Math.max(this.indexOptions.maxElements, chunkTexts.length)
+    );
+    const contexts = new Map<string, VectorContext>();
+    let label = 0;
+    entries.forEach((entry, position) => {
+      const chunks = entryChunks[position].map((chunk): VectorChunk => {
+        const vectorChunk = { ...chunk, label, embedding: embeddings[label] };
+        this.addToIndex(index, vectorChunk.embedding, label);
+        label++;
+        return vectorChunk;
+      });
+      contexts.set(entry.id, {
+        id: entry.id,
+        text: entry.text,
+        summary: entry.summary,
+        chunks,
+        relationships: this.contexts.get(entry.id)?.relationships || [],
       });
+    });
+
+    // Drop relationships to contexts that are not part of the new index
+    for (const context of contexts.values()) {
+      context.relationships = (context.relationships || []).filter((rel) =>
+        contexts.has(rel.contextId)
+      );
     }
 
-    // Save both contexts
-    await this.updateContext(sourceContextId, sourceContext.text, sourceContext.summary);
-    await this.updateContext(targetContextId, targetContext.text, targetContext.summary);
+    this.index = index;
+    this.contexts = contexts;
+    this.assignLabels();
+    this.indexStamp = this.getCurrentStamp();
+    this.mismatchedEmbeddings = 0;
+    // A rebuild is written right away instead of waiting for the debounce delay, replacing
+    // the stored contexts rather than merging with them
+    this.dirty = true;
+    this.replaced = true;
+    await this.writePending();
+  }
+
+  /**
+   * Run a change once every earlier change has finished
+   * @param change Change of the contexts or the index
+   */
+  private runChange<T>(change: () => Promise<T>): Promise<T> {
+    return this.changes.runExclusive(this.dbPath, change);
   }
 
   /**
-   * Closes the repository and releases resources
+   * Writes pending changes, then closes the repository and releases resources
    */
   public async close(): Promise<void> {
+    await this.flush();
     if (!this.index) {
       return;
     }
@@ -399,11 +1297,10 @@ export class VectorRepository {
       // Clear references
       this.index = null;
       this.contexts.clear();
-      this.contextIdToIndex.clear();
-      this.indexToContextId.clear();
+      this.labelToContextId.clear();
 
       // Close embedding utility
-      await this.embeddingUtil.close();
+      await this.embeddingUtil.close?.();
     } catch (error) {
       console.error('Error closing vector repository:', error);
       throw error;
@@ -5,23 +5,218 @@ import {
   ContextRelationshipType,
   SummaryResult,
   ApiCallType,
+  ContextImportance,
+  ContextListItem,
+  ContextListResult,
+  ContextSortField,
+  ListContextsOptions,
+  DeleteContextResult,
+  ProgressCallback,
+  ContextSummary,
+  DoctorReport,
+  ReindexResult,
+  SearchFilters,
+  SearchMode,
+  SearchOptions,
+  RankingOptions,
+  SEARCH_MODES,
 } from '../domain/types';
-import { RelatedContext } from '../types/related-context';
-import { Summarizer } from './summarizer.service';
-import { FileSystemRepository } from '../repositories/file-system.repository';
-import { VectorRepository } from '../repositories/vector.repository';
-import { GraphRepository } from '../repositories/graph.repository';
+import { RelatedContext, ScoreBreakdown } from '../types/related-context';
+import { BaseSummarizer } from './summarizer.service';
+import {
+  Repositories,
+  VectorIndexEntry,
+  VectorRebuildOptions,
+  VectorSearchFilter,
+  VectorStore,
+} from '../repositories/interfaces';
 import { MCPConfig } from '../config/config';
 import { ApiAnalytics } from '../utils/analytics';
+import { KeyedMutex } from '../utils/keyed-mutex';
+import { chunkMessages, chunkPlainText, groupChunkMatches } from '../utils/chunker';
+import { Bm25Index, highlightTerms } from '../utils/bm25';
+import {
+  DEFAULT_MMR_LAMBDA,
+  computeBoosts,
+  diversifyResults,
+  fuseRankings,
+  normalizeScores,
+} from '../utils/search-ranking';
+import { Reranker } from '../utils/cross-encoder';
+import { runDoctor } from './doctor';
 import crypto from 'crypto';
 
 /**
- * Repository dependencies for the Context Service
+ * Options for a manually triggered summarization
+ */
+export interface ManualSummarizationOptions {
+  /** Fold only messages added after the last summary into the previous summary */
+  sinceLastSummary?: boolean;
+  /** Called as summarization advances through its steps */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Number of progress steps reported during summarization
+ */
+const SUMMARIZATION_STEPS = 4;
+
+/**
+ * Default and maximum page sizes for context listing
+ */
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+const SUMMARY_SNIPPET_LENGTH = 200;
+
+/**
+ * Candidates taken from each ranking per requested result in hybrid search
+ */
+const HYBRID_CANDIDATE_FACTOR = 3;
+
+/**
+ * Position of the last item of a page, used for keyset pagination
+ */
+interface ListCursor {
+  value: number;
+  contextId: string;
+}
+
+/**
+ * Encode a list cursor into an opaque string
+ */
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decode an opaque list cursor
+ * @throws Error if the cursor is malformed
+ */
+function decodeCursor(cursor: string): ListCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof decoded.value === 'number' && typeof decoded.contextId === 'string') {
+      return decoded;
+    }
+  } catch (error) {
+    // Fall through to the error below
+  }
+  throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+/**
+ * Read the value of a sort field from metadata
+ */
+function getSortValue(metadata: ContextMetadata, sortBy: ContextSortField): number {
+  return metadata[sortBy] || 0;
+}
+
+/**
+ * Check whether context metadata matches the list filters
  */
-interface Repositories {
-  fs: FileSystemRepository;
-  vector?: VectorRepository | null;
-  graph?: GraphRepository | null;
+function matchesListFilters(metadata: ContextMetadata, options: ListContextsOptions): boolean {
+  if (options.tags && options.tags.length > 0) {
+    const contextTags = metadata.tags || [];
+    if (!options.tags.every((tag) => contextTags.includes(tag))) {
+      return false;
+    }
+  }
+  if (options.since !== undefined && metadata.lastActivityAt < options.since) {
+    return false;
+  }
+  if (options.until !== undefined && metadata.lastActivityAt > options.until) {
+    return false;
+  }
+  if (options.hasSummary !== undefined && Boolean(metadata.hasSummary) !== options.hasSummary) {
+    return false;
+  }
+  if (
+    options.minImportance !== undefined &&
+    (metadata.importanceScore ?? ContextImportance.MEDIUM) < options.minImportance
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Results retrieved per requested result when they are reordered after retrieval
+ */
+const DEFAULT_RANKING_CANDIDATE_FACTOR = 4;
+
+/**
+ * Text a reranker reads for a search result: its matching snippets, or its summary
+ */
+function getRerankPassage(result: RelatedContext): string {
+  const snippets = (result.snippets || []).map((snippet) => snippet.text).join('\n');
+  return snippets || result.summary || result.text;
+}
+
+/**
+ * Mark the query terms in the snippets of a search result
+ */
+function highlightSnippets(result: RelatedContext, query: string): RelatedContext {
+  if (!result.snippets) {
+    return result;
+  }
+  return {
+    ...result,
+    snippets: result.snippets.map((snippet) => ({
+      ...snippet,
+      ...highlightTerms(snippet.text, query),
+    })),
+  };
+}
+
+/**
+ * Use a known search mode, falling back to hybrid ranking for unknown values from configuration
+ */
+function resolveSearchMode(mode: string | undefined): SearchMode {
+  return SEARCH_MODES.find((known) => known === mode) || 'hybrid';
+}
+
+/**
+ * Shorten summary text to a snippet
+ */
+function toSnippet(text: string): string {
+  return text.length > SUMMARY_SNIPPET_LENGTH
+    ? text.substring(0, SUMMARY_SNIPPET_LENGTH) + '...'
+    : text;
+}
+
+/**
+ * Build the chunks a context is embedded with and the text and description returned with search results
+ * Every message is chunked on its own, code blocks apart from prose, and the summary is added
+ * as further chunks
+ * @param context Context with messages and summary
+ * @returns Index entry for the context
+ */
+function buildIndexEntry(context: ContextData): VectorIndexEntry {
+  // Combine all messages into a coherent text for vector embedding
+  let text = context.messages.map((msg) => `${msg.role}: ${msg.content}`).join('\n');
+
+  // When a summary is available and it's not a string, use its content
+  if (context.summary && typeof context.summary !== 'string') {
+    text += '\nSummary: \n';
+    text +=
+      context.summary.summary +
+      '\n' +
+      (context.summary.codeBlocks || [])
+        .map((block) => `Language: ${block.language || 'unknown'}\n${block.code}`)
+        .join('\n\n');
+  }
+
+  const summary =
+    context.summary && typeof context.summary !== 'string' && context.summary.summary
+      ? context.summary.summary
+      : text.substring(0, 200) + '...'; // Simple placeholder summary
+
+  const chunks = chunkMessages(context.messages);
+  if (context.summary && typeof context.summary !== 'string' && context.summary.summary) {
+    chunks.push(...chunkPlainText(context.summary.summary, 'summary'));
+  }
+
+  return { id: context.contextId, text, summary, chunks };
 }
 
 /**
@@ -29,16 +224,28 @@ interface Repositories {
  */
 export class ContextService {
   private repositories: Repositories;
-  private summarizer?: Summarizer;
+  private summarizer?: BaseSummarizer;
   private config: Omit<MCPConfig, 'ignorePatterns'>;
   private analytics: ApiAnalytics | null;
+  /** Serializes message writes and index updates per context */
+  private contextLocks = new KeyedMutex();
+  /** Serializes summarization runs per context */
+  private summaryLocks = new KeyedMutex();
+  /** Keyword index over messages and summaries, built on the first keyword search */
+  private keywordIndex = new Bm25Index();
+  /** Contexts changed since they were last added to the keyword index; null until it is built */
+  private staleKeywordContexts: Set<string> | null = null;
+  /** Settles when the running keyword index update finishes */
+  private keywordIndexUpdate: Promise<void> = Promise.resolve();
+  /** Cross-encoder used when a search asks for reranking */
+  private reranker: Reranker | null = null;
 
   /**
    * Create a new ContextService
    */
   constructor(
     repositories: Repositories,
-    summarizer: Summarizer | undefined,
+    summarizer: BaseSummarizer | undefined,
     config: Omit<MCPConfig, 'ignorePatterns'>,
     analytics: ApiAnalytics | null = null
   ) {
@@ -48,17 +255,27 @@ export class ContextService {
     this.analytics = analytics;
   }
 
+  /**
+   * Set the cross-encoder used when a search asks for reranking
+   * @param reranker Reranker, or null to disable reranking
+   */
+  setReranker(reranker: Reranker | null): void {
+    this.reranker = reranker;
+  }
+
   /**
    * Add a message to the specified context
    */
   async addMessage(message: Message): Promise<void> {
     // 요청 ID 생성 (로깅 및 추적용)
     const requestId = crypto.randomUUID();
-    
-    console.error(`[DEBUG] ContextService.addMessage [${requestId}] Starting: ${message.contextId}`);
-    
+
+    console.error(
+      `[DEBUG] ContextService.addMessage [${requestId}] Starting: ${message.contextId}`
+    );
+
     if (!message.contextId) {
-      const error = new Error("Context ID cannot be undefined or empty");
+      const error = new Error('Context ID cannot be undefined or empty');
       console.error(`[ERROR] ContextService.addMessage [${requestId}] Failed:`, error);
       throw error;
     }
@@ -70,110 +287,20 @@ export class ContextService {
     };
 
     try {
-      console.error(`[DEBUG] ContextService.addMessage [${requestId}] Adding message to storage`);
-      // Add message using repository
-      await this.repositories.fs.addMessage(message.contextId, messageToAdd);
-
-      // Update metadata
-      console.error(`[DEBUG] ContextService.addMessage [${requestId}] Updating metadata`);
-      const currentData = await this.repositories.fs.loadContextData(message.contextId);
-      const baseMetadata = currentData || {
-        contextId: message.contextId,
-        createdAt: timestamp,
-        messagesSinceLastSummary: 0,
-        lastActivityAt: timestamp,
-      };
-      const newMsgCount = (baseMetadata.messagesSinceLastSummary || 0) + 1;
-      const metadataToSave: ContextMetadata = {
-        ...baseMetadata,
-        contextId: message.contextId,
-        messagesSinceLastSummary: newMsgCount,
-        lastActivityAt: timestamp,
-      };
-      await this.repositories.fs.saveContextData(message.contextId, metadataToSave);
-
-      // Ensure we add to the vector database if it's enabled
-      if (this.repositories.vector) {
-        console.error(`[DEBUG] ContextService.addMessage [${requestId}] Updating vector database`);
-        
-        try {
-          // Load the full context to get all messages
-          const fullContext = await this.repositories.fs.loadContext(message.contextId);
-          if (fullContext) {
-            // Combine all messages into a coherent text for vector embedding
-            let fullContextText = fullContext.messages
-              .map((msg) => `${msg.role}: ${msg.content}`)
-              .join('\n');
-
-            // When a summary is available and it's not a string, use its content
-            if (fullContext.summary && typeof fullContext.summary !== 'string') {
-              fullContextText += '\nSummary: \n';
-              fullContextText +=
-                fullContext.summary.summary +
-                '\n' +
-                (fullContext.summary.codeBlocks || [])
-                  .map((block) => `Language: ${block.language || 'unknown'}\n${block.code}`)
-                  .join('\n\n');
-            }
-
-            // Add or update the vector context
-            if (
-              fullContext.summary &&
-              typeof fullContext.summary !== 'string' &&
-              fullContext.summary.summary
-            ) {
-              // If we have a summary, use both the full text and summary for better embedding
-              await this.repositories.vector.updateContext(
-                message.contextId,
-                fullContextText,
-                fullContext.summary.summary
-              );
-            } else {
-              // Otherwise just use the message text
-              await this.repositories.vector.addContext(
-                message.contextId,
-                fullContextText,
-                fullContextText.substring(0, 200) + '...' // Simple placeholder summary
-              );
-            }
+      const newMsgCount = await this.contextLocks.runExclusive(message.contextId, async () => {
+        console.error(`[DEBUG] ContextService.addMessage [${requestId}] Adding message to storage`);
+        // The store updates the context metadata, including the message counters
+        await this.repositories.store.addMessage(message.contextId, messageToAdd);
+        this.invalidateKeywordIndex(message.contextId);
+        const metadata = await this.repositories.store.loadContextData(message.contextId);
 
-            // Find similar contexts for automatic relationship building
-            if (this.repositories.graph && this.config.useGraphDb) {
-              console.error(`[DEBUG] ContextService.addMessage [${requestId}] Building context relationships`);
-              
-              try {
-                const similarContexts = await this.repositories.vector.findSimilarContexts(
-                  fullContextText,
-                  5
-                );
-
-                // Create relationships with similar contexts
-                for (const context of similarContexts) {
-                  if (
-                    context.contextId !== message.contextId &&
-                    context.similarity &&
-                    context.similarity > (this.config.similarityThreshold || 0.6)
-                  ) {
-                    // Create bidirectional relationships for better graph traversal
-                    await this.repositories.graph.addRelationship(
-                      message.contextId,
-                      context.contextId,
-                      ContextRelationshipType.SIMILAR,
-                      context.similarity
-                    );
-                  }
-                }
-              } catch (graphError) {
-                console.error(`[ERROR] ContextService.addMessage [${requestId}] Failed to build relationships:`, graphError);
-                // Continue execution even if relationship building fails
-              }
-            }
-          }
-        } catch (vectorError) {
-          console.error(`[ERROR] ContextService.addMessage [${requestId}] Vector database update failed:`, vectorError);
-          // Continue execution even if vector update fails
+        // Ensure we add to the vector database if it's enabled
+        if (this.repositories.vector) {
+          await this.indexContext(message.contextId, this.repositories.vector, requestId);
         }
-      }
+
+        return metadata?.messagesSinceLastSummary || 0;
+      });
 
       // Trigger background summarization if needed
       if (
@@ -181,13 +308,18 @@ export class ContextService {
         this.summarizer &&
         newMsgCount >= (this.config.messageLimitThreshold || 10)
       ) {
-        console.error(`[DEBUG] ContextService.addMessage [${requestId}] Triggering background summarization`);
+        console.error(
+          `[DEBUG] ContextService.addMessage [${requestId}] Triggering background summarization`
+        );
         this.triggerBackgroundSummarization(message.contextId).catch((summaryError) => {
-          console.error(`[ERROR] ContextService.addMessage [${requestId}] Background summarization failed:`, summaryError);
+          console.error(
+            `[ERROR] ContextService.addMessage [${requestId}] Background summarization failed:`,
+            summaryError
+          );
           // Ignore errors in background task
         });
       }
-      
+
       console.error(`[DEBUG] ContextService.addMessage [${requestId}] Completed successfully`);
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -202,32 +334,421 @@ export class ContextService {
   }
 
   /**
-   * Find similar contexts based on text
+   * Re-embed a context after a change and link it to similar contexts
+   * @param contextId Context ID
+   * @param vector Vector repository
+   * @param requestId Request ID used in log messages
+   */
+  private async indexContext(
+    contextId: string,
+    vector: VectorStore,
+    requestId: string
+  ): Promise<void> {
+    console.error(`[DEBUG] ContextService.indexContext [${requestId}] Updating vector database`);
+
+    try {
+      // Load the full context to get all messages
+      const fullContext = await this.repositories.store.loadContext(contextId);
+      if (fullContext) {
+        const entry = buildIndexEntry(fullContext);
+
+        // Add or update the vector context
+        await vector.updateContext(contextId, entry.text, entry.summary, entry.chunks);
+
+        // Find similar contexts for automatic relationship building
+        if (this.repositories.graph && this.config.useGraphDb) {
+          console.error(
+            `[DEBUG] ContextService.indexContext [${requestId}] Building context relationships`
+          );
+
+          try {
+            const similarContexts = await vector.findSimilarContexts(entry.text, 5);
+
+            // Create relationships with similar contexts
+            for (const context of similarContexts) {
+              if (
+                context.contextId !== contextId &&
+                context.similarity &&
+                context.similarity > (this.config.similarityThreshold || 0.6)
+              ) {
+                // Create bidirectional relationships for better graph traversal
+                await this.repositories.graph.addRelationship(
+                  contextId,
+                  context.contextId,
+                  ContextRelationshipType.SIMILAR,
+                  context.similarity
+                );
+              }
+            }
+          } catch (graphError) {
+            console.error(
+              `[ERROR] ContextService.indexContext [${requestId}] Failed to build relationships:`,
+              graphError
+            );
+            // Continue execution even if relationship building fails
+          }
+        }
+      }
+    } catch (vectorError) {
+      console.error(
+        `[ERROR] ContextService.indexContext [${requestId}] Vector database update failed:`,
+        vectorError
+      );
+      // Continue execution even if vector update fails
+    }
+  }
+
+  /**
+   * Find contexts matching a query
+   * Without embeddings, for example when the model is missing, keyword search is used instead
+   * unless fallbackToKeywordMatch is disabled
+   * @param text Query text
+   * @param limit Maximum number of contexts
+   * @param options Ranking mode, filters and reordering steps
+   * @returns Matching contexts, best first, with the query terms highlighted in their snippets
+   *   and the scores that ranked them
    */
-  public async findSimilarContexts(text: string, limit = 5): Promise<RelatedContext[]> {
+  public async findSimilarContexts(
+    text: string,
+    limit = 5,
+    options: SearchOptions = {}
+  ): Promise<RelatedContext[]> {
     // 요청 ID 생성 (로깅 및 추적용)
     const requestId = crypto.randomUUID();
-    
-    console.error(`[DEBUG] ContextService.findSimilarContexts [${requestId}] Starting with query length: ${text.length}, limit: ${limit}`);
-    
+    const searchMode = resolveSearchMode(options.mode ?? this.config.searchMode);
+
+    console.error(
+      `[DEBUG] ContextService.findSimilarContexts [${requestId}] Starting with query length: ${text.length}, limit: ${limit}, mode: ${searchMode}`
+    );
+
     if (this.analytics) {
-      this.analytics.trackCall(ApiCallType.VECTOR_DB_SEARCH, { query: text, limit });
+      this.analytics.trackCall(ApiCallType.VECTOR_DB_SEARCH, {
+        query: text,
+        limit,
+        mode: searchMode,
+      });
     }
 
-    if (!this.repositories.vector) {
-      console.error(`[DEBUG] ContextService.findSimilarContexts [${requestId}] Vector database not configured, returning empty array`);
+    const scope = await this.resolveSearchScope(options.filters || {});
+    if (scope.contextIds?.length === 0) {
+      console.error(
+        `[DEBUG] ContextService.findSimilarContexts [${requestId}] No context matches the filters`
+      );
       return [];
     }
 
+    const ranking = this.resolveRankingSteps(options.ranking || {});
+    const reorders = Object.values(ranking).some(Boolean);
+    // Reordering picks from a longer list, so results retrieval ranked lower can move up
+    const resultLimit = reorders
+      ? limit * (this.config.ranking?.candidateFactor || DEFAULT_RANKING_CANDIDATE_FACTOR)
+      : limit;
+    let results = await this.retrieveContexts(text, resultLimit, searchMode, scope, requestId);
+    if (reorders) {
+      console.error(
+        `[DEBUG] ContextService.findSimilarContexts [${requestId}] Reordering ${results.length} results`
+      );
+      results = await this.rankResults(text, results, limit, ranking, requestId);
+    }
+    return results.map((result) => highlightSnippets(result, text));
+  }
+
+  /**
+   * Retrieve contexts matching a query with vector search, keyword search or both
+   * @param text Query text
+   * @param limit Maximum number of contexts
+   * @param searchMode Ranking mode
+   * @param scope Restricts the chunks that may match
+   * @param requestId Request ID used in log messages
+   * @returns Matching contexts, best first
+   */
+  private async retrieveContexts(
+    text: string,
+    limit: number,
+    searchMode: SearchMode,
+    scope: VectorSearchFilter,
+    requestId: string
+  ): Promise<RelatedContext[]> {
+    // Hybrid ranking fuses longer candidate lists, so contexts ranked lower by one method still count
+    const candidateLimit = searchMode === 'hybrid' ? limit * HYBRID_CANDIDATE_FACTOR : limit;
+
+    let vectorResults: RelatedContext[] | undefined;
+    if (searchMode !== 'keyword') {
+      if (!this.repositories.vector) {
+        console.error(
+          `[DEBUG] ContextService.findSimilarContexts [${requestId}] Vector database not configured`
+        );
+      } else {
+        try {
+          console.error(
+            `[DEBUG] ContextService.findSimilarContexts [${requestId}] Searching vector database`
+          );
+          vectorResults = (
+            await this.repositories.vector.findSimilarContexts(text, candidateLimit, scope)
+          ).map((result) => ({
+            ...result,
+            scores: { ...result.scores, vector: result.similarity ?? result.weight },
+          }));
+        } catch (error: unknown) {
+          console.error(
+            `[ERROR] ContextService.findSimilarContexts [${requestId}] Vector search failed:`,
+            error
+          );
+        }
+      }
+
+      if (searchMode === 'vector' && vectorResults) {
+        console.error(
+          `[DEBUG] ContextService.findSimilarContexts [${requestId}] Found ${vectorResults.length} results`
+        );
+        return vectorResults;
+      }
+      if (!vectorResults && this.config.fallbackToKeywordMatch === false) {
+        console.error(
+          `[DEBUG] ContextService.findSimilarContexts [${requestId}] Keyword fallback disabled, returning empty array`
+        );
+        return [];
+      }
+    }
+
     try {
-      console.error(`[DEBUG] ContextService.findSimilarContexts [${requestId}] Searching vector database`);
-      const results = await this.repositories.vector.findSimilarContexts(text, limit);
-      console.error(`[DEBUG] ContextService.findSimilarContexts [${requestId}] Found ${results.length} results`);
+      console.error(
+        `[DEBUG] ContextService.findSimilarContexts [${requestId}] Searching keyword index`
+      );
+      const keywordResults = await this.searchKeywords(text, candidateLimit, scope);
+      const results = vectorResults
+        ? fuseRankings([vectorResults, keywordResults], limit)
+        : keywordResults.slice(0, limit);
+      console.error(
+        `[DEBUG] ContextService.findSimilarContexts [${requestId}] Found ${results.length} results`
+      );
       return results;
     } catch (error: unknown) {
       console.error(`[ERROR] ContextService.findSimilarContexts [${requestId}] Failed:`, error);
-      return [];
+      return vectorResults ? vectorResults.slice(0, limit) : [];
+    }
+  }
+
+  /**
+   * Combine the reordering steps a search asks for with the configured defaults
+   * @param ranking Steps requested by the search
+   * @returns Whether each step runs
+   */
+  private resolveRankingSteps(ranking: RankingOptions): Required<RankingOptions> {
+    const defaults = this.config.ranking || {};
+    return {
+      diversify: ranking.diversify ?? defaults.diversify ?? false,
+      recencyBoost: ranking.recencyBoost ?? defaults.recencyBoost ?? false,
+      importanceBoost: ranking.importanceBoost ?? defaults.importanceBoost ?? false,
+      rerank: ranking.rerank ?? defaults.rerank ?? false,
+    };
+  }
+
+  /**
+   * Reorder retrieved contexts
+   * Relevance is the retrieval weight relative to the best result, or the cross-encoder score
+   * when reranking. Boosts scale it by recency and importance, and diversification finally
+   * picks the results with maximal marginal relevance. A failing reranker leaves the
+   * retrieval relevance in place.
+   * @param text Query text
+   * @param results Retrieved contexts, best first
+   * @param limit Maximum number of contexts
+   * @param ranking Steps to run
+   * @param requestId Request ID used in log messages
+   * @returns Reordered contexts with the final score as their weight and the scores behind it
+   */
+  private async rankResults(
+    text: string,
+    results: RelatedContext[],
+    limit: number,
+    ranking: Required<RankingOptions>,
+    requestId: string
+  ): Promise<RelatedContext[]> {
+    const settings = this.config.ranking || {};
+    const breakdowns: ScoreBreakdown[] = results.map((result) => ({ ...result.scores }));
+    let relevance = normalizeScores(results.map((result) => result.weight));
+
+    if (ranking.rerank && results.length > 0) {
+      if (!this.reranker) {
+        console.error(
+          `[WARN] ContextService.findSimilarContexts [${requestId}] Reranking requested, but no reranker is configured`
+        );
+      } else {
+        try {
+          const logits = await this.reranker.score(text, results.map(getRerankPassage));
+          relevance = logits.map((logit) => 1 / (1 + Math.exp(-logit)));
+          relevance.forEach((score, position) => (breakdowns[position].rerank = score));
+        } catch (error: unknown) {
+          console.error(
+            `[ERROR] ContextService.findSimilarContexts [${requestId}] Reranking failed:`,
+            error
+          );
+        }
+      }
+    }
+
+    let scores = relevance;
+    if (ranking.recencyBoost || ranking.importanceBoost) {
+      const now = Date.now();
+      scores = await Promise.all(
+        results.map(async (result, position) => {
+          const metadata = await this.repositories.store.loadContextData(result.contextId);
+          const boosts = computeBoosts(
+            {
+              lastActivityAt: ranking.recencyBoost ? metadata?.lastActivityAt : undefined,
+              importanceScore: ranking.importanceBoost
+                ? (metadata?.importanceScore ?? ContextImportance.MEDIUM)
+                : undefined,
+            },
+            {
+              recencyWeight: settings.recencyWeight,
+              recencyHalfLifeDays: settings.recencyHalfLifeDays,
+              importanceWeight: settings.importanceWeight,
+              now,
+            }
+          );
+          if (ranking.recencyBoost) {
+            breakdowns[position].recencyBoost = boosts.recency;
+          }
+          if (ranking.importanceBoost) {
+            breakdowns[position].importanceBoost = boosts.importance;
+          }
+          return relevance[position] * (1 + boosts.recency + boosts.importance);
+        })
+      );
+    }
+
+    const scored = results
+      .map((result, position) => ({
+        ...result,
+        weight: scores[position],
+        scores: { ...breakdowns[position], relevance: relevance[position] },
+      }))
+      .sort((a, b) => b.weight - a.weight);
+    return ranking.diversify
+      ? diversifyResults(scored, limit, settings.mmrLambda ?? DEFAULT_MMR_LAMBDA)
+      : scored.slice(0, limit);
+  }
+
+  /**
+   * Rank contexts by BM25 over their messages and summaries
+   * @param text Query text
+   * @param limit Maximum number of contexts
+   * @param scope Restricts the chunks that may match
+   * @returns Matching contexts with BM25 scores as weights and the matching chunks as snippets
+   */
+  private async searchKeywords(
+    text: string,
+    limit: number,
+    scope: VectorSearchFilter
+  ): Promise<RelatedContext[]> {
+    const update = this.keywordIndexUpdate.then(() => this.refreshKeywordIndex());
+    this.keywordIndexUpdate = update.catch(() => undefined);
+    await update;
+
+    const included = scope.contextIds && new Set(scope.contextIds);
+    const excluded = new Set(scope.excludeContextIds || []);
+    const chunkMatches = this.keywordIndex
+      .search(text)
+      .filter(
+        ({ contextId, chunk }) =>
+          (!included || included.has(contextId)) &&
+          !excluded.has(contextId) &&
+          (scope.role === undefined || chunk.role === scope.role)
+      );
+    const matches = groupChunkMatches(chunkMatches, limit);
+    const results: RelatedContext[] = [];
+    for (const match of matches) {
+      const context = await this.repositories.store.loadContext(match.contextId);
+      if (!context) {
+        continue;
+      }
+      const entry = buildIndexEntry(context);
+      results.push({
+        contextId: match.contextId,
+        text: entry.text,
+        summary: entry.summary,
+        type: 'keyword',
+        weight: match.similarity,
+        snippets: match.snippets,
+        scores: { keyword: match.similarity },
+      });
     }
+    return results;
+  }
+
+  /**
+   * Turn search filters into the chunks a search may return
+   * Filters on context metadata are resolved to the IDs of the matching contexts
+   * @param filters Search filters
+   * @returns Filter for vector and keyword search; an empty contextIds list means nothing matches
+   */
+  private async resolveSearchScope(filters: SearchFilters): Promise<VectorSearchFilter> {
+    let contextIds = filters.contextIds;
+
+    const { tags, since, until, parentContextId, minImportance } = filters;
+    const filtersMetadata =
+      (tags !== undefined && tags.length > 0) ||
+      since !== undefined ||
+      until !== undefined ||
+      parentContextId !== undefined ||
+      minImportance !== undefined;
+    if (filtersMetadata) {
+      const allowed = new Set(contextIds || []);
+      contextIds = (
+        await this.repositories.store.listContextMetadata({
+          tags: tags && tags.length > 0 ? tags : undefined,
+          since,
+          until,
+          parentContextId,
+        })
+      )
+        .filter((metadata) => matchesListFilters(metadata, { tags, since, until, minImportance }))
+        .map((metadata) => metadata.contextId)
+        .filter((contextId) => !filters.contextIds || allowed.has(contextId));
+    }
+
+    return {
+      ...(contextIds ? { contextIds } : {}),
+      ...(filters.excludeContextIds?.length
+        ? { excludeContextIds: filters.excludeContextIds }
+        : {}),
+      ...(filters.role !== undefined ? { role: filters.role } : {}),
+    };
+  }
+
+  /**
+   * Bring the keyword index up to date, building it from every stored context on first use
+   */
+  private async refreshKeywordIndex(): Promise<void> {
+    let contextIds: string[];
+    if (this.staleKeywordContexts === null) {
+      this.keywordIndex.clear();
+      this.staleKeywordContexts = new Set();
+      contextIds = (await this.repositories.store.listContextMetadata()).map(
+        (metadata) => metadata.contextId
+      );
+    } else {
+      contextIds = Array.from(this.staleKeywordContexts);
+      this.staleKeywordContexts.clear();
+    }
+
+    for (const contextId of contextIds) {
+      const context = await this.repositories.store.loadContext(contextId);
+      if (context && context.messages.length > 0) {
+        this.keywordIndex.setContext(contextId, buildIndexEntry(context).chunks || []);
+      } else {
+        this.keywordIndex.removeContext(contextId);
+      }
+    }
+  }
+
+  /**
+   * Mark a context for reloading into the keyword index before the next keyword search
+   * @param contextId Context ID
+   */
+  private invalidateKeywordIndex(contextId: string): void {
+    this.staleKeywordContexts?.add(contextId);
   }
 
   /**
@@ -236,30 +757,351 @@ export class ContextService {
   async getContext(contextId: string): Promise<ContextData | undefined> {
     // 요청 ID 생성 (로깅 및 추적용)
     const requestId = crypto.randomUUID();
-    
+
     if (!contextId) {
-      console.error(`[ERROR] ContextService.getContext [${requestId}] Invalid contextId: ${contextId}`);
+      console.error(
+        `[ERROR] ContextService.getContext [${requestId}] Invalid contextId: ${contextId}`
+      );
       return undefined;
     }
-    
+
     console.error(`[DEBUG] ContextService.getContext [${requestId}] Loading context: ${contextId}`);
-    
+
     try {
-      const result = await this.repositories.fs.loadContext(contextId);
-      
+      const result = await this.repositories.store.loadContext(contextId);
+
       if (!result) {
-        console.error(`[DEBUG] ContextService.getContext [${requestId}] Context not found: ${contextId}`);
+        console.error(
+          `[DEBUG] ContextService.getContext [${requestId}] Context not found: ${contextId}`
+        );
       } else {
-        console.error(`[DEBUG] ContextService.getContext [${requestId}] Context loaded with ${result.messages?.length || 0} messages`);
+        console.error(
+          `[DEBUG] ContextService.getContext [${requestId}] Context loaded with ${result.messages?.length || 0} messages`
+        );
       }
-      
+
       return result;
     } catch (error) {
-      console.error(`[ERROR] ContextService.getContext [${requestId}] Failed to load context:`, error);
+      console.error(
+        `[ERROR] ContextService.getContext [${requestId}] Failed to load context:`,
+        error
+      );
       return undefined;
     }
   }
 
+  /**
+   * List stored contexts with filtering, sorting and cursor-based pagination
+   * @param options Filter, sort and pagination options
+   * @returns Page of matching contexts with summary snippets
+   */
+  async listContexts(options: ListContextsOptions = {}): Promise<ContextListResult> {
+    const sortBy = options.sortBy || 'lastActivityAt';
+    const direction = options.sortOrder === 'asc' ? 1 : -1;
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+
+    const compare = (a: ListCursor, b: ListCursor): number =>
+      (a.value - b.value) * direction || a.contextId.localeCompare(b.contextId);
+    const toCursor = (metadata: ContextMetadata): ListCursor => ({
+      value: getSortValue(metadata, sortBy),
+      contextId: metadata.contextId,
+    });
+
+    // The store narrows down by tags and activity time; remaining filters are applied here
+    const allMetadata = await this.repositories.store.listContextMetadata({
+      tags: options.tags && options.tags.length > 0 ? options.tags : undefined,
+      since: options.since,
+      until: options.until,
+    });
+    const matching = allMetadata
+      .filter((metadata) => matchesListFilters(metadata, options))
+      .sort((a, b) => compare(toCursor(a), toCursor(b)));
+
+    let startIndex = 0;
+    if (options.cursor) {
+      const after = decodeCursor(options.cursor);
+      startIndex = matching.findIndex((metadata) => compare(toCursor(metadata), after) > 0);
+      if (startIndex === -1) startIndex = matching.length;
+    }
+
+    const page = matching.slice(startIndex, startIndex + limit);
+    const contexts: ContextListItem[] = [];
+    for (const metadata of page) {
+      const summary = metadata.hasSummary
+        ? await this.repositories.store.loadSummary(metadata.contextId)
+        : undefined;
+      contexts.push({
+        metadata,
+        summarySnippet: summary?.summary ? toSnippet(summary.summary) : undefined,
+      });
+    }
+
+    const hasMore = startIndex + limit < matching.length;
+    return {
+      contexts,
+      total: matching.length,
+      nextCursor:
+        hasMore && page.length > 0 ? encodeCursor(toCursor(page[page.length - 1])) : undefined,
+    };
+  }
+
+  /**
+   * Delete a context from the context, vector and graph stores
+   * @param contextId Context identifier
+   * @param dryRun When true, only report what would be removed
+   * @returns Report of the removed (or removable) data
+   */
+  async deleteContext(contextId: string, dryRun = false): Promise<DeleteContextResult> {
+    const { vector, graph } = this.repositories;
+
+    const inspect = async (): Promise<DeleteContextResult> => ({
+      contextId,
+      dryRun,
+      files: await this.repositories.store.getContextFiles(contextId),
+      vectorEntry: vector ? await vector.hasContext(contextId) : false,
+      graphNode: graph ? await graph.hasContext(contextId) : false,
+      graphEdgeCount: graph ? await graph.getEdgeCount(contextId) : 0,
+    });
+
+    if (dryRun) {
+      return inspect();
+    }
+
+    // Hold the context lock, so a message added meanwhile doesn't re-index a half-deleted context
+    return this.contextLocks.runExclusive(contextId, async () => {
+      const result = await inspect();
+
+      console.error(`[DEBUG] ContextService.deleteContext Deleting context: ${contextId}`);
+      await this.repositories.store.deleteContext(contextId);
+      this.invalidateKeywordIndex(contextId);
+
+      if (vector && result.vectorEntry) {
+        await vector.deleteContext(contextId);
+        if (this.analytics) {
+          this.analytics.trackCall(ApiCallType.VECTOR_DB_DELETE, { contextId });
+        }
+      }
+
+      if (graph && result.graphNode) {
+        await graph.deleteContext(contextId);
+        if (this.analytics) {
+          this.analytics.trackCall(ApiCallType.GRAPH_DB_DELETE, {
+            contextId,
+            edgeCount: result.graphEdgeCount,
+          });
+        }
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Check the context, vector and graph stores for inconsistencies
+   * @param repair Fix the issues found instead of only reporting them
+   * @returns Report of the issues found
+   */
+  async checkConsistency(repair = false): Promise<DoctorReport> {
+    const vector = this.repositories.vector;
+    if (repair) {
+      // Repairs may rewrite messages of any context
+      this.staleKeywordContexts = null;
+    }
+    return runDoctor(this.repositories, {
+      repair,
+      reindex: vector
+        ? (contextId) =>
+            this.contextLocks.runExclusive(contextId, () =>
+              this.indexContext(contextId, vector, crypto.randomUUID())
+            )
+        : undefined,
+      withContextLock: (contextId, task) => this.contextLocks.runExclusive(contextId, task),
+    });
+  }
+
+  /**
+   * Regenerate the embeddings of every context with the current embedding model
+   * Use this after the embedding model or tokenization changes, since vectors of different
+   * models can't be compared
+   * @param options Batch size and progress reporting
+   * @returns Size of the new index and the model it was built with
+   */
+  async reindexContexts(options: VectorRebuildOptions = {}): Promise<ReindexResult> {
+    const vector = this.repositories.vector;
+    if (!vector) {
+      throw new Error('Vector database is disabled');
+    }
+
+    const startedAt = Date.now();
+    const entries: VectorIndexEntry[] = [];
+    // Contexts are read once the vector store holds other changes, so messages indexed before
+    // that are part of the rebuild, and messages indexed later are applied to the new index
+    await vector.rebuild(async () => {
+      for (const { contextId } of await this.repositories.store.listContextMetadata()) {
+        const context = await this.repositories.store.loadContext(contextId);
+        if (context && context.messages.length > 0) {
+          entries.push(buildIndexEntry(context));
+        }
+      }
+      return entries;
+    }, options);
+    const status = await vector.getIndexStatus();
+    return {
+      contextCount: entries.length,
+      model: status.current,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * Attach a context to a parent context for hierarchical summarization
+   * @param contextId Child context ID
+   * @param parentContextId Parent context ID
+   */
+  async setParentContext(contextId: string, parentContextId: string): Promise<void> {
+    if (contextId === parentContextId) {
+      throw new Error('A context cannot be its own parent');
+    }
+
+    const metadata = await this.repositories.store.updateContextData(contextId, (current) =>
+      current && current.parentContextId !== parentContextId
+        ? { ...current, parentContextId }
+        : undefined
+    );
+    if (!metadata) {
+      throw new Error(`Context not found: ${contextId}`);
+    }
+
+    if (this.repositories.graph && this.config.useGraphDb) {
+      await this.repositories.graph.addRelationship(
+        parentContextId,
+        contextId,
+        ContextRelationshipType.CHILD,
+        1
+      );
+      await this.repositories.graph.addRelationship(
+        contextId,
+        parentContextId,
+        ContextRelationshipType.PARENT,
+        1
+      );
+    }
+  }
+
+  /**
+   * Find the child contexts of a context from metadata and graph relationships
+   * @param parentContextId Parent context ID
+   * @returns Child context IDs
+   */
+  private async getChildContextIds(parentContextId: string): Promise<string[]> {
+    const children = new Set(
+      (await this.repositories.store.listContextMetadata({ parentContextId })).map(
+        (metadata) => metadata.contextId
+      )
+    );
+
+    if (this.repositories.graph) {
+      const graphChildren = await this.repositories.graph.getRelatedContexts(
+        parentContextId,
+        ContextRelationshipType.CHILD
+      );
+      graphChildren.forEach((childId) => children.add(childId));
+    }
+
+    children.delete(parentContextId);
+    return Array.from(children);
+  }
+
+  /**
+   * Regenerate meta-summaries for the ancestors of a context, up to the configured depth
+   * @param contextId Context whose summary changed
+   */
+  private async updateHierarchy(contextId: string): Promise<void> {
+    if (!this.config.hierarchicalContext || !this.summarizer) {
+      return;
+    }
+
+    const visited = new Set([contextId]);
+    let metadata = await this.repositories.store.loadContextData(contextId);
+
+    while (metadata?.parentContextId && !visited.has(metadata.parentContextId)) {
+      const parentId = metadata.parentContextId;
+      visited.add(parentId);
+
+      const metaSummary = await this.buildMetaSummary(parentId);
+      if (!metaSummary) {
+        return;
+      }
+      metadata = await this.repositories.store.loadContextData(parentId);
+    }
+  }
+
+  /**
+   * Create a meta-summary for a context once enough child contexts have summaries
+   * @param parentContextId Parent context ID
+   * @returns The stored meta-summary, or undefined if the threshold or depth limit was not met
+   */
+  private async buildMetaSummary(parentContextId: string): Promise<ContextSummary | undefined> {
+    if (!this.summarizer) {
+      return undefined;
+    }
+
+    const threshold = this.config.metaSummaryThreshold || 5;
+    const maxDepth = this.config.maxHierarchyDepth || 3;
+
+    // A child is represented by its own meta-summary when it has one, since that covers its subtree
+    const childSummaries: ContextSummary[] = [];
+    for (const childId of await this.getChildContextIds(parentContextId)) {
+      const childSummary =
+        (await this.repositories.store.loadMetaSummary(childId)) ||
+        (await this.repositories.store.loadSummary(childId));
+      if (childSummary) {
+        childSummaries.push(childSummary);
+      }
+    }
+
+    if (childSummaries.length < threshold) {
+      return undefined;
+    }
+
+    const level = 1 + Math.max(...childSummaries.map((child) => child.hierarchyLevel || 0));
+    if (level > maxDepth) {
+      console.error(
+        `[DEBUG] ContextService.buildMetaSummary Skipping ${parentContextId}: depth ${level} exceeds ${maxDepth}`
+      );
+      return undefined;
+    }
+
+    const result = await this.summarizer.summarizeHierarchy(parentContextId, childSummaries, level);
+    if (!result.success || !result.summary) {
+      console.error(
+        `[ERROR] ContextService.buildMetaSummary Failed for ${parentContextId}: ${result.error}`
+      );
+      return undefined;
+    }
+
+    await this.repositories.store.saveMetaSummary(result.summary);
+
+    // Parents may only exist as grouping IDs, so make sure they can be retrieved and listed
+    const now = Date.now();
+    await this.repositories.store.updateContextData(parentContextId, (current) =>
+      current
+        ? undefined
+        : {
+            contextId: parentContextId,
+            createdAt: now,
+            lastActivityAt: now,
+            messagesSinceLastSummary: 0,
+            totalMessageCount: 0,
+          }
+    );
+
+    console.error(
+      `[DEBUG] ContextService.buildMetaSummary Created level ${level} meta-summary for ${parentContextId} from ${childSummaries.length} contexts`
+    );
+    return result.summary;
+  }
+
   /**
    * Trigger background summarization process
    */
@@ -269,20 +1111,54 @@ export class ContextService {
     }
 
     try {
-      await this.triggerManualSummarization(contextId);
+      await this.triggerManualSummarization(contextId, { sinceLastSummary: true });
     } catch (error) {
       // Ignore errors in background process
     }
   }
 
+  /**
+   * Get the latest summary of a context
+   * Contexts that only group child contexts return their meta-summary
+   * @param contextId Context ID
+   * @returns Summary or undefined if the context has not been summarized
+   */
+  async getSummary(contextId: string): Promise<ContextSummary | undefined> {
+    return (
+      (await this.repositories.store.loadSummary(contextId)) ??
+      (await this.repositories.store.loadMetaSummary(contextId))
+    );
+  }
+
+  /**
+   * Get every stored version of a context summary
+   * @param contextId Context ID
+   * @returns Summaries ordered from oldest to newest version
+   */
+  async getSummaryHistory(contextId: string): Promise<ContextSummary[]> {
+    return this.repositories.store.listSummaryHistory(contextId);
+  }
+
   /**
    * Trigger manual summarization for a specific context
+   * @param contextId Context ID
+   * @param options Summarization options
+   * @returns Summary result
    */
-  private async triggerManualSummarization(contextId: string): Promise<SummaryResult> {
+  async triggerManualSummarization(
+    contextId: string,
+    options: ManualSummarizationOptions = {}
+  ): Promise<SummaryResult> {
     if (!this.summarizer) {
       throw new Error('Summarizer not available');
     }
 
+    const reportProgress = async (progress: number, message: string): Promise<void> => {
+      if (options.onProgress) {
+        await options.onProgress(progress, SUMMARIZATION_STEPS, message);
+      }
+    };
+
     try {
       // Track API call
       if (this.analytics) {
@@ -292,12 +1168,10 @@ export class ContextService {
         });
       }
 
-      const context = await this.repositories.fs.loadContext(contextId);
-      if (!context) {
-        throw new Error(`Context not found: ${contextId}`);
-      }
-
-      return await this.summarizeContext(contextId, context.messages);
+      // One run at a time per context, so concurrent triggers don't create duplicate versions
+      return await this.summaryLocks.runExclusive(contextId, () =>
+        this.summarizeLoadedContext(contextId, options, reportProgress)
+      );
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`Failed to manually summarize context ${contextId}: ${errorMessage}`);
@@ -305,13 +1179,76 @@ export class ContextService {
     }
   }
 
+  /**
+   * Load a context and summarize the messages selected by the options
+   * @param contextId Context ID
+   * @param options Summarization options
+   * @param reportProgress Progress reporter
+   * @returns Summary result
+   */
+  private async summarizeLoadedContext(
+    contextId: string,
+    options: ManualSummarizationOptions,
+    reportProgress: (progress: number, message: string) => Promise<void>
+  ): Promise<SummaryResult> {
+    await reportProgress(0, `Loading context ${contextId}`);
+    // Read messages and counters together, so messages added while summarizing stay pending
+    const context = await this.contextLocks.runExclusive(contextId, () =>
+      this.repositories.store.loadContext(contextId)
+    );
+    if (!context) {
+      throw new Error(`Context not found: ${contextId}`);
+    }
+
+    let messages = context.messages;
+    let previousSummary: ContextSummary | undefined;
+    const { lastSummarizedAt, summarizedMessageCount } = context.metadata;
+    if (options.sinceLastSummary && (summarizedMessageCount !== undefined || lastSummarizedAt)) {
+      // Messages are only appended, so the ones after the summarized count are new; timestamps are
+      // the fallback for contexts summarized before the count was recorded
+      messages =
+        summarizedMessageCount !== undefined
+          ? messages.slice(summarizedMessageCount)
+          : messages.filter((message) => (message.timestamp || 0) > (lastSummarizedAt || 0));
+      if (messages.length === 0) {
+        throw new Error('No new messages since the last summary');
+      }
+
+      // Without a previous summary to fold into, fall back to a full summary
+      previousSummary = await this.repositories.store.loadSummary(contextId);
+      if (!previousSummary) {
+        messages = context.messages;
+      }
+    }
+
+    return this.summarizeContext(
+      contextId,
+      messages,
+      reportProgress,
+      previousSummary,
+      context.metadata.messagesSinceLastSummary || 0,
+      context.messages.length
+    );
+  }
+
   /**
    * Summarize a context with messages
    * @param contextId Context ID
    * @param messages Messages to summarize
+   * @param reportProgress Optional progress reporter
+   * @param previousSummary Summary to fold the messages into; a full summary is generated when omitted
+   * @param pendingCount Unsummarized message count when the messages were loaded
+   * @param storedCount Number of stored messages when they were loaded; all are summarized afterwards
    * @returns Summary result
    */
-  private async summarizeContext(contextId: string, messages: Message[]): Promise<SummaryResult> {
+  private async summarizeContext(
+    contextId: string,
+    messages: Message[],
+    reportProgress: (progress: number, message: string) => Promise<void> = async () => {},
+    previousSummary?: ContextSummary,
+    pendingCount = 0,
+    storedCount = messages.length
+  ): Promise<SummaryResult> {
     if (!this.summarizer) {
       return { success: false, error: 'Summarizer is not configured' };
     }
@@ -320,13 +1257,25 @@ export class ContextService {
       return { success: false, error: 'No messages to summarize' };
     }
 
-    const result = await this.summarizer.summarize(messages, contextId);
+    await reportProgress(1, `Summarizing ${messages.length} messages`);
+    const result = await this.summarizer.summarize(messages, contextId, previousSummary);
 
     if (result.success && result.summary) {
-      await this.repositories.fs.saveSummary(result.summary);
+      // A full re-summarization still supersedes any existing version
+      if (!previousSummary) {
+        const currentSummary = await this.repositories.store.loadSummary(contextId);
+        if (currentSummary) {
+          result.summary.version = currentSummary.version + 1;
+        }
+      }
+
+      await reportProgress(2, 'Saving summary');
+      await this.repositories.store.saveSummary(result.summary);
+      this.invalidateKeywordIndex(contextId);
 
       // Add summary to vector DB if configured
       if (this.repositories.vector) {
+        await reportProgress(3, 'Indexing summary');
         try {
           await this.repositories.vector.addSummary(result.summary);
         } catch (vectorError) {
@@ -335,16 +1284,36 @@ export class ContextService {
       }
 
       // Update metadata
-      const existingMetadata = await this.repositories.fs.loadContextData(contextId);
-      if (existingMetadata) {
-        const updatedMetadata: ContextMetadata = {
-          ...existingMetadata,
-          messagesSinceLastSummary: 0,
-          hasSummary: true,
-          lastSummarizedAt: Date.now(),
-        };
-        await this.repositories.fs.saveContextData(contextId, updatedMetadata);
+      const importanceScore = result.summary.importanceScore;
+      await this.repositories.store.updateContextData(
+        contextId,
+        (existingMetadata) =>
+          existingMetadata && {
+            ...existingMetadata,
+            // Messages added while summarizing stay pending for the next run
+            messagesSinceLastSummary: Math.max(
+              0,
+              (existingMetadata.messagesSinceLastSummary || 0) - pendingCount
+            ),
+            hasSummary: true,
+            lastSummarizedAt:
+              Math.max(...messages.map((message) => message.timestamp || 0)) || Date.now(),
+            // Count the summarized messages so incremental runs pick up exactly what follows,
+            // even messages stored in the same millisecond as the last summarized one
+            summarizedMessageCount: storedCount,
+            importanceScore: importanceScore ?? existingMetadata.importanceScore,
+          }
+      );
+
+      try {
+        await this.updateHierarchy(contextId);
+      } catch (hierarchyError) {
+        console.error(
+          `[ERROR] ContextService.summarizeContext Failed to update meta-summaries for ${contextId}:`,
+          hierarchyError
+        );
       }
+      await reportProgress(SUMMARIZATION_STEPS, 'Summarization complete');
     }
 
     return result;
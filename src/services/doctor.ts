@@ -0,0 +1,242 @@
+import { ContextMetadata, DoctorIssue, DoctorReport, Message } from '../domain/types';
+import { ContextStore, GraphStore, Repositories, VectorStore } from '../repositories/interfaces';
+
+const CONTENT_PREVIEW_LENGTH = 80;
+
+/**
+ * Options for checking the stores
+ */
+export interface DoctorOptions {
+  /** Fix the issues found instead of only reporting them */
+  repair?: boolean;
+  /** Re-embed a context; without it missing embeddings are reported but not repaired */
+  reindex?: (contextId: string) => Promise<void>;
+  /** Run a task while no other write to the context can happen */
+  withContextLock?: <T>(contextId: string, task: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Count the messages added after the last summary
+ * @param metadata Context metadata
+ * @param messages Stored messages
+ * @returns Expected pending count, or undefined if the metadata doesn't record when the last summary was made
+ */
+function countPendingMessages(metadata: ContextMetadata, messages: Message[]): number | undefined {
+  const { lastSummarizedAt, summarizedMessageCount } = metadata;
+  if (summarizedMessageCount !== undefined) {
+    return Math.max(0, messages.length - summarizedMessageCount);
+  }
+  if (lastSummarizedAt !== undefined) {
+    return messages.filter((message) => (message.timestamp || 0) > lastSummarizedAt).length;
+  }
+  return metadata.hasSummary ? undefined : messages.length;
+}
+
+/**
+ * Shorten stored content for a report
+ */
+function preview(content: string): string {
+  return content.length > CONTENT_PREVIEW_LENGTH
+    ? content.substring(0, CONTENT_PREVIEW_LENGTH) + '...'
+    : content;
+}
+
+/**
+ * Check the messages of a context for unparsable entries and metadata counters that disagree with them
+ * Repair drops unparsable messages and recounts the counters
+ * @param store Context store
+ * @param contextId Context identifier
+ * @param repair Whether to fix the issues found
+ * @returns Issues found and the number of parsable messages
+ */
+async function checkMessages(
+  store: ContextStore,
+  contextId: string,
+  repair: boolean
+): Promise<{ issues: DoctorIssue[]; messageCount: number }> {
+  const issues: DoctorIssue[] = [];
+  const messages = await store.loadMessages(contextId);
+
+  const unparsable = await store.listUnparsableMessages(contextId);
+  if (unparsable.length > 0 && repair) {
+    await store.saveMessages(contextId, messages);
+  }
+  for (const entry of unparsable) {
+    issues.push({
+      type: 'unparsable_message',
+      contextId,
+      detail: `Message ${entry.position} can't be parsed (${entry.error}): ${preview(entry.content)}`,
+      repaired: repair,
+    });
+  }
+
+  const metadata = await store.loadContextData(contextId);
+  if (!metadata) {
+    return { issues, messageCount: messages.length };
+  }
+
+  const storedPending = metadata.messagesSinceLastSummary || 0;
+  const expectedPending =
+    countPendingMessages(metadata, messages) ?? Math.min(storedPending, messages.length);
+  const mismatches: string[] = [];
+  if (metadata.totalMessageCount !== undefined && metadata.totalMessageCount !== messages.length) {
+    mismatches.push(
+      `totalMessageCount is ${metadata.totalMessageCount} but ${messages.length} messages are stored`
+    );
+  }
+  if (storedPending !== expectedPending) {
+    mismatches.push(
+      `messagesSinceLastSummary is ${storedPending} but ${expectedPending} messages are not summarized`
+    );
+  }
+
+  if (mismatches.length > 0) {
+    if (repair) {
+      await store.updateContextData(
+        contextId,
+        (current) =>
+          current && {
+            ...current,
+            totalMessageCount: messages.length,
+            messagesSinceLastSummary: expectedPending,
+          }
+      );
+    }
+    issues.push({
+      type: 'count_mismatch',
+      contextId,
+      detail: mismatches.join('; '),
+      repaired: repair,
+    });
+  }
+
+  return { issues, messageCount: messages.length };
+}
+
+/**
+ * Check the vector store for entries of removed contexts and contexts without an embedding
+ * Repair prunes orphaned entries and re-embeds contexts that have messages
+ * @param vector Vector store
+ * @param messageCounts Message count of every context in the context store
+ * @param options Doctor options
+ * @returns Issues found
+ */
+async function checkVectorStore(
+  vector: VectorStore,
+  messageCounts: Map<string, number>,
+  options: DoctorOptions
+): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+
+  for (const contextId of await vector.listContextIds()) {
+    if (!messageCounts.has(contextId)) {
+      if (options.repair) {
+        await vector.deleteContext(contextId);
+      }
+      issues.push({
+        type: 'orphan_vector_entry',
+        contextId,
+        detail: 'Vector entry belongs to a context that is not in the context store',
+        repaired: Boolean(options.repair),
+      });
+    }
+  }
+
+  for (const [contextId, messageCount] of messageCounts) {
+    // Contexts without messages, e.g. parents holding only a meta-summary, have nothing to embed
+    if (messageCount === 0 || (await vector.hasEmbedding(contextId))) {
+      continue;
+    }
+
+    const detail = (await vector.hasContext(contextId))
+      ? 'Vector entry has no embedding'
+      : 'Context is missing from the vector store';
+    let repaired = false;
+    if (options.repair && options.reindex) {
+      await options.reindex(contextId);
+      repaired = await vector.hasEmbedding(contextId);
+    }
+    issues.push({ type: 'missing_embedding', contextId, detail, repaired });
+  }
+
+  return issues;
+}
+
+/**
+ * Check the graph for nodes of removed contexts
+ * Repair removes those nodes with their edges
+ * @param graph Graph store
+ * @param contextIds Contexts that may have nodes
+ * @param repair Whether to fix the issues found
+ * @returns Issues found
+ */
+async function checkGraphStore(
+  graph: GraphStore,
+  contextIds: Set<string>,
+  repair: boolean
+): Promise<DoctorIssue[]> {
+  const issues: DoctorIssue[] = [];
+
+  for (const contextId of await graph.listContextIds()) {
+    if (contextIds.has(contextId)) {
+      continue;
+    }
+    if (repair) {
+      await graph.deleteContext(contextId);
+    }
+    issues.push({
+      type: 'orphan_graph_node',
+      contextId,
+      detail: 'Graph node belongs to a context that is not in the context store',
+      repaired: repair,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check the context, vector and graph stores against each other
+ * Reports orphaned vector entries and graph nodes, contexts without an embedding,
+ * metadata counters that disagree with the stored messages and unparsable messages;
+ * with the repair option the issues are fixed as well
+ * @param repositories Stores to check
+ * @param options Doctor options
+ * @returns Report of the issues found
+ */
+export async function runDoctor(
+  repositories: Repositories,
+  options: DoctorOptions = {}
+): Promise<DoctorReport> {
+  const { store, vector, graph } = repositories;
+  const repair = Boolean(options.repair);
+  const withContextLock =
+    options.withContextLock || (<T>(_contextId: string, task: () => Promise<T>) => task());
+
+  const allMetadata = await store.listContextMetadata();
+  const report: DoctorReport = { repair, checkedContexts: allMetadata.length, issues: [] };
+  const messageCounts = new Map<string, number>();
+
+  for (const { contextId } of allMetadata) {
+    const result = await withContextLock(contextId, () => checkMessages(store, contextId, repair));
+    report.issues.push(...result.issues);
+    messageCounts.set(contextId, result.messageCount);
+  }
+
+  if (vector) {
+    report.issues.push(...(await checkVectorStore(vector, messageCounts, options)));
+  }
+
+  if (graph) {
+    // Parents get their own metadata only once a meta-summary is built, so their nodes are kept
+    const knownContextIds = new Set(messageCounts.keys());
+    for (const metadata of allMetadata) {
+      if (metadata.parentContextId) {
+        knownContextIds.add(metadata.parentContextId);
+      }
+    }
+    report.issues.push(...(await checkGraphStore(graph, knownContextIds, repair)));
+  }
+
+  return report;
+}
@@ -0,0 +1,135 @@
+import { EmbeddingConfig } from '../config/config';
+import { EmbeddingProvider, EmbeddingUtil } from '../utils/embedding';
+import { CachedEmbeddingProvider } from '../utils/embedding-cache';
+import { HashedNgramEmbedder } from '../utils/hashed-ngram-embedder';
+import { OpenAICompatibleEmbedder } from '../utils/openai-embedder';
+
+/**
+ * Provider used when the configuration doesn't name one
+ */
+export const DEFAULT_EMBEDDING_PROVIDER = 'onnx';
+
+/**
+ * Provider used when the configured one can't be loaded
+ */
+export const FALLBACK_EMBEDDING_PROVIDER = 'hashing';
+
+/**
+ * Factory creating an embedding provider
+ */
+export type EmbeddingProviderFactory = (config: EmbeddingConfig) => EmbeddingProvider;
+
+const providers = new Map<string, EmbeddingProviderFactory>();
+
+/**
+ * Register an embedding provider, replacing any provider with the same name
+ * @param name Provider name used in `embedding.provider`
+ * @param factory Factory creating the provider
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Get the names of all registered embedding providers
+ * @returns Provider names
+ */
+export function listEmbeddingProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create the local ONNX model provider
+ * @param config Embedding configuration
+ * @returns ONNX embedding provider
+ */
+function createOnnxEmbedder(config: EmbeddingConfig): EmbeddingProvider {
+  return new EmbeddingUtil({
+    modelPath: config.modelPath,
+    tokenizerPath: config.tokenizerPath,
+    tokenizerModelId: config.model,
+    dimensions: config.dimensions,
+  });
+}
+
+registerEmbeddingProvider(DEFAULT_EMBEDDING_PROVIDER, createOnnxEmbedder);
+
+for (const provider of ['openai', 'ollama', 'llamacpp']) {
+  registerEmbeddingProvider(provider, (config) => new OpenAICompatibleEmbedder(provider, config));
+}
+
+registerEmbeddingProvider(
+  FALLBACK_EMBEDDING_PROVIDER,
+  (config) => new HashedNgramEmbedder(config.dimensions)
+);
+
+/**
+ * Create and initialize the embedding provider selected by `embedding.provider`
+ * A provider that fails to load, e.g. an ONNX model that isn't downloaded, is replaced by the
+ * hashing provider unless `embedding.fallbackToHashing` is false. The fallback produces vectors
+ * of the length the vector index is configured for, under its own model ID, so the index keeps
+ * working and reports that it needs a reindex instead of mixing them with the configured model's.
+ * Embeddings of model providers are cached unless `embedding.cache` is false; hashing is cheaper
+ * than a cache lookup, so the hashing provider is used directly.
+ * @param config Embedding configuration
+ * @param cacheDirectory Directory of the persistent embedding cache; without it embeddings are only cached in memory
+ * @param indexDimensions Vector length the vector index is configured for (`vectorDb.dimensions`)
+ * @returns Initialized embedding provider
+ * @throws Error if the provider can't be loaded and the fallback is disabled
+ */
+export async function createEmbeddingProvider(
+  config: EmbeddingConfig = {},
+  cacheDirectory?: string,
+  indexDimensions?: number
+): Promise<EmbeddingProvider> {
+  const embedder = await loadEmbeddingProvider(config, indexDimensions);
+  if (config.cache === false || embedder instanceof HashedNgramEmbedder) {
+    return embedder;
+  }
+
+  const cached = new CachedEmbeddingProvider(embedder, {
+    directory: cacheDirectory,
+    maxEntries: config.cacheSize,
+    maxDiskEntries: config.cacheDiskSize,
+  });
+  await cached.ensureInitialized();
+  return cached;
+}
+
+/**
+ * Create and initialize the configured embedding provider, or the fallback
+ * @param config Embedding configuration
+ * @param indexDimensions Vector length the vector index is configured for
+ * @returns Initialized embedding provider
+ */
+async function loadEmbeddingProvider(
+  config: EmbeddingConfig,
+  indexDimensions?: number
+): Promise<EmbeddingProvider> {
+  let provider = config.provider || DEFAULT_EMBEDDING_PROVIDER;
+  let factory = providers.get(provider);
+
+  if (!factory) {
+    console.error(
+      `[MCP Server] Unknown embedding provider '${provider}', using '${DEFAULT_EMBEDDING_PROVIDER}'. Available: ${listEmbeddingProviders().join(', ')}`
+    );
+    provider = DEFAULT_EMBEDDING_PROVIDER;
+    factory = createOnnxEmbedder;
+  }
+
+  try {
+    const embedder = factory(config);
+    await embedder.ensureInitialized?.();
+    return embedder;
+  } catch (error) {
+    if (provider === FALLBACK_EMBEDDING_PROVIDER || config.fallbackToHashing === false) {
+      throw error;
+    }
+    console.error(
+      `[MCP Server] Embedding provider '${provider}' is unavailable, using '${FALLBACK_EMBEDDING_PROVIDER}': ${error instanceof Error ? error.message : String(error)}`
+    );
+    // The configured embedding dimensions describe the unavailable model, while the index
+    // only accepts vectors of its own length
+    return new HashedNgramEmbedder(indexDimensions);
+  }
+}
@@ -0,0 +1,148 @@
+import { Message, ContextSummary } from '../domain/types';
+import { SummarizerConfig } from '../config/config';
+import { ApiAnalytics } from '../utils/analytics';
+import { calculateTokens } from '../utils/tokenizer';
+import { BaseSummarizer, GeneratedSummary } from './summarizer.service';
+import { buildSummaryPrompt, getPromptTemplate, parseSummarySections } from './prompt-templates';
+
+/**
+ * Default API base URLs for the built-in OpenAI-compatible providers
+ */
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434/v1',
+  llamacpp: 'http://localhost:8080/v1',
+};
+
+/**
+ * Default models for the built-in OpenAI-compatible providers
+ */
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  llamacpp: 'default',
+};
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 512;
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/**
+ * Subset of an OpenAI chat completions response used by the summarizer
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { completion_tokens?: number; total_tokens?: number };
+}
+
+/**
+ * Summarizer that calls an OpenAI-compatible chat completions endpoint
+ * Works with OpenAI as well as local servers exposing the same API (Ollama, llama.cpp)
+ */
+export class OpenAICompatibleSummarizer extends BaseSummarizer {
+  private provider: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private maxOutputTokens: number;
+  private temperature: number;
+  private timeoutMs: number;
+  private systemPrompt?: string;
+
+  /**
+   * Constructor
+   * @param provider Provider name, used to pick defaults and the prompt template
+   * @param config Summarizer configuration
+   * @param tokenPercentage Token percentage limit
+   * @param analytics Analytics service
+   */
+  constructor(
+    provider: string,
+    config: SummarizerConfig = {},
+    tokenPercentage: number = 80,
+    analytics: ApiAnalytics | null = null
+  ) {
+    super(tokenPercentage, analytics);
+    this.provider = provider;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[provider] || DEFAULT_BASE_URLS.openai)
+      .trim()
+      .replace(/\/+$/, '');
+    this.model = config.model || DEFAULT_MODELS[provider] || DEFAULT_MODELS.openai;
+    this.apiKey = config.apiKey;
+    this.maxOutputTokens = config.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS;
+    this.temperature = config.temperature ?? DEFAULT_TEMPERATURE;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.systemPrompt = config.systemPrompt;
+  }
+
+  /**
+   * Generate summary text with the chat completions endpoint
+   * @param messages Array of messages to summarize
+   * @param contextId Context ID
+   * @param previousSummary Previous summary the text should incorporate
+   * @returns Summary text and tokens used
+   */
+  protected async generateSummary(
+    messages: Message[],
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary> {
+    if (messages.length === 0) {
+      return { summary: 'No messages to summarize.', tokensUsed: 0 };
+    }
+
+    const template = getPromptTemplate(this.provider);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: this.maxOutputTokens,
+          temperature: this.temperature,
+          messages: [
+            { role: 'system', content: this.systemPrompt || template.system },
+            {
+              role: 'user',
+              content: buildSummaryPrompt(template, messages, contextId, previousSummary),
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(
+          `${this.provider} summarizer request failed with status ${response.status}: ${errorText.slice(0, 200)}`
+        );
+      }
+
+      const data = (await response.json()) as ChatCompletionResponse;
+      const summary = data.choices?.[0]?.message?.content?.trim();
+      if (!summary) {
+        throw new Error(`${this.provider} summarizer returned an empty summary`);
+      }
+
+      return {
+        ...parseSummarySections(summary),
+        tokensUsed: data.usage?.completion_tokens ?? calculateTokens(summary),
+      };
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`${this.provider} summarizer timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Prompt templates used by LLM-backed summarizers
+ */
+import { ContextSummary, Message, StructuredSummarySections } from '../domain/types';
+import { SUMMARY_MESSAGE_ROLE } from './summarizer.service';
+
+/**
+ * Prompts for a summarization request
+ * Placeholders in the form {{name}} are replaced by renderPromptTemplate
+ */
+export interface SummaryPromptTemplate {
+  /** System prompt describing the summarizer's task */
+  system: string;
+  /** User prompt for summarizing a conversation; placeholders: contextId, messageCount, conversation */
+  conversation: string;
+  /** User prompt for folding new messages into a previous summary; adds previousSummary */
+  incremental: string;
+  /** User prompt for summarizing the summaries of child contexts; placeholders: contextId, messageCount, conversation */
+  hierarchy: string;
+}
+
+const DEFAULT_TEMPLATE: SummaryPromptTemplate = {
+  system:
+    'You summarize conversations between a developer and an AI assistant so the assistant can resume the work later. ' +
+    'Keep decisions, requirements, file and function names, open questions and the current state of the task. ' +
+    'Leave out greetings and filler. Write the summary in plain prose, then add any of these sections that apply, ' +
+    'each as a heading line followed by "- " bullet points: "Decisions:", "Open questions:", ' +
+    '"Action items:" (start each bullet with [ ] for open or [x] for done) and "Constraints:".',
+  conversation:
+    'Summarize the following conversation from context "{{contextId}}" ({{messageCount}} messages).\n\n{{conversation}}',
+  incremental:
+    'Here is the existing summary of context "{{contextId}}":\n\n{{previousSummary}}\n\n' +
+    'Update it with the {{messageCount}} new messages below. Keep everything from the existing summary that is still relevant ' +
+    'and return one combined summary.\n\n{{conversation}}',
+  hierarchy:
+    'The following are summaries of {{messageCount}} related contexts grouped under "{{contextId}}". ' +
+    'Write one overview that describes what the group of contexts is about and how they relate.\n\n{{conversation}}',
+};
+
+/**
+ * Small local models follow short, direct instructions more reliably
+ */
+const LOCAL_MODEL_TEMPLATE: SummaryPromptTemplate = {
+  system:
+    'You write short, factual summaries of developer conversations. Output only the summary. Do not add commentary.',
+  conversation:
+    'Summarize this conversation in at most 8 sentences. Mention decisions, names of files and functions, and unfinished work.\n\n{{conversation}}',
+  incremental:
+    'Existing summary:\n{{previousSummary}}\n\nNew messages:\n{{conversation}}\n\n' +
+    'Write an updated summary in at most 8 sentences that covers both.',
+  hierarchy:
+    'Summaries of related contexts:\n{{conversation}}\n\nWrite a short overview of these contexts in at most 6 sentences.',
+};
+
+/**
+ * Prompt templates keyed by summarizer provider name
+ */
+export const PROMPT_TEMPLATES: Record<string, SummaryPromptTemplate> = {
+  openai: DEFAULT_TEMPLATE,
+  sampling: DEFAULT_TEMPLATE,
+  ollama: LOCAL_MODEL_TEMPLATE,
+  llamacpp: LOCAL_MODEL_TEMPLATE,
+};
+
+/**
+ * Get the prompt template for a provider
+ * @param provider Summarizer provider name
+ * @returns Template registered for the provider, or the default template
+ */
+export function getPromptTemplate(provider: string): SummaryPromptTemplate {
+  return PROMPT_TEMPLATES[provider] || DEFAULT_TEMPLATE;
+}
+
+/**
+ * Replace {{name}} placeholders in a template
+ * @param template Template text
+ * @param values Placeholder values
+ * @returns Rendered text; unknown placeholders are left empty
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: Record<string, string | number>
+): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, name: string) =>
+    values[name] !== undefined ? String(values[name]) : ''
+  );
+}
+
+/**
+ * Format messages as a transcript for a prompt
+ * @param messages Messages to format
+ * @returns Transcript text
+ */
+function formatConversation(messages: Message[]): string {
+  return messages
+    .map((message) => {
+      const role =
+        message.role === 'user'
+          ? 'User'
+          : message.role === SUMMARY_MESSAGE_ROLE
+            ? 'Context'
+            : 'Assistant';
+      return `${role}: ${message.content}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Build the user prompt for a summarization request
+ * @param template Prompt template of the provider
+ * @param messages Messages to summarize
+ * @param contextId Context ID
+ * @param previousSummary Previous summary to fold the messages into
+ * @returns Rendered prompt
+ */
+export function buildSummaryPrompt(
+  template: SummaryPromptTemplate,
+  messages: Message[],
+  contextId: string,
+  previousSummary?: ContextSummary
+): string {
+  const isHierarchy = messages.every((message) => message.role === SUMMARY_MESSAGE_ROLE);
+  const body = previousSummary
+    ? template.incremental
+    : isHierarchy
+      ? template.hierarchy
+      : template.conversation;
+
+  return renderPromptTemplate(body, {
+    contextId,
+    messageCount: messages.length,
+    conversation: formatConversation(messages),
+    previousSummary: previousSummary?.summary || '',
+  });
+}
+
+/**
+ * Section headings recognized in model output, keyed by lower-case heading text
+ */
+const SECTION_HEADINGS: Record<
+  string,
+  'decisions' | 'openQuestions' | 'actionItems' | 'constraints'
+> = {
+  decisions: 'decisions',
+  'open questions': 'openQuestions',
+  'action items': 'actionItems',
+  constraints: 'constraints',
+};
+
+/**
+ * Split model output into the prose summary and any structured sections that follow it
+ * @param text Model output
+ * @returns Summary prose and the sections found, if any
+ */
+export function parseSummarySections(text: string): {
+  summary: string;
+  sections?: Partial<StructuredSummarySections>;
+} {
+  const summaryLines: string[] = [];
+  const sections: Partial<StructuredSummarySections> = {};
+  let current: (typeof SECTION_HEADINGS)[string] | undefined;
+
+  for (const line of text.split('\n')) {
+    const heading = /^\s*(?:#+\s*)?\**([A-Za-z ]+?)\**:?\**\s*$/.exec(line);
+    const section = heading && SECTION_HEADINGS[heading[1].trim().toLowerCase()];
+    if (section) {
+      current = section;
+      continue;
+    }
+
+    if (!current) {
+      summaryLines.push(line);
+      continue;
+    }
+
+    const bullet = /^\s*(?:[-*]|\d+\.)\s+(.*)$/.exec(line);
+    if (!bullet || !bullet[1].trim() || /^none\.?$/i.test(bullet[1].trim())) {
+      continue;
+    }
+
+    if (current === 'actionItems') {
+      const checkbox = /^\[( |x|X)\]\s*(.*)$/.exec(bullet[1].trim());
+      (sections.actionItems = sections.actionItems || []).push({
+        text: checkbox ? checkbox[2].trim() : bullet[1].trim(),
+        status: checkbox && checkbox[1] !== ' ' ? 'done' : 'open',
+      });
+    } else {
+      const items: string[] = (sections[current] = sections[current] || []);
+      items.push(bullet[1].trim());
+    }
+  }
+
+  return {
+    summary: summaryLines.join('\n').trim() || text.trim(),
+    sections: Object.keys(sections).length > 0 ? sections : undefined,
+  };
+}
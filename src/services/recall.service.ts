@@ -0,0 +1,423 @@
+import {
+  ContextImportance,
+  ContextSummary,
+  Message,
+  RecallItemKind,
+  RecallManifestEntry,
+  RecallParams,
+  RecallResult,
+} from '../domain/types';
+import { calculateTokens, truncateToTokenLimit } from '../utils/tokenizer';
+import { ContextService } from './context.service';
+
+const DEFAULT_RECENT_MESSAGES = 6;
+const DEFAULT_MAX_CODE_BLOCKS = 5;
+const DEFAULT_SIMILAR_LIMIT = 3;
+
+/**
+ * Smallest remaining budget worth filling with a truncated summary
+ */
+const MIN_TRUNCATED_TOKENS = 32;
+
+/**
+ * Share of the budget a truncated item leaves to the items after it
+ */
+const LATER_ITEMS_BUDGET_SHARE = 0.25;
+
+/**
+ * Longest text kept for a single related context
+ */
+const MAX_SIMILAR_CONTEXT_TOKENS = 200;
+
+/**
+ * Section headings in the order sections appear in the assembled text
+ */
+const SECTION_HEADINGS: Record<RecallItemKind, string> = {
+  summary: '## Summary',
+  pinned: '## Pinned and important messages',
+  recent: '## Recent messages',
+  code: '## Code',
+  similar: '## Related contexts',
+};
+
+/**
+ * Material that may be packed into a recall
+ */
+interface RecallCandidate {
+  kind: RecallItemKind;
+  id: string;
+  text: string;
+  /** Position used to order items within their section */
+  order: number;
+  /** Whether the item may be shortened when it doesn't fit */
+  truncatable?: boolean;
+  /** Text whose presence in an included item makes this one redundant */
+  duplicateOf?: string;
+}
+
+/**
+ * Candidate accepted into the recall
+ */
+interface PackedItem extends RecallCandidate {
+  /** Text before truncation */
+  fullText: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+/**
+ * Format a message for the assembled text
+ * @param message Message to format
+ * @returns Formatted message
+ */
+function formatMessage(message: Message): string {
+  const label = message.pinned ? `${message.role}, pinned` : message.role;
+  return `[${label}] ${message.content}`;
+}
+
+/**
+ * Format a summary with its structured sections
+ * @param summary Context summary
+ * @returns Formatted summary
+ */
+function formatSummary(summary: ContextSummary): string {
+  const lines = [summary.summary];
+  const openActions = (summary.actionItems || []).filter((item) => item.status === 'open');
+
+  if (summary.decisions?.length) {
+    lines.push('', 'Decisions:', ...summary.decisions.map((decision) => `- ${decision}`));
+  }
+  if (summary.openQuestions?.length) {
+    lines.push('', 'Open questions:', ...summary.openQuestions.map((question) => `- ${question}`));
+  }
+  if (openActions.length) {
+    lines.push('', 'Open action items:', ...openActions.map((item) => `- ${item.text}`));
+  }
+  if (summary.constraints?.length) {
+    lines.push('', 'Constraints:', ...summary.constraints.map((constraint) => `- ${constraint}`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Count how often the words of a query occur in a text
+ * @param text Text to score
+ * @param query Query text
+ * @returns Number of query word occurrences
+ */
+function queryOverlap(text: string, query: string): number {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\W+/)
+    .filter((word) => word.length > 2)
+    .reduce((count, word) => count + haystack.split(word).length - 1, 0);
+}
+
+/**
+ * Render packed items as prompt-ready text
+ * @param header Header line
+ * @param items Packed items
+ * @returns Assembled text
+ */
+function render(header: string, items: PackedItem[]): string {
+  const parts = [header];
+
+  for (const kind of Object.keys(SECTION_HEADINGS) as RecallItemKind[]) {
+    const sectionItems = items
+      .filter((item) => item.kind === kind)
+      .sort((a, b) => a.order - b.order);
+    if (sectionItems.length > 0) {
+      parts.push(SECTION_HEADINGS[kind], ...sectionItems.map((item) => item.text));
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Assembles the most useful material about a context into a token-budgeted text block
+ */
+export class RecallService {
+  private contextService: ContextService;
+
+  /**
+   * Constructor
+   * @param contextService Context service used to load contexts and search similar ones
+   */
+  constructor(contextService: ContextService) {
+    this.contextService = contextService;
+  }
+
+  /**
+   * Pack the summary, pinned and recent messages, code blocks and related contexts into the budget
+   * @param params Recall parameters
+   * @returns Assembled text and a manifest of included and dropped items
+   */
+  async recall(params: RecallParams): Promise<RecallResult> {
+    if (!params.contextId && !params.query) {
+      throw new Error('Either contextId or query must be provided');
+    }
+
+    const header = params.contextId
+      ? `# Recall: ${params.contextId}`
+      : `# Recall for query: ${params.query}`;
+    const candidates = await this.collectCandidates(params);
+
+    return this.pack(header, candidates, params.tokenBudget);
+  }
+
+  /**
+   * Collect candidate items in priority order
+   * @param params Recall parameters
+   * @returns Candidates, most important first
+   */
+  private async collectCandidates(params: RecallParams): Promise<RecallCandidate[]> {
+    const candidates: RecallCandidate[] = [];
+    let summary: ContextSummary | undefined;
+    let messages: Message[] = [];
+
+    if (params.contextId) {
+      const context = await this.contextService.getContext(params.contextId);
+      if (!context) {
+        throw new Error(`Context not found: ${params.contextId}`);
+      }
+
+      summary = typeof context.summary === 'object' ? context.summary : context.metaSummary;
+      messages = context.messages || [];
+
+      if (summary) {
+        candidates.push({
+          kind: 'summary',
+          id: `summary:v${summary.version}`,
+          text: formatSummary(summary),
+          order: 0,
+          truncatable: true,
+        });
+      }
+
+      const pinnedIndexes = new Set<number>();
+      messages.forEach((message, index) => {
+        if (message.pinned || (message.importance ?? 0) >= ContextImportance.HIGH) {
+          pinnedIndexes.add(index);
+          candidates.push({
+            kind: 'pinned',
+            id: `message:${index}`,
+            text: formatMessage(message),
+            order: index,
+          });
+        }
+      });
+
+      // Newest turns first so the most recent ones win when the budget runs out
+      const recentLimit = params.recentMessages ?? DEFAULT_RECENT_MESSAGES;
+      for (let index = messages.length - 1, taken = 0; index >= 0 && taken < recentLimit; index--) {
+        if (pinnedIndexes.has(index)) {
+          continue;
+        }
+        candidates.push({
+          kind: 'recent',
+          id: `message:${index}`,
+          text: formatMessage(messages[index]),
+          order: index,
+        });
+        taken++;
+      }
+
+      candidates.push(...this.collectCodeBlocks(summary, messages, params));
+    }
+
+    const similarLimit = params.similarLimit ?? DEFAULT_SIMILAR_LIMIT;
+    const similarQuery =
+      params.query || summary?.summary || messages[messages.length - 1]?.content || '';
+    if (similarLimit > 0 && similarQuery) {
+      const similar = await this.contextService.findSimilarContexts(similarQuery, similarLimit + 1);
+      similar
+        .filter((related) => related.contextId !== params.contextId)
+        .slice(0, similarLimit)
+        .forEach((related, index) => {
+          const similarity =
+            related.similarity !== undefined
+              ? ` (similarity ${related.similarity.toFixed(2)})`
+              : '';
+          candidates.push({
+            kind: 'similar',
+            id: `context:${related.contextId}`,
+            text: truncateToTokenLimit(
+              `- ${related.contextId}${similarity}: ${related.summary || related.text}`,
+              MAX_SIMILAR_CONTEXT_TOKENS
+            ),
+            order: index,
+          });
+        });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Pick the code blocks most relevant to the query, or the most important ones
+   * @param summary Context summary
+   * @param messages Context messages
+   * @param params Recall parameters
+   * @returns Code block candidates
+   */
+  private collectCodeBlocks(
+    summary: ContextSummary | undefined,
+    messages: Message[],
+    params: RecallParams
+  ): RecallCandidate[] {
+    const blocks = new Map<string, { code: string; language?: string; importance: number }>();
+    for (const block of summary?.codeBlocks || []) {
+      blocks.set(block.code, { ...block, importance: block.importance ?? 0.5 });
+    }
+
+    const codeBlockRegex = /```([\w-]+)?\n([\s\S]*?)```/g;
+    for (const message of messages) {
+      codeBlockRegex.lastIndex = 0;
+      let match;
+      while ((match = codeBlockRegex.exec(message.content || '')) !== null) {
+        const code = match[2].trim();
+        if (code && !blocks.has(code)) {
+          blocks.set(code, {
+            code,
+            language: match[1],
+            importance: message.importance ?? ContextImportance.MEDIUM,
+          });
+        }
+      }
+    }
+
+    const query = params.query;
+    return Array.from(blocks.values())
+      .sort((a, b) =>
+        query
+          ? queryOverlap(b.code, query) - queryOverlap(a.code, query) || b.importance - a.importance
+          : b.importance - a.importance
+      )
+      .slice(0, params.maxCodeBlocks ?? DEFAULT_MAX_CODE_BLOCKS)
+      .map((block, index) => ({
+        kind: 'code' as const,
+        id: `code:${index}`,
+        text: `\`\`\`${block.language || ''}\n${block.code}\n\`\`\``,
+        order: index,
+        duplicateOf: block.code,
+      }));
+  }
+
+  /**
+   * Greedily pack candidates into the token budget
+   * @param header Header line of the assembled text
+   * @param candidates Candidates in priority order
+   * @param tokenBudget Maximum number of tokens
+   * @returns Recall result
+   */
+  private pack(header: string, candidates: RecallCandidate[], tokenBudget: number): RecallResult {
+    const included: PackedItem[] = [];
+    const dropped: RecallManifestEntry[] = [];
+    let used = calculateTokens(header);
+
+    // Each part is preceded by a blank line in the rendered text
+    const costOf = (text: string): number => calculateTokens(`\n\n${text}`);
+
+    /**
+     * Add a candidate if it fits; a candidate that may be truncated is shortened to the
+     * remaining budget minus the reserve, or to the whole remaining budget if that leaves too little
+     */
+    const add = (candidate: RecallCandidate, reserve: number): boolean => {
+      const headingTokens = included.some((item) => item.kind === candidate.kind)
+        ? 0
+        : costOf(SECTION_HEADINGS[candidate.kind]);
+      const remaining = tokenBudget - used - headingTokens;
+
+      let text = candidate.text;
+      let tokens = costOf(text);
+      let truncated = false;
+      if (tokens > remaining) {
+        if (!candidate.truncatable || remaining < MIN_TRUNCATED_TOKENS) {
+          return false;
+        }
+        const limit = remaining - reserve >= MIN_TRUNCATED_TOKENS ? remaining - reserve : remaining;
+        text = truncateToTokenLimit(text, limit - costOf(''));
+        tokens = costOf(text);
+        truncated = true;
+      }
+
+      included.push({ ...candidate, text, fullText: candidate.text, tokens, truncated });
+      used += headingTokens + tokens;
+      return true;
+    };
+
+    candidates.forEach((candidate, position) => {
+      const duplicateOf = candidate.duplicateOf;
+      if (duplicateOf && included.some((item) => item.text.includes(duplicateOf))) {
+        dropped.push({
+          kind: candidate.kind,
+          id: candidate.id,
+          tokens: costOf(candidate.text),
+          reason: 'duplicate',
+        });
+        return;
+      }
+
+      // A long summary is shortened where it stands rather than giving way to lower priority
+      // items; a bounded share of the budget stays free for the items after it
+      const reserve =
+        position < candidates.length - 1 ? Math.floor(tokenBudget * LATER_ITEMS_BUDGET_SHARE) : 0;
+      if (!add(candidate, reserve)) {
+        dropped.push({
+          kind: candidate.kind,
+          id: candidate.id,
+          tokens: costOf(candidate.text),
+          reason: 'budget',
+        });
+      }
+    });
+
+    // The estimate of the rendered text isn't the sum of its parts: separators cost tokens and
+    // brackets in one part raise the count for all of them. Shorten the truncatable item first,
+    // then drop the least important items until it fits
+    let text = render(header, included);
+    let overflow = calculateTokens(text) - tokenBudget;
+    const shortenable = included.find((item) => item.truncatable);
+    while (overflow > 0 && shortenable && shortenable.tokens - overflow >= MIN_TRUNCATED_TOKENS) {
+      const shorter = truncateToTokenLimit(
+        shortenable.fullText,
+        shortenable.tokens - overflow - costOf('')
+      );
+      if (shorter.length >= shortenable.text.length) {
+        break;
+      }
+      shortenable.text = shorter;
+      shortenable.tokens = costOf(shorter);
+      shortenable.truncated = true;
+      text = render(header, included);
+      overflow = calculateTokens(text) - tokenBudget;
+    }
+    while (included.length > 0 && overflow > 0) {
+      const removed = included.pop() as PackedItem;
+      dropped.push({
+        kind: removed.kind,
+        id: removed.id,
+        tokens: removed.tokens,
+        reason: 'budget',
+      });
+      text = render(header, included);
+      overflow = calculateTokens(text) - tokenBudget;
+    }
+
+    return {
+      text,
+      tokenBudget,
+      tokensUsed: calculateTokens(text),
+      included: included.map((item) => ({
+        kind: item.kind,
+        id: item.id,
+        tokens: item.tokens,
+        ...(item.truncated && { truncated: true }),
+      })),
+      dropped,
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { Message, ContextSummary } from '../domain/types';
+import { SummarizerConfig } from '../config/config';
+import { ApiAnalytics } from '../utils/analytics';
+import { calculateTokens } from '../utils/tokenizer';
+import { BaseSummarizer, GeneratedSummary } from './summarizer.service';
+import { buildSummaryPrompt, getPromptTemplate, parseSummarySections } from './prompt-templates';
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 512;
+
+/**
+ * Connection able to ask the MCP client to sample from its model
+ */
+export interface SamplingClient {
+  /** Whether the connected client advertises the sampling capability */
+  isSamplingSupported(): boolean;
+  /** Send a sampling/createMessage request to the client */
+  createMessage(params: CreateMessageRequest['params']): Promise<CreateMessageResult>;
+}
+
+/**
+ * Summarizer that asks the connected MCP client to write the summary with its own model
+ * Fails when no client supporting sampling is connected, so the fallback summarizer is used
+ */
+export class SamplingSummarizer extends BaseSummarizer {
+  private client: SamplingClient | null = null;
+  private maxOutputTokens: number;
+  private systemPrompt: string;
+  private modelHint?: string;
+
+  /**
+   * Constructor
+   * @param config Summarizer configuration
+   * @param tokenPercentage Token percentage limit
+   * @param analytics Analytics service
+   */
+  constructor(
+    config: SummarizerConfig = {},
+    tokenPercentage: number = 80,
+    analytics: ApiAnalytics | null = null
+  ) {
+    super(tokenPercentage, analytics);
+    this.maxOutputTokens = config.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS;
+    this.systemPrompt = config.systemPrompt || getPromptTemplate('sampling').system;
+    this.modelHint = config.model;
+  }
+
+  /**
+   * Attach the connection used to send sampling requests
+   * @param client Sampling client, or null to detach
+   */
+  setSamplingClient(client: SamplingClient | null): void {
+    this.client = client;
+  }
+
+  /**
+   * Generate summary text through MCP sampling
+   * @param messages Array of messages to summarize
+   * @param contextId Context ID
+   * @param previousSummary Previous summary the text should incorporate
+   * @returns Summary text and tokens used
+   */
+  protected async generateSummary(
+    messages: Message[],
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary> {
+    if (messages.length === 0) {
+      return { summary: 'No messages to summarize.', tokensUsed: 0 };
+    }
+
+    if (!this.client || !this.client.isSamplingSupported()) {
+      throw new Error('Connected client does not support sampling');
+    }
+
+    const prompt = buildSummaryPrompt(
+      getPromptTemplate('sampling'),
+      messages,
+      contextId,
+      previousSummary
+    );
+
+    const result = await this.client.createMessage({
+      systemPrompt: this.systemPrompt,
+      maxTokens: this.maxOutputTokens,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt } }],
+      includeContext: 'none',
+      ...(this.modelHint && { modelPreferences: { hints: [{ name: this.modelHint }] } }),
+    });
+
+    const summary = result.content.type === 'text' ? result.content.text.trim() : '';
+    if (!summary) {
+      throw new Error('Client returned an empty summary');
+    }
+
+    return { ...parseSummarySections(summary), tokensUsed: calculateTokens(summary) };
+  }
+}
@@ -0,0 +1,58 @@
+import { ContextStore } from '../repositories/interfaces';
+
+/**
+ * Outcome of migrating contexts between stores
+ */
+export interface StorageMigrationResult {
+  /** Contexts copied to the target store */
+  migrated: string[];
+  /** Contexts that could not be copied, with the reason */
+  failed: Array<{ contextId: string; error: string }>;
+}
+
+/**
+ * Copy every context from one store into another
+ * Messages, metadata, all summary versions and meta-summaries are copied; existing
+ * data for the same context in the target is replaced
+ * @param source Store to read from
+ * @param target Store to write to
+ * @param onProgress Called after each context with the number processed and the total
+ * @returns Migrated and failed context IDs
+ */
+export async function migrateContexts(
+  source: ContextStore,
+  target: ContextStore,
+  onProgress?: (processed: number, total: number, contextId: string) => void
+): Promise<StorageMigrationResult> {
+  const result: StorageMigrationResult = { migrated: [], failed: [] };
+  const allMetadata = await source.listContextMetadata();
+
+  for (const [index, metadata] of allMetadata.entries()) {
+    const contextId = metadata.contextId;
+    try {
+      await target.saveContextData(contextId, metadata);
+      await target.saveMessages(contextId, await source.loadMessages(contextId));
+
+      // Oldest first so the target keeps the same current version and history
+      for (const summary of await source.listSummaryHistory(contextId)) {
+        await target.saveSummary(summary);
+      }
+
+      const metaSummary = await source.loadMetaSummary(contextId);
+      if (metaSummary) {
+        await target.saveMetaSummary(metaSummary);
+      }
+
+      result.migrated.push(contextId);
+    } catch (error) {
+      result.failed.push({
+        contextId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    onProgress?.(index + 1, allMetadata.length, contextId);
+  }
+
+  return result;
+}
@@ -0,0 +1,114 @@
+import { SummarizerConfig } from '../config/config';
+import { ApiAnalytics } from '../utils/analytics';
+import { GraphStore, VectorStore } from '../repositories/interfaces';
+import { BaseSummarizer, Summarizer } from './summarizer.service';
+import { OpenAICompatibleSummarizer } from './llm-summarizer.service';
+import { SamplingSummarizer } from './sampling-summarizer.service';
+
+/**
+ * Provider used when the configuration doesn't name one
+ */
+export const DEFAULT_SUMMARIZER_PROVIDER = 'extractive';
+
+/**
+ * Dependencies passed to summarizer factories
+ */
+export interface SummarizerDependencies {
+  config: SummarizerConfig;
+  tokenPercentage?: number;
+  analytics?: ApiAnalytics | null;
+  vectorRepository?: VectorStore | null;
+  graphRepository?: GraphStore | null;
+}
+
+/**
+ * Factory creating a summarizer for a provider
+ */
+export type SummarizerFactory = (dependencies: SummarizerDependencies) => BaseSummarizer;
+
+const providers = new Map<string, SummarizerFactory>();
+
+/**
+ * Register a summarizer provider, replacing any provider with the same name
+ * @param name Provider name used in `summarizer.provider`
+ * @param factory Factory creating the summarizer
+ */
+export function registerSummarizerProvider(name: string, factory: SummarizerFactory): void {
+  providers.set(name, factory);
+}
+
+/**
+ * Get the names of all registered summarizer providers
+ * @returns Provider names
+ */
+export function listSummarizerProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Create the extractive summarizer
+ * @param dependencies Summarizer dependencies
+ * @returns Extractive summarizer
+ */
+function createExtractiveSummarizer(dependencies: SummarizerDependencies): BaseSummarizer {
+  return new Summarizer(
+    dependencies.tokenPercentage,
+    dependencies.analytics ?? null,
+    dependencies.vectorRepository ?? null,
+    dependencies.graphRepository ?? null
+  );
+}
+
+registerSummarizerProvider(DEFAULT_SUMMARIZER_PROVIDER, createExtractiveSummarizer);
+
+for (const provider of ['openai', 'ollama', 'llamacpp']) {
+  registerSummarizerProvider(
+    provider,
+    (dependencies) =>
+      new OpenAICompatibleSummarizer(
+        provider,
+        dependencies.config,
+        dependencies.tokenPercentage,
+        dependencies.analytics ?? null
+      )
+  );
+}
+
+registerSummarizerProvider(
+  'sampling',
+  (dependencies) =>
+    new SamplingSummarizer(
+      dependencies.config,
+      dependencies.tokenPercentage,
+      dependencies.analytics ?? null
+    )
+);
+
+/**
+ * Create the summarizer selected by `summarizer.provider`
+ * Summarizers other than the extractive one fall back to it on failure unless
+ * `summarizer.fallbackToExtractive` is false
+ * @param dependencies Summarizer dependencies
+ * @returns Configured summarizer
+ */
+export function createSummarizer(dependencies: SummarizerDependencies): BaseSummarizer {
+  const provider = dependencies.config.provider || DEFAULT_SUMMARIZER_PROVIDER;
+  const factory = providers.get(provider);
+
+  if (!factory) {
+    console.error(
+      `[MCP Server] Unknown summarizer provider '${provider}', using '${DEFAULT_SUMMARIZER_PROVIDER}'. Available: ${listSummarizerProviders().join(', ')}`
+    );
+    return createExtractiveSummarizer(dependencies);
+  }
+
+  const summarizer = factory(dependencies);
+  if (
+    provider !== DEFAULT_SUMMARIZER_PROVIDER &&
+    dependencies.config.fallbackToExtractive !== false
+  ) {
+    summarizer.setFallback(createExtractiveSummarizer(dependencies));
+  }
+
+  return summarizer;
+}
@@ -5,12 +5,164 @@ import {
   CodeBlock,
   ContextImportance,
   ApiCallType,
+  ActionItem,
+  StructuredSummarySections,
+  SummaryEntities,
 } from '../domain/types';
-import { VectorRepository } from '../repositories/vector.repository';
-import { GraphRepository } from '../repositories/graph.repository';
 import { ApiAnalytics } from '../utils/analytics';
 import { calculateTokens } from '../utils/tokenizer';
-import { EmbeddingUtil } from '../utils/embedding';
+import { GraphStore, VectorStore } from '../repositories/interfaces';
+
+/**
+ * Role used for messages that carry child context summaries when building a meta-summary
+ */
+export const SUMMARY_MESSAGE_ROLE = 'summary';
+
+/**
+ * Maximum number of code blocks carried over into a meta-summary
+ */
+const MAX_META_SUMMARY_CODE_BLOCKS = 10;
+
+/**
+ * Maximum number of items kept in each structured summary section
+ */
+const MAX_SECTION_ITEMS = 10;
+
+const DECISION_PATTERN =
+  /\b(?:we (?:decided|agreed|chose|will use|'ll use|are going with|went with)|decided to|decision:|let's (?:go with|use)|going with|settled on|opted (?:to|for))\b/i;
+const OPEN_QUESTION_PATTERN = /\b(?:open question|unclear|not sure|tbd|to be decided|undecided)\b/i;
+const ACTION_ITEM_PATTERN =
+  /\b(?:todo|fixme|need to|needs to|next step|follow[- ]up|action item)\b/i;
+const DONE_ITEM_PATTERN = /^(?:done|completed|fixed|finished)\b[:\s-]*/i;
+const CONSTRAINT_PATTERN =
+  /\b(?:must|must not|should not|shouldn't|cannot|can't|never|always|required|requirement|at most|at least|no more than|only supports?)\b/i;
+const CHECKBOX_PATTERN = /^\s*[-*]\s*\[( |x|X)\]\s+(.+)$/;
+const CODE_BLOCK_PATTERN = /```[\s\S]*?```/g;
+const FILE_PATTERN =
+  /(?:^|[\s`'"(])((?:\.{0,2}\/)?(?:[\w@.-]+\/)*[\w-]+\.(?:ts|tsx|js|jsx|mjs|cjs|json|md|py|go|rs|java|kt|rb|php|cs|cpp|c|h|css|scss|html|vue|svelte|ya?ml|toml|sh|sql))(?=$|[\s`'"),:;.!?])/gm;
+const FUNCTION_PATTERNS = [
+  /`([A-Za-z_$][\w$.]*)\([^`]*\)`/g,
+  /\b(?:function|def|fn|func)\s+([A-Za-z_$][\w$]*)/g,
+  /\b(?:const|let)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s*)?\(/g,
+];
+const INSTALL_PATTERN =
+  /\b(?:npm (?:install|i|add)|yarn add|pnpm add|pip install)((?:[ \t]+[@\w./=<>~^-]+)+)/g;
+const IMPORT_PATTERN = /(?:\bfrom\s+|\brequire\(\s*|\bimport\s+)['"]([^'"./][^'"]*)['"]/g;
+const URL_PATTERN = /https?:\/\/[^\s<>"'`)\]]+/g;
+
+/**
+ * Remove duplicates and keep the most recent items
+ * @param items Items in chronological order
+ * @param limit Maximum number of items to keep
+ * @returns Unique items, newest last
+ */
+function latestUnique(items: string[], limit = MAX_SECTION_ITEMS): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (let i = items.length - 1; i >= 0 && result.length < limit; i--) {
+    const key = items[i].toLowerCase();
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.unshift(items[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect the first capture group of every match of a pattern
+ * @param text Text to search
+ * @param pattern Global regular expression with one capture group
+ * @returns Captured values
+ */
+function collectMatches(text: string, pattern: RegExp): string[] {
+  const results: string[] = [];
+  pattern.lastIndex = 0;
+
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    results.push(match[1]);
+  }
+  return results;
+}
+
+/**
+ * Reduce an installed or imported module specifier to its package name
+ * @param specifier Module specifier such as `lodash/fp` or `@scope/pkg@1.2.0`
+ * @returns Package name
+ */
+function toPackageName(specifier: string): string {
+  const withoutVersion = specifier.replace(/(?!^)[@=<>~^].*$/, '');
+  const parts = withoutVersion.split('/');
+  return withoutVersion.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+/**
+ * Create empty structured summary sections
+ * @returns Sections without any items
+ */
+function emptySections(): StructuredSummarySections {
+  return {
+    decisions: [],
+    openQuestions: [],
+    actionItems: [],
+    entities: { files: [], functions: [], packages: [], urls: [] },
+    constraints: [],
+  };
+}
+
+/**
+ * Merge newer structured sections into older ones
+ * Action items with the same text take the status from the newer sections
+ * @param older Older sections
+ * @param newer Newer sections
+ * @returns Merged sections
+ */
+export function mergeStructuredSections(
+  older: Partial<StructuredSummarySections>,
+  newer: Partial<StructuredSummarySections>
+): StructuredSummarySections {
+  const empty = emptySections();
+  const olderEntities: SummaryEntities = { ...empty.entities, ...older.entities };
+  const newerEntities: SummaryEntities = { ...empty.entities, ...newer.entities };
+
+  const actionItems = new Map<string, ActionItem>();
+  for (const item of [...(older.actionItems || []), ...(newer.actionItems || [])]) {
+    const key = item.text.toLowerCase();
+    actionItems.delete(key);
+    actionItems.set(key, item);
+  }
+
+  const mergeList = (a: string[] = [], b: string[] = []): string[] => latestUnique([...a, ...b]);
+
+  return {
+    decisions: mergeList(older.decisions, newer.decisions),
+    openQuestions: mergeList(older.openQuestions, newer.openQuestions),
+    actionItems: Array.from(actionItems.values()).slice(-MAX_SECTION_ITEMS),
+    entities: {
+      files: mergeList(olderEntities.files, newerEntities.files),
+      functions: mergeList(olderEntities.functions, newerEntities.functions),
+      packages: mergeList(olderEntities.packages, newerEntities.packages),
+      urls: mergeList(olderEntities.urls, newerEntities.urls),
+    },
+    constraints: mergeList(older.constraints, newer.constraints),
+  };
+}
+
+/**
+ * Summary text produced by a summarizer implementation
+ */
+export interface GeneratedSummary {
+  summary: string;
+  tokensUsed?: number;
+  /** Structured sections that replace the rule-based extraction */
+  sections?: Partial<StructuredSummarySections>;
+}
+
+/**
+ * Prefix the extractive summarizer puts in front of conversation summaries
+ */
+const SUMMARY_TEXT_PREFIX = /^Conversation with \d+ messages(?: \([^)]*\))?\. Summary: /;
 
 /**
  * Base summarizer service implementation
@@ -19,6 +171,7 @@ import { EmbeddingUtil } from '../utils/embedding';
 export abstract class BaseSummarizer {
   protected tokenPercentage: number;
   private analytics: ApiAnalytics | null = null;
+  private fallback: BaseSummarizer | null = null;
 
   /**
    * Constructor
@@ -30,6 +183,43 @@ export abstract class BaseSummarizer {
     this.analytics = analytics;
   }
 
+  /**
+   * Set a summarizer to use when this one fails to generate a summary
+   * @param fallback Fallback summarizer, or null to disable the fallback
+   * @returns This summarizer
+   */
+  setFallback(fallback: BaseSummarizer | null): this {
+    this.fallback = fallback;
+    return this;
+  }
+
+  /**
+   * Generate summary text, delegating to the fallback summarizer on failure
+   * @param messages Array of messages to summarize
+   * @param contextId Context ID
+   * @param previousSummary Previous summary the text should incorporate
+   * @returns Summary text and tokens used
+   */
+  private async generateSummaryWithFallback(
+    messages: Message[],
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary> {
+    try {
+      return await this.generateSummary(messages, contextId, previousSummary);
+    } catch (error) {
+      if (!this.fallback) {
+        throw error;
+      }
+
+      console.error(
+        `[Summarizer] ${this.constructor.name} failed for context ${contextId}, using fallback:`,
+        error instanceof Error ? error.message : error
+      );
+      return this.fallback.generateSummaryWithFallback(messages, contextId, previousSummary);
+    }
+  }
+
   /**
    * Extract code blocks from messages
    * @param messages Array of messages
@@ -92,6 +282,76 @@ export abstract class BaseSummarizer {
     return insights.slice(0, 5); // Limit to 5 insights
   }
 
+  /**
+   * Extract decisions, open questions, action items, entities and constraints from messages
+   * Rule-based; summarizers backed by a model can return their own sections from generateSummary
+   * @param messages Array of messages
+   * @returns Structured summary sections
+   */
+  protected extractStructuredSections(messages: Message[]): StructuredSummarySections {
+    const sections = emptySections();
+    const entities = sections.entities;
+
+    for (const message of messages) {
+      const content = message.content || '';
+      const prose = content.replace(CODE_BLOCK_PATTERN, ' ');
+
+      for (const line of prose.split(/\n+/)) {
+        const checkbox = CHECKBOX_PATTERN.exec(line);
+        if (checkbox) {
+          sections.actionItems.push({
+            text: checkbox[2].trim(),
+            status: checkbox[1] === ' ' ? 'open' : 'done',
+          });
+          continue;
+        }
+
+        for (const rawSentence of line.split(/(?<=[.!?])\s+/)) {
+          const sentence = rawSentence.replace(/^\s*(?:[-*]|\d+\.)\s+/, '').trim();
+          if (sentence.length < 8) {
+            continue;
+          }
+
+          if (DECISION_PATTERN.test(sentence)) {
+            sections.decisions.push(sentence);
+          } else if (sentence.endsWith('?') || OPEN_QUESTION_PATTERN.test(sentence)) {
+            sections.openQuestions.push(sentence);
+          } else if (DONE_ITEM_PATTERN.test(sentence)) {
+            sections.actionItems.push({
+              text: sentence.replace(DONE_ITEM_PATTERN, ''),
+              status: 'done',
+            });
+          } else if (ACTION_ITEM_PATTERN.test(sentence)) {
+            sections.actionItems.push({ text: sentence, status: 'open' });
+          } else if (message.role === 'user' && CONSTRAINT_PATTERN.test(sentence)) {
+            sections.constraints.push(sentence);
+          }
+        }
+      }
+
+      entities.files.push(...collectMatches(content, FILE_PATTERN));
+      for (const pattern of FUNCTION_PATTERNS) {
+        entities.functions.push(...collectMatches(content, pattern));
+      }
+      for (const install of collectMatches(content, INSTALL_PATTERN)) {
+        entities.packages.push(
+          ...install
+            .trim()
+            .split(/\s+/)
+            .filter((arg) => !arg.startsWith('-'))
+            .map(toPackageName)
+        );
+      }
+      entities.packages.push(...collectMatches(content, IMPORT_PATTERN).map(toPackageName));
+      entities.urls.push(
+        ...(content.match(URL_PATTERN) || []).map((url) => url.replace(/[.,;:!?]+$/, ''))
+      );
+    }
+
+    // Merging into empty sections removes duplicates and caps every list
+    return mergeStructuredSections(emptySections(), sections);
+  }
+
   /**
    * Calculate context importance based on message content
    * @param messages Array of messages
@@ -120,6 +380,7 @@ export abstract class BaseSummarizer {
    * @param summary Summary text
    * @param messages Original message array
    * @param version Summary version
+   * @param sections Structured sections that replace the rule-based extraction
    * @returns Summary object
    */
   protected createSummaryObject(
@@ -128,13 +389,16 @@ export abstract class BaseSummarizer {
     messages: Message[],
     version = 1,
     tokensUsed?: number,
-    tokenLimit?: number
+    tokenLimit?: number,
+    sections?: Partial<StructuredSummarySections>
   ): ContextSummary {
     const codeBlocks = this.extractCodeBlocks(messages);
     const keyInsights = this.extractKeyInsights(messages);
     const importanceScore = this.calculateImportanceScore(messages);
 
     return {
+      ...this.extractStructuredSections(messages),
+      ...sections,
       contextId,
       createdAt: Date.now(),
       summary,
@@ -152,9 +416,14 @@ export abstract class BaseSummarizer {
    * Generate summary
    * @param messages Array of messages to summarize
    * @param contextId Context ID
+   * @param previousSummary Previous summary to fold the messages into, for incremental summarization
    * @returns Summary result
    */
-  async summarize(messages: Message[], contextId: string): Promise<SummaryResult> {
+  async summarize(
+    messages: Message[],
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<SummaryResult> {
     if (this.analytics) {
       this.analytics.trackCall(ApiCallType.LLM_SUMMARIZE);
     }
@@ -164,18 +433,32 @@ export abstract class BaseSummarizer {
       const tokenCount = calculateTokens(messages.map((m) => m.content).join('\n'));
 
       // Generate summary text using implementation-specific method
-      const { summary, tokensUsed } = await this.generateSummary(messages, contextId);
-
-      // Create summary object
-      const summaryObj = this.createSummaryObject(
-        contextId,
-        summary,
+      const { summary, tokensUsed, sections } = await this.generateSummaryWithFallback(
         messages,
-        1,
-        tokensUsed,
-        tokenCount
+        contextId,
+        previousSummary
       );
 
+      // Create summary object
+      const summaryObj = previousSummary
+        ? this.mergeSummaryObject(
+            previousSummary,
+            summary,
+            messages,
+            tokensUsed,
+            tokenCount,
+            sections
+          )
+        : this.createSummaryObject(
+            contextId,
+            summary,
+            messages,
+            1,
+            tokensUsed,
+            tokenCount,
+            sections
+          );
+
       return {
         success: true,
         summary: summaryObj,
@@ -190,25 +473,163 @@ export abstract class BaseSummarizer {
     }
   }
 
+  /**
+   * Fold newly summarized messages into the previous summary object
+   * @param previous Previous summary
+   * @param summary New summary text covering the previous summary and the new messages
+   * @param messages Messages added since the previous summary
+   * @param sections Structured sections for the new messages that replace the rule-based extraction
+   * @returns Summary object with an incremented version
+   */
+  protected mergeSummaryObject(
+    previous: ContextSummary,
+    summary: string,
+    messages: Message[],
+    tokensUsed?: number,
+    tokenLimit?: number,
+    sections?: Partial<StructuredSummarySections>
+  ): ContextSummary {
+    const update = this.createSummaryObject(
+      previous.contextId,
+      summary,
+      messages,
+      previous.version + 1,
+      tokensUsed,
+      tokenLimit,
+      sections
+    );
+
+    const knownCode = new Set(previous.codeBlocks.map((block) => block.code));
+    const codeBlocks = [
+      ...previous.codeBlocks,
+      ...update.codeBlocks.filter((block) => !knownCode.has(block.code)),
+    ];
+
+    // Prefer the newest insights when trimming
+    const keyInsights = Array.from(
+      new Set([...(update.keyInsights || []), ...(previous.keyInsights || [])])
+    ).slice(0, 5);
+
+    const messageCount = previous.messageCount + messages.length;
+    const importanceScore =
+      ((previous.importanceScore ?? ContextImportance.MEDIUM) * previous.messageCount +
+        (update.importanceScore ?? ContextImportance.MEDIUM) * messages.length) /
+      messageCount;
+
+    return {
+      ...update,
+      ...mergeStructuredSections(previous, update),
+      codeBlocks,
+      keyInsights,
+      messageCount,
+      importanceScore,
+      relatedContexts: previous.relatedContexts,
+    };
+  }
+
+  /**
+   * Generate a meta-summary of child context summaries
+   * @param parentContextId Context ID the meta-summary belongs to
+   * @param childSummaries Summaries of the child contexts
+   * @param hierarchyLevel Level of the meta-summary in the context hierarchy
+   * @returns Summary result
+   */
+  async summarizeHierarchy(
+    parentContextId: string,
+    childSummaries: ContextSummary[],
+    hierarchyLevel: number
+  ): Promise<SummaryResult> {
+    if (this.analytics) {
+      this.analytics.trackCall(ApiCallType.LLM_SUMMARIZE, {
+        contextId: parentContextId,
+        hierarchyLevel,
+      });
+    }
+
+    try {
+      // Present each child summary as a message so implementations can summarize them as usual
+      const messages: Message[] = childSummaries.map((child) => ({
+        contextId: child.contextId,
+        role: SUMMARY_MESSAGE_ROLE,
+        content: [`[${child.contextId}] ${child.summary}`, ...(child.keyInsights || [])].join('\n'),
+        timestamp: child.createdAt,
+        importance: child.importanceScore,
+      }));
+
+      const tokenCount = calculateTokens(messages.map((m) => m.content).join('\n'));
+      const { summary, tokensUsed, sections } = await this.generateSummaryWithFallback(
+        messages,
+        parentContextId
+      );
+
+      const childSections = childSummaries.reduce<StructuredSummarySections>(
+        (merged, child) => mergeStructuredSections(merged, child),
+        emptySections()
+      );
+
+      const codeBlocks = childSummaries
+        .flatMap((child) =>
+          child.codeBlocks.map((block) => ({
+            ...block,
+            sourceContextId: block.sourceContextId || child.contextId,
+          }))
+        )
+        .sort((a, b) => (b.importance || 0) - (a.importance || 0))
+        .slice(0, MAX_META_SUMMARY_CODE_BLOCKS);
+
+      const keyInsights = Array.from(
+        new Set(childSummaries.flatMap((child) => child.keyInsights || []))
+      ).slice(0, 5);
+
+      const importanceScore = Math.max(
+        ...childSummaries.map((child) => child.importanceScore ?? ContextImportance.MEDIUM)
+      );
+
+      const metaSummary: ContextSummary = {
+        ...childSections,
+        ...sections,
+        contextId: parentContextId,
+        createdAt: Date.now(),
+        summary,
+        codeBlocks,
+        messageCount: childSummaries.reduce((sum, child) => sum + child.messageCount, 0),
+        version: 1,
+        keyInsights,
+        importanceScore,
+        tokensUsed,
+        tokenLimit: tokenCount,
+        hierarchyLevel,
+        childContextIds: childSummaries.map((child) => child.contextId),
+      };
+
+      return { success: true, summary: metaSummary, tokensUsed };
+    } catch (error) {
+      console.error(`Error creating meta-summary for context ${parentContextId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Abstract method to generate summary text
    * Must be implemented by derived classes
    * @param messages Array of messages to summarize
    * @param contextId Context ID
+   * @param previousSummary Previous summary the text should incorporate, when summarizing incrementally
    * @returns Summary text and tokens used
    */
   protected abstract generateSummary(
     messages: Message[],
-    contextId: string
-  ): Promise<{ summary: string; tokensUsed?: number }>;
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary>;
 }
 
 export class Summarizer extends BaseSummarizer {
-  private vectorRepository: VectorRepository | null;
-  private graphRepository: GraphRepository | null;
-  private embeddingUtil: EmbeddingUtil;
-  private modelInitialized = false;
-  private modelInitPromise: Promise<void> | null = null;
+  private vectorRepository: VectorStore | null;
+  private graphRepository: GraphStore | null;
 
   /**
    * Constructor
@@ -220,38 +641,12 @@ export class Summarizer extends BaseSummarizer {
   constructor(
     tokenPercentage: number = 80,
     analytics: ApiAnalytics | null = null,
-    vectorRepository: VectorRepository | null = null,
-    graphRepository: GraphRepository | null = null
+    vectorRepository: VectorStore | null = null,
+    graphRepository: GraphStore | null = null
   ) {
     super(tokenPercentage, analytics);
     this.vectorRepository = vectorRepository;
     this.graphRepository = graphRepository;
-    this.embeddingUtil = EmbeddingUtil.getInstance();
-    this.modelInitialized = false;
-    this.modelInitPromise = null;
-  }
-
-  /**
-   * Initialize the transformer model
-   * @returns Promise that resolves when the model is loaded
-   */
-  private async initializeModel(): Promise<void> {
-    if (this.modelInitialized) return;
-    if (this.modelInitPromise) return this.modelInitPromise;
-
-    this.modelInitPromise = (async () => {
-      try {
-        console.error('[Summarizer] Initializing transformer model...');
-        await this.embeddingUtil.ensureInitialized();
-        this.modelInitialized = true;
-        console.error('[Summarizer] Model initialized successfully');
-      } catch (error) {
-        console.error('[Summarizer] Failed to initialize model:', error);
-        console.error('[Summarizer] Will use basic text summarization instead');
-      }
-    })();
-
-    return this.modelInitPromise;
   }
 
   /**
@@ -264,7 +659,12 @@ export class Summarizer extends BaseSummarizer {
 
     // Format as a conversation
     for (const message of messages) {
-      const role = message.role === 'user' ? 'User' : 'Assistant';
+      const role =
+        message.role === 'user'
+          ? 'User'
+          : message.role === SUMMARY_MESSAGE_ROLE
+            ? 'Context'
+            : 'Assistant';
       result += `${role}: ${message.content}\n\n`;
     }
 
@@ -327,11 +727,9 @@ export class Summarizer extends BaseSummarizer {
    */
   protected async generateSummary(
     messages: Message[],
-    contextId: string
-  ): Promise<{ summary: string; tokensUsed?: number }> {
-    // Initialize model if needed
-    await this.initializeModel();
-
+    contextId: string,
+    previousSummary?: ContextSummary
+  ): Promise<GeneratedSummary> {
     try {
       if (this.vectorRepository) {
         this.vectorRepository.ensureInitialized();
@@ -345,6 +743,24 @@ export class Summarizer extends BaseSummarizer {
         return { summary: 'No messages to summarize.', tokensUsed: 0 };
       }
 
+      // Meta-summaries describe child contexts rather than a conversation
+      if (messages.every((message) => message.role === SUMMARY_MESSAGE_ROLE)) {
+        const summary = `Summary of ${messages.length} related contexts: ${this.extractiveSummarize(text, 7)}`;
+        return { summary, tokensUsed: calculateTokens(summary) };
+      }
+
+      // Fold the new messages into the previous summary text
+      if (previousSummary) {
+        const totalMessages = previousSummary.messageCount + messages.length;
+        const previousText = previousSummary.summary.replace(SUMMARY_TEXT_PREFIX, '');
+        const summary = this.extractiveSummarize(
+          `${previousText} ${this.extractiveSummarize(text, 7)}`,
+          7
+        );
+        const result = `Conversation with ${totalMessages} messages. Summary: ${summary}`;
+        return { summary: result, tokensUsed: calculateTokens(result) };
+      }
+
       // If messages are too few, just concatenate them
       if (messages.length <= 3) {
         const simpleSummary = `This conversation contains ${messages.length} message(s). ${
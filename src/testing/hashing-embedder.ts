@@ -0,0 +1,18 @@
+import { HashedNgramEmbedder } from '../utils/hashed-ngram-embedder';
+
+const DEFAULT_DIMENSIONS = 384;
+
+/**
+ * Deterministic embedding provider for tests, backed by the hashed n-gram fallback embedder
+ * Texts sharing words get similar vectors, which is enough to exercise similarity search
+ * without loading a model; the default length matches the default ONNX model's
+ */
+export class HashingEmbedder extends HashedNgramEmbedder {
+  /**
+   * Constructor
+   * @param dimensions Length of the generated vectors
+   */
+  constructor(dimensions: number = DEFAULT_DIMENSIONS) {
+    super(dimensions);
+  }
+}
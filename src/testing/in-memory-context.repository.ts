@@ -0,0 +1,178 @@
+import { Message, ContextMetadata, ContextData, ContextSummary } from '../domain/types';
+import { matchesMetadataFilter } from '../repositories/file-system.repository';
+import { ContextMetadataFilter, ContextStore, UnparsableMessage } from '../repositories/interfaces';
+
+/**
+ * Copy a value so callers can't mutate stored data, as with a persistent store
+ * @param value Value to copy
+ * @returns Deep copy
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Context store keeping messages, metadata and summaries in memory, intended for tests
+ * Behaves like the file system repository without touching the disk
+ */
+export class InMemoryContextRepository implements ContextStore {
+  private messages = new Map<string, Message[]>();
+  private metadata = new Map<string, ContextMetadata>();
+  /** Every saved summary version per context, oldest first */
+  private summaries = new Map<string, ContextSummary[]>();
+  private metaSummaries = new Map<string, ContextSummary>();
+
+  async addMessage(contextId: string, message: Message): Promise<void> {
+    // Ensure message has a timestamp
+    if (!message.timestamp) {
+      message.timestamp = Date.now();
+    }
+
+    this.messages.set(contextId, [...(this.messages.get(contextId) || []), clone(message)]);
+
+    const now = Date.now();
+    const existing = this.metadata.get(contextId);
+    const metadata: ContextMetadata = existing
+      ? {
+          ...existing,
+          lastActivityAt: now,
+          messagesSinceLastSummary: (existing.messagesSinceLastSummary || 0) + 1,
+          totalMessageCount: (existing.totalMessageCount || 0) + 1,
+        }
+      : {
+          contextId,
+          createdAt: now,
+          lastActivityAt: now,
+          messagesSinceLastSummary: 1,
+          hasSummary: false,
+          totalMessageCount: 1,
+        };
+
+    // Keep the union of message tags on the context for filtering
+    if (message.tags && message.tags.length > 0) {
+      metadata.tags = Array.from(new Set([...(metadata.tags || []), ...message.tags]));
+    }
+
+    this.metadata.set(contextId, metadata);
+  }
+
+  async saveMessages(contextId: string, messages: Message[]): Promise<void> {
+    this.messages.set(contextId, clone(messages));
+  }
+
+  async loadMessages(contextId: string): Promise<Message[]> {
+    return clone(this.messages.get(contextId) || []);
+  }
+
+  async listUnparsableMessages(): Promise<UnparsableMessage[]> {
+    // Messages are kept as objects, so there is nothing to parse
+    return [];
+  }
+
+  async loadContextData(contextId: string): Promise<ContextMetadata | undefined> {
+    const metadata = this.metadata.get(contextId);
+    return metadata ? clone(metadata) : undefined;
+  }
+
+  async saveContextData(contextId: string, metadata: ContextMetadata): Promise<void> {
+    this.metadata.set(contextId, clone(metadata));
+  }
+
+  async updateContextData(
+    contextId: string,
+    update: (current: ContextMetadata | undefined) => ContextMetadata | undefined
+  ): Promise<ContextMetadata | undefined> {
+    const current = await this.loadContextData(contextId);
+    const updated = update(current);
+    if (!updated) {
+      return current;
+    }
+    this.metadata.set(contextId, clone(updated));
+    return updated;
+  }
+
+  async listContextMetadata(filter: ContextMetadataFilter = {}): Promise<ContextMetadata[]> {
+    return Array.from(this.metadata.values())
+      .filter((metadata) => matchesMetadataFilter(metadata, filter))
+      .map(clone);
+  }
+
+  async saveSummary(summary: ContextSummary): Promise<void> {
+    const history = (this.summaries.get(summary.contextId) || []).filter(
+      (existing) => existing.version !== summary.version
+    );
+    history.push(clone(summary));
+    history.sort((a, b) => a.version - b.version);
+    this.summaries.set(summary.contextId, history);
+  }
+
+  async loadSummary(contextId: string): Promise<ContextSummary | undefined> {
+    const history = this.summaries.get(contextId) || [];
+    return history.length > 0 ? clone(history[history.length - 1]) : undefined;
+  }
+
+  async listSummaryHistory(contextId: string): Promise<ContextSummary[]> {
+    return clone(this.summaries.get(contextId) || []);
+  }
+
+  async saveMetaSummary(summary: ContextSummary): Promise<void> {
+    this.metaSummaries.set(summary.contextId, clone(summary));
+  }
+
+  async loadMetaSummary(contextId: string): Promise<ContextSummary | undefined> {
+    const summary = this.metaSummaries.get(contextId);
+    return summary ? clone(summary) : undefined;
+  }
+
+  async loadContext(contextId: string): Promise<ContextData | undefined> {
+    const metadata = await this.loadContextData(contextId);
+    if (!metadata) {
+      return undefined;
+    }
+
+    const summary = await this.loadSummary(contextId);
+    const hasSummary = Boolean(summary);
+    metadata.hasSummary = hasSummary;
+
+    return {
+      contextId,
+      metadata,
+      messages: await this.loadMessages(contextId),
+      summary,
+      metaSummary: await this.loadMetaSummary(contextId),
+      messagesSinceLastSummary: metadata.messagesSinceLastSummary || 0,
+      hasSummary,
+      lastSummarizedAt: metadata.lastSummarizedAt,
+      importanceScore: metadata.importanceScore,
+      relatedContexts: summary?.relatedContexts,
+      parentContextId: metadata.parentContextId,
+    };
+  }
+
+  /**
+   * Describe the collections holding data for a context
+   * @param contextId Context identifier
+   * @returns Locations in the form `memory:<collection>/<contextId>`
+   */
+  async getContextFiles(contextId: string): Promise<string[]> {
+    const collections: Array<[string, Map<string, unknown>]> = [
+      ['messages', this.messages],
+      ['metadata', this.metadata],
+      ['summaries', this.summaries],
+      ['meta-summaries', this.metaSummaries],
+    ];
+
+    return collections
+      .filter(([, collection]) => collection.has(contextId))
+      .map(([name]) => `memory:${name}/${contextId}`);
+  }
+
+  async deleteContext(contextId: string): Promise<string[]> {
+    const locations = await this.getContextFiles(contextId);
+    this.messages.delete(contextId);
+    this.metadata.delete(contextId);
+    this.summaries.delete(contextId);
+    this.metaSummaries.delete(contextId);
+    return locations;
+  }
+}
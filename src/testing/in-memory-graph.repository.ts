@@ -0,0 +1,75 @@
+import { ContextRelationshipType } from '../domain/types';
+import { EdgeType } from '../repositories/graph.repository';
+import { GraphStore } from '../repositories/interfaces';
+
+/**
+ * Graph store keeping nodes and edges in memory, intended for tests
+ */
+export class InMemoryGraphRepository implements GraphStore {
+  private nodes = new Set<string>();
+  /** Edges keyed by `<source>--<target>`, mirroring the persistent graph repository */
+  private edges = new Map<string, EdgeType>();
+
+  async ensureInitialized(): Promise<void> {
+    // Nothing to load
+  }
+
+  async addRelationship(
+    source: string,
+    target: string,
+    type: ContextRelationshipType,
+    weight: number,
+    metadata?: Record<string, unknown>
+  ): Promise<void> {
+    this.nodes.add(source);
+    this.nodes.add(target);
+
+    const edgeId = `${source}--${target}`;
+    const existing = this.edges.get(edgeId);
+    this.edges.set(edgeId, {
+      source,
+      target,
+      type,
+      weight,
+      createdAt: existing?.createdAt ?? Date.now(),
+      metadata: metadata ?? existing?.metadata,
+    });
+  }
+
+  async getRelatedContexts(contextId: string, type?: ContextRelationshipType): Promise<string[]> {
+    return Array.from(this.edges.values())
+      .filter((edge) => edge.source === contextId && (!type || edge.type === type))
+      .map((edge) => edge.target);
+  }
+
+  /**
+   * Get every stored edge
+   * @returns Edges in insertion order
+   */
+  async getEdges(): Promise<EdgeType[]> {
+    return Array.from(this.edges.values());
+  }
+
+  async hasContext(contextId: string): Promise<boolean> {
+    return this.nodes.has(contextId);
+  }
+
+  async listContextIds(): Promise<string[]> {
+    return Array.from(this.nodes);
+  }
+
+  async getEdgeCount(contextId: string): Promise<number> {
+    return Array.from(this.edges.values()).filter(
+      (edge) => edge.source === contextId || edge.target === contextId
+    ).length;
+  }
+
+  async deleteContext(contextId: string): Promise<void> {
+    this.nodes.delete(contextId);
+    for (const [edgeId, edge] of this.edges) {
+      if (edge.source === contextId || edge.target === contextId) {
+        this.edges.delete(edgeId);
+      }
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { ContextSummary, VectorIndexStatus } from '../domain/types';
+import { RelatedContext } from '../types/related-context';
+import { EmbeddingProvider, embedInBatches } from '../utils/embedding';
+import { ChunkMatch, ContextChunk, chunkPlainText, groupChunkMatches } from '../utils/chunker';
+import {
+  VectorIndexEntry,
+  VectorRebuildOptions,
+  VectorSearchFilter,
+  VectorStore,
+} from '../repositories/interfaces';
+import { HashingEmbedder } from './hashing-embedder';
+import { KeyedMutex } from '../utils/keyed-mutex';
+
+/**
+ * Stored vector entry with one embedding per chunk
+ */
+interface InMemoryVectorEntry {
+  id: string;
+  text: string;
+  summary: string;
+  chunks: Array<{ chunk: ContextChunk; embedding: number[] }>;
+}
+
+/**
+ * Calculate cosine similarity between two vectors
+ * @param a First vector
+ * @param b Second vector
+ * @returns Similarity, 0 when either vector is empty or zero
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Vector store keeping embeddings in memory and searching them exhaustively
+ * Intended for tests; needs neither the native HNSW index nor the ONNX model
+ */
+export class InMemoryVectorRepository implements VectorStore {
+  private readonly embeddingProvider: EmbeddingProvider;
+  private contexts = new Map<string, InMemoryVectorEntry>();
+  /** Holds changes while a rebuild runs, as the HNSW repository does */
+  private readonly changes = new KeyedMutex();
+
+  /**
+   * Constructor
+   * @param embeddingProvider Embedding source, a hashing embedder by default
+   */
+  constructor(embeddingProvider: EmbeddingProvider = new HashingEmbedder()) {
+    this.embeddingProvider = embeddingProvider;
+  }
+
+  async ensureInitialized(): Promise<void> {
+    // Nothing to load
+  }
+
+  async addSummary(summary: ContextSummary): Promise<void> {
+    await this.changes.runExclusive('', async () => this.setSummary(summary));
+  }
+
+  /**
+   * Set the summary of an entry, adding an entry without chunks for unknown contexts
+   */
+  private setSummary(summary: ContextSummary): void {
+    const existing = this.contexts.get(summary.contextId);
+    if (existing) {
+      existing.summary = summary.summary;
+    } else {
+      this.contexts.set(summary.contextId, {
+        id: summary.contextId,
+        text: '',
+        summary: summary.summary,
+        chunks: [],
+      });
+    }
+  }
+
+  async addContext(
+    id: string,
+    text: string,
+    summary: string,
+    chunks: ContextChunk[] = chunkPlainText(text)
+  ): Promise<void> {
+    await this.changes.runExclusive('', async () => {
+      const embeddings = await embedInBatches(
+        this.embeddingProvider,
+        chunks.map((chunk) => chunk.text)
+      );
+      this.contexts.set(id, {
+        id,
+        text,
+        summary,
+        chunks: chunks.map((chunk, i) => ({ chunk, embedding: embeddings[i] })),
+      });
+    });
+  }
+
+  async updateContext(
+    id: string,
+    text: string,
+    summary: string,
+    chunks?: ContextChunk[]
+  ): Promise<void> {
+    const existing = this.contexts.get(id);
+    const keepChunks = !chunks && existing && existing.text === text && existing.chunks.length > 0;
+    await this.addContext(
+      id,
+      text,
+      summary,
+      chunks || (keepChunks ? existing.chunks.map((entry) => entry.chunk) : chunkPlainText(text))
+    );
+  }
+
+  async findSimilarContexts(
+    text: string,
+    limit = 5,
+    filter: VectorSearchFilter = {}
+  ): Promise<RelatedContext[]> {
+    const query = await this.embeddingProvider.getEmbedding(text);
+    const excluded = new Set(filter.excludeContextIds || []);
+
+    const matches: ChunkMatch[] = [];
+    for (const entry of this.contexts.values()) {
+      if (
+        excluded.has(entry.id) ||
+        (filter.contextIds !== undefined && !filter.contextIds.includes(entry.id))
+      ) {
+        continue;
+      }
+      for (const { chunk, embedding } of entry.chunks) {
+        if (filter.role !== undefined && chunk.role !== filter.role) {
+          continue;
+        }
+        matches.push({
+          contextId: entry.id,
+          chunk,
+          similarity: cosineSimilarity(query, embedding),
+        });
+      }
+    }
+
+    return groupChunkMatches(matches, limit).map((match) => {
+      const entry = this.contexts.get(match.contextId)!;
+      return {
+        contextId: entry.id,
+        text: entry.text,
+        summary: entry.summary,
+        type: 'similar',
+        weight: match.similarity,
+        similarity: match.similarity,
+        snippets: match.snippets,
+      };
+    });
+  }
+
+  /**
+   * Get a stored entry
+   * @param id Context identifier
+   * @returns Entry or undefined if the context isn't stored
+   */
+  async getContext(id: string): Promise<InMemoryVectorEntry | undefined> {
+    return this.contexts.get(id);
+  }
+
+  async hasContext(id: string): Promise<boolean> {
+    return this.contexts.has(id);
+  }
+
+  async hasEmbedding(id: string): Promise<boolean> {
+    return (this.contexts.get(id)?.chunks || []).some((entry) => entry.embedding.length > 0);
+  }
+
+  async listContextIds(): Promise<string[]> {
+    return Array.from(this.contexts.keys());
+  }
+
+  async deleteContext(id: string): Promise<void> {
+    await this.changes.runExclusive('', async () => {
+      this.contexts.delete(id);
+    });
+  }
+
+  async getIndexStatus(): Promise<VectorIndexStatus> {
+    const current = {
+      modelId: this.embeddingProvider.modelId,
+      dimensions: this.embeddingProvider.dimensions,
+    };
+    // Entries are always embedded by the current provider
+    return {
+      stored: current,
+      current,
+      needsReindex: false,
+      contextCount: this.contexts.size,
+      mismatchedEmbeddings: 0,
+    };
+  }
+
+  async rebuild(
+    entries: VectorIndexEntry[] | (() => Promise<VectorIndexEntry[]>),
+    options: VectorRebuildOptions = {}
+  ): Promise<void> {
+    await this.changes.runExclusive('', async () =>
+      this.replaceEntries(typeof entries === 'function' ? await entries() : entries, options)
+    );
+  }
+
+  /**
+   * Embed entries and replace the stored ones with them
+   */
+  private async replaceEntries(
+    entries: VectorIndexEntry[],
+    options: VectorRebuildOptions
+  ): Promise<void> {
+    const entryChunks = entries.map((entry) => entry.chunks || chunkPlainText(entry.text));
+    const embeddings = await embedInBatches(
+      this.embeddingProvider,
+      entryChunks.flatMap((chunks) => chunks.map((chunk) => chunk.text)),
+      options.batchSize,
+      options.onProgress
+    );
+    let position = 0;
+    this.contexts = new Map(
+      entries.map((entry, i) => [
+        entry.id,
+        {
+          id: entry.id,
+          text: entry.text,
+          summary: entry.summary,
+          chunks: entryChunks[i].map((chunk) => ({ chunk, embedding: embeddings[position++] })),
+        },
+      ])
+    );
+  }
+
+  async close(): Promise<void> {
+    this.contexts.clear();
+  }
+}
@@ -0,0 +1,6 @@
+// In-memory implementations for fast, hermetic tests
+
+export { HashingEmbedder } from './hashing-embedder';
+export { InMemoryContextRepository } from './in-memory-context.repository';
+export { InMemoryVectorRepository } from './in-memory-vector.repository';
+export { InMemoryGraphRepository } from './in-memory-graph.repository';
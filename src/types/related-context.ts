@@ -1,3 +1,51 @@
+import { ChunkKind } from '../utils/chunker';
+
+/**
+ * Chunk of a context that matched a similarity search
+ */
+export interface ContextSnippet {
+  text: string;
+  kind: ChunkKind;
+  /** Index of the message the snippet was cut from; absent for summary snippets */
+  messageIndex?: number;
+  /** Character offsets of the snippet in the message content or summary */
+  start: number;
+  end: number;
+  similarity: number;
+  /** Character offsets of the query terms in the snippet text */
+  highlights?: TextRange[];
+  /** Snippet text with the query terms marked as **bold** */
+  highlightedText?: string;
+}
+
+/**
+ * Range of characters in a text
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Scores that ranked a search result; only the scores of the steps that ran are present
+ */
+export interface ScoreBreakdown {
+  /** Vector similarity of the best matching chunk */
+  vector?: number;
+  /** BM25 score of the best matching chunk */
+  keyword?: number;
+  /** Reciprocal rank fusion score of hybrid search */
+  fused?: number;
+  /** Cross-encoder relevance from 0 to 1 */
+  rerank?: number;
+  /** Relevance from 0 to 1 that the boosts scale */
+  relevance?: number;
+  /** Share of the relevance added for recent activity */
+  recencyBoost?: number;
+  /** Share of the relevance added for importance */
+  importanceBoost?: number;
+}
+
 export interface RelatedContext {
   contextId: string;
   text: string;
@@ -5,4 +53,6 @@ export interface RelatedContext {
   type: string;
   weight: number;
   similarity?: number; // Optional similarity score for search results
+  snippets?: ContextSnippet[]; // Best matching chunks, for similarity search results
+  scores?: ScoreBreakdown; // Scores behind the weight, for similarity search results
 }
@@ -1,6 +1,7 @@
 import path from 'path';
 import fs from 'fs-extra';
 import { ApiCallType } from '../domain/types';
+import { writeJsonAtomic, writeJsonAtomicSync } from './atomic-file';
 
 /**
  * API call log entry structure
@@ -289,7 +290,7 @@ export class ApiAnalytics {
         utilizationReport: this.getUtilizationReport(),
       };
 
-      await fs.writeJSON(analyticsFilePath, data, { spaces: 2 });
+      await writeJsonAtomic(analyticsFilePath, data, 2);
     } catch (error) {
       console.error('[Analytics] Failed to save analytics data:', error);
       throw error;
@@ -334,7 +335,7 @@ export class ApiAnalytics {
       };
       logs.push(logEntry);
 
-      fs.writeJSONSync(this.todayLogFile, logs, { spaces: 2 });
+      writeJsonAtomicSync(this.todayLogFile, logs, 2);
 
       // Return cleanup function
       return () => {
@@ -353,7 +354,7 @@ export class ApiAnalytics {
                 );
                 if (index !== -1) {
                   updatedLogs[index] = logEntry;
-                  fs.writeJSONSync(this.todayLogFile, updatedLogs, { spaces: 2 });
+                  writeJsonAtomicSync(this.todayLogFile, updatedLogs, 2);
                 }
               }
             } catch (e) {
@@ -0,0 +1,216 @@
+/**
+ * Crash-safe file writes and advisory locks shared between server processes
+ */
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+
+const LOCK_RETRY_MS = 20;
+const DEFAULT_LOCK_TIMEOUT_MS = 10000;
+const DEFAULT_LOCK_STALE_MS = 30000;
+
+/**
+ * Options for acquiring a lock file
+ */
+export interface FileLockOptions {
+  /** Give up after waiting this long for the lock (default: 10000) */
+  timeoutMs?: number;
+  /** Treat locks not refreshed for this long as abandoned (default: 30000) */
+  staleMs?: number;
+}
+
+/**
+ * Build a unique temporary path next to a file, so the rename stays on one file system
+ * @param filePath Destination path
+ * @returns Temporary path
+ */
+function getTempPath(filePath: string): string {
+  const suffix = `${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  return path.join(path.dirname(filePath), `.${path.basename(filePath)}.${suffix}`);
+}
+
+/**
+ * Write a file by writing a temporary file and renaming it over the destination
+ * Readers and crashes only ever see the old or the new content, never a partial write
+ * @param filePath Destination path
+ * @param data File content; strings are written as UTF-8
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  await replaceFileAtomic(filePath, async (tempPath) => {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await fs.writeFile(handle, data, typeof data === 'string' ? 'utf-8' : undefined);
+      await fs.fsync(handle);
+    } finally {
+      await fs.close(handle);
+    }
+  });
+}
+
+/**
+ * Replace a file with one produced by a writer that only accepts a path, such as a native library
+ * The writer fills a temporary file that is renamed over the destination once it succeeds
+ * @param filePath Destination path
+ * @param write Writes the new content to the given temporary path
+ */
+export async function replaceFileAtomic(
+  filePath: string,
+  write: (tempPath: string) => Promise<void> | void
+): Promise<void> {
+  const tempPath = getTempPath(filePath);
+  try {
+    await write(tempPath);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.remove(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Serialize a value and write it atomically
+ * @param filePath Destination path
+ * @param value Value to serialize
+ * @param spaces Indentation of the JSON output
+ */
+export async function writeJsonAtomic(
+  filePath: string,
+  value: unknown,
+  spaces?: number
+): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(value, null, spaces) + '\n');
+}
+
+/**
+ * Synchronous variant of writeJsonAtomic for callers that cannot await
+ * @param filePath Destination path
+ * @param value Value to serialize
+ * @param spaces Indentation of the JSON output
+ */
+export function writeJsonAtomicSync(filePath: string, value: unknown, spaces?: number): void {
+  const tempPath = getTempPath(filePath);
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(value, null, spaces) + '\n', 'utf-8');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.removeSync(tempPath);
+    throw error;
+  }
+}
+
+/**
+ * Check whether a lock file was left behind by a dead process or stopped being refreshed
+ * Holders refresh the lock while they run, so an old lock means its owner is gone or hung
+ * @param lockPath Lock file path
+ * @param staleMs Maximum time since the last refresh
+ * @returns Content of the lock if it can be broken, otherwise undefined
+ */
+async function readStaleLock(lockPath: string, staleMs: number): Promise<string | undefined> {
+  try {
+    const stats = await fs.stat(lockPath);
+    const content = await fs.readFile(lockPath, 'utf-8');
+    if (Date.now() - stats.mtimeMs > staleMs) {
+      return content;
+    }
+
+    const owner = parseInt(content, 10);
+    if (!owner || owner === process.pid) {
+      return undefined;
+    }
+    try {
+      // Signal 0 only checks that the process exists
+      process.kill(owner, 0);
+      return undefined;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH' ? content : undefined;
+    }
+  } catch (error) {
+    // The lock disappeared while inspecting it; just try again
+    return undefined;
+  }
+}
+
+/**
+ * Remove a stale lock without removing a fresh one that replaced it in the meantime
+ * The lock is first moved to a unique name, so only one process can claim it, and is put
+ * back if it turns out to be a different lock than the one found stale
+ * @param lockPath Lock file path
+ * @param staleContent Content of the lock found stale
+ */
+async function breakStaleLock(lockPath: string, staleContent: string): Promise<void> {
+  const claimedPath = getTempPath(lockPath);
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch (error) {
+    // Another process broke or released the lock first
+    return;
+  }
+
+  try {
+    if ((await fs.readFile(claimedPath, 'utf-8')) !== staleContent) {
+      // Linking fails if a new lock was created meanwhile, which then keeps the lock
+      await fs.link(claimedPath, lockPath).catch(() => undefined);
+    }
+  } finally {
+    await fs.remove(claimedPath);
+  }
+}
+
+/**
+ * Run a task while holding an advisory lock file
+ * The lock is created exclusively, so only one process holds it at a time; it records the
+ * owner's PID so locks of crashed processes are broken instead of blocking forever, and is
+ * refreshed while the task runs so long tasks keep it
+ * @param lockPath Lock file path
+ * @param task Task to run while holding the lock
+ * @param options Lock options
+ * @returns Result of the task
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  task: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const deadline = Date.now() + timeoutMs;
+  // The random part tells this holder's lock apart from later locks of the same process
+  const content = `${process.pid} ${crypto.randomBytes(4).toString('hex')}`;
+
+  await fs.ensureDir(path.dirname(lockPath));
+  for (;;) {
+    try {
+      await fs.writeFile(lockPath, content, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const staleContent = await readStaleLock(lockPath, staleMs);
+      if (staleContent !== undefined) {
+        await breakStaleLock(lockPath, staleContent);
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  const heartbeat = setInterval(
+    () => {
+      const now = new Date();
+      fs.utimes(lockPath, now, now).catch(() => undefined);
+    },
+    Math.max(LOCK_RETRY_MS, Math.floor(staleMs / 3))
+  );
+  heartbeat.unref();
+
+  try {
+    return await task();
+  } finally {
+    clearInterval(heartbeat);
+    await fs.remove(lockPath).catch(() => undefined);
+  }
+}
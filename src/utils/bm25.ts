@@ -0,0 +1,231 @@
+/**
+ * Utility for keyword search over context chunks with BM25 scoring
+ * Tokens keep identifiers such as getUserById, ERR_CONNECTION_REFUSED or lodash.merge whole,
+ * and add their parts, so both exact identifiers and the words inside them are found
+ */
+import { ChunkMatch, ContextChunk } from './chunker';
+import { TextRange } from '../types/related-context';
+
+/** Term frequency saturation */
+const DEFAULT_K1 = 1.2;
+/** Strength of document length normalization */
+const DEFAULT_B = 0.75;
+/** Words and identifiers joined by dots, dashes or colons */
+const IDENTIFIER_PATTERN = /[\p{L}\p{N}_$]+(?:[.:-][\p{L}\p{N}_$]+)*/gu;
+/** Marker placed around highlighted terms */
+const HIGHLIGHT_MARKER = '**';
+
+/**
+ * BM25 parameters
+ */
+export interface Bm25Options {
+  /** Term frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Document length normalization between 0 and 1 (default: 0.75) */
+  b?: number;
+}
+
+/**
+ * Chunk stored in the index
+ */
+interface IndexedChunk {
+  contextId: string;
+  chunk: ContextChunk;
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+/**
+ * Split text into lowercase search terms
+ * Identifiers joined by dots, dashes or colons are kept as one term; their parts, including
+ * the words of camelCase and snake_case names, are added as separate terms
+ * @param text Text to tokenize
+ * @returns Terms in text order, an identifier followed by its parts
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const identifierPattern = new RegExp(IDENTIFIER_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = identifierPattern.exec(text)) !== null) {
+    const identifier = match[0];
+    terms.push(identifier.toLowerCase());
+
+    const parts = identifier
+      .split(/[.:\-_$]+/)
+      .flatMap((part) => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u))
+      .map((part) => part.toLowerCase())
+      .filter(Boolean);
+    if (parts.length > 1) {
+      terms.push(...parts);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Find the query terms in a text
+ * An identifier is highlighted whole when it or one of its parts is a query term, so the
+ * query `user` highlights `getUserById`, as keyword search matches it
+ * @param text Text to highlight
+ * @param query Query text
+ * @returns Character offsets of the matching identifiers, and the text with them marked as **bold**
+ */
+export function highlightTerms(
+  text: string,
+  query: string
+): { highlights: TextRange[]; highlightedText: string } {
+  const queryTerms = new Set(tokenize(query));
+  const highlights: TextRange[] = [];
+  const identifierPattern = new RegExp(IDENTIFIER_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = identifierPattern.exec(text)) !== null) {
+    if (tokenize(match[0]).some((term) => queryTerms.has(term))) {
+      highlights.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  let highlightedText = '';
+  let position = 0;
+  for (const { start, end } of highlights) {
+    highlightedText += `${text.slice(position, start)}${HIGHLIGHT_MARKER}${text.slice(start, end)}${HIGHLIGHT_MARKER}`;
+    position = end;
+  }
+  highlightedText += text.slice(position);
+  return { highlights, highlightedText };
+}
+
+/**
+ * In-memory inverted index ranking chunks with BM25
+ */
+export class Bm25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private chunks = new Map<number, IndexedChunk>();
+  private postings = new Map<string, Set<number>>();
+  private chunkIdsByContext = new Map<string, number[]>();
+  private nextChunkId = 0;
+  private totalLength = 0;
+
+  /**
+   * Constructor
+   * @param options BM25 parameters
+   */
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? DEFAULT_K1;
+    this.b = options.b ?? DEFAULT_B;
+  }
+
+  /**
+   * Number of indexed chunks
+   */
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Replace the chunks of a context
+   * @param contextId Context identifier
+   * @param chunks Chunks of the context
+   */
+  setContext(contextId: string, chunks: ContextChunk[]): void {
+    this.removeContext(contextId);
+
+    const chunkIds: number[] = [];
+    for (const chunk of chunks) {
+      const terms = tokenize(chunk.text);
+      if (terms.length === 0) {
+        continue;
+      }
+
+      const termFrequencies = new Map<string, number>();
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+      }
+
+      const chunkId = this.nextChunkId++;
+      this.chunks.set(chunkId, { contextId, chunk, length: terms.length, termFrequencies });
+      this.totalLength += terms.length;
+      for (const term of termFrequencies.keys()) {
+        const posting = this.postings.get(term) || new Set<number>();
+        posting.add(chunkId);
+        this.postings.set(term, posting);
+      }
+      chunkIds.push(chunkId);
+    }
+
+    if (chunkIds.length > 0) {
+      this.chunkIdsByContext.set(contextId, chunkIds);
+    }
+  }
+
+  /**
+   * Remove all chunks of a context
+   * @param contextId Context identifier
+   */
+  removeContext(contextId: string): void {
+    for (const chunkId of this.chunkIdsByContext.get(contextId) || []) {
+      const indexed = this.chunks.get(chunkId);
+      if (!indexed) {
+        continue;
+      }
+      for (const term of indexed.termFrequencies.keys()) {
+        const posting = this.postings.get(term);
+        posting?.delete(chunkId);
+        if (posting && posting.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+      this.totalLength -= indexed.length;
+      this.chunks.delete(chunkId);
+    }
+    this.chunkIdsByContext.delete(contextId);
+  }
+
+  /**
+   * Remove all chunks
+   */
+  clear(): void {
+    this.chunks.clear();
+    this.postings.clear();
+    this.chunkIdsByContext.clear();
+    this.totalLength = 0;
+  }
+
+  /**
+   * Rank the chunks containing any query term
+   * @param query Query text
+   * @param limit Maximum number of chunks; every matching chunk when omitted
+   * @returns Matching chunks ordered by BM25 score, reported as their similarity
+   */
+  search(query: string, limit = Infinity): ChunkMatch[] {
+    const chunkCount = this.chunks.size;
+    if (chunkCount === 0) {
+      return [];
+    }
+    const averageLength = this.totalLength / chunkCount;
+
+    const scores = new Map<number, number>();
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) {
+        continue;
+      }
+      const idf = Math.log(1 + (chunkCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const chunkId of posting) {
+        const indexed = this.chunks.get(chunkId)!;
+        const frequency = indexed.termFrequencies.get(term) || 0;
+        const normalization = 1 - this.b + (this.b * indexed.length) / averageLength;
+        const score = (idf * frequency * (this.k1 + 1)) / (frequency + this.k1 * normalization);
+        scores.set(chunkId, (scores.get(chunkId) || 0) + score);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+      .slice(0, limit)
+      .map(([chunkId, score]) => {
+        const indexed = this.chunks.get(chunkId)!;
+        return { contextId: indexed.contextId, chunk: indexed.chunk, similarity: score };
+      });
+  }
+}
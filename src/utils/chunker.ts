@@ -0,0 +1,194 @@
+/**
+ * Utility for splitting contexts into chunks that are embedded separately
+ * The embedding model only reads the start of its input, so long texts are cut into
+ * overlapping word windows that each fit into the model's input
+ */
+import { Message } from '../domain/types';
+import { ContextSnippet } from '../types/related-context';
+
+/** Words per chunk; roughly the 128 tokens the embedding model reads */
+const DEFAULT_MAX_WORDS = 80;
+/** Words shared by consecutive chunks, so sentences on a boundary stay searchable */
+const DEFAULT_OVERLAP_WORDS = 20;
+/** Snippets attached to each search result */
+export const DEFAULT_SNIPPETS_PER_CONTEXT = 3;
+
+/**
+ * Kind of content a chunk was cut from
+ */
+export type ChunkKind = 'text' | 'code' | 'summary';
+
+/**
+ * Part of a context that is embedded on its own
+ */
+export interface ContextChunk {
+  /** Chunk text, a slice of the message content or summary */
+  text: string;
+  kind: ChunkKind;
+  /** Index of the message the chunk was cut from; undefined for summary chunks */
+  messageIndex?: number;
+  /** Role of the message the chunk was cut from; undefined for summary chunks */
+  role?: string;
+  /** Character offset where the chunk starts in the message content or summary */
+  start: number;
+  /** Character offset after the end of the chunk */
+  end: number;
+  /** Language of a code chunk, if the code block declares one */
+  language?: string;
+}
+
+/**
+ * Chunk size options
+ */
+export interface ChunkOptions {
+  /** Maximum words per chunk (default: 80) */
+  maxWords?: number;
+  /** Words repeated at the start of the next chunk (default: 20) */
+  overlapWords?: number;
+}
+
+/**
+ * Chunk of a context found by a similarity search
+ */
+export interface ChunkMatch {
+  contextId: string;
+  chunk: ContextChunk;
+  similarity: number;
+}
+
+/**
+ * Context found by a similarity search with its best matching chunks
+ */
+export interface ContextMatch {
+  contextId: string;
+  /** Similarity of the best matching chunk */
+  similarity: number;
+  snippets: ContextSnippet[];
+}
+
+/**
+ * Split text into overlapping windows of words
+ * @param text Text to split
+ * @param options Chunk size options
+ * @returns Windows with their character offsets in the text; empty for text without words
+ */
+export function chunkText(
+  text: string,
+  options: ChunkOptions = {}
+): Array<Pick<ContextChunk, 'text' | 'start' | 'end'>> {
+  const maxWords = Math.max(1, options.maxWords ?? DEFAULT_MAX_WORDS);
+  const overlapWords = Math.min(
+    maxWords - 1,
+    Math.max(0, options.overlapWords ?? DEFAULT_OVERLAP_WORDS)
+  );
+
+  const words: Array<{ start: number; end: number }> = [];
+  const wordPattern = /\S+/g;
+  let match: RegExpExecArray | null;
+  while ((match = wordPattern.exec(text)) !== null) {
+    words.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  const chunks: Array<Pick<ContextChunk, 'text' | 'start' | 'end'>> = [];
+  for (let first = 0; first < words.length; first += maxWords - overlapWords) {
+    const last = Math.min(first + maxWords, words.length) - 1;
+    const start = words[first].start;
+    const end = words[last].end;
+    chunks.push({ text: text.substring(start, end), start, end });
+    if (last === words.length - 1) {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Split messages into chunks, keeping code blocks apart from the surrounding prose
+ * @param messages Messages of a context
+ * @param options Chunk size options
+ * @returns Chunks in message order
+ */
+export function chunkMessages(messages: Message[], options: ChunkOptions = {}): ContextChunk[] {
+  const chunks: ContextChunk[] = [];
+
+  messages.forEach((message, messageIndex) => {
+    const content = message.content;
+    const addWindows = (from: number, to: number, kind: ChunkKind, language?: string) => {
+      for (const window of chunkText(content.substring(from, to), options)) {
+        chunks.push({
+          text: window.text,
+          kind,
+          messageIndex,
+          role: message.role,
+          start: from + window.start,
+          end: from + window.end,
+          ...(language ? { language } : {}),
+        });
+      }
+    };
+
+    const codeBlockPattern = /```([\w-]*)[^\n]*\n?([\s\S]*?)```/g;
+    let proseStart = 0;
+    let match: RegExpExecArray | null;
+    while ((match = codeBlockPattern.exec(content)) !== null) {
+      addWindows(proseStart, match.index, 'text');
+      const codeStart = match.index + match[0].length - 3 - match[2].length;
+      addWindows(codeStart, codeStart + match[2].length, 'code', match[1] || undefined);
+      proseStart = match.index + match[0].length;
+    }
+    addWindows(proseStart, content.length, 'text');
+  });
+
+  return chunks;
+}
+
+/**
+ * Split text that isn't made of messages, such as a summary, into chunks
+ * @param text Text to split
+ * @param kind Kind recorded on the chunks
+ * @param options Chunk size options
+ * @returns Chunks with their character offsets in the text
+ */
+export function chunkPlainText(
+  text: string,
+  kind: ChunkKind = 'text',
+  options: ChunkOptions = {}
+): ContextChunk[] {
+  return chunkText(text, options).map((window): ContextChunk => ({ ...window, kind }));
+}
+
+/**
+ * Group chunk matches by context, ranking contexts by their best chunk
+ * @param matches Chunk matches in any order
+ * @param limit Maximum number of contexts
+ * @param snippetsPerContext Maximum number of snippets per context
+ * @returns Contexts ordered by similarity, each with its best chunks as snippets
+ */
+export function groupChunkMatches(
+  matches: ChunkMatch[],
+  limit: number,
+  snippetsPerContext: number = DEFAULT_SNIPPETS_PER_CONTEXT
+): ContextMatch[] {
+  const byContext = new Map<string, ChunkMatch[]>();
+  for (const match of [...matches].sort((a, b) => b.similarity - a.similarity)) {
+    const contextMatches = byContext.get(match.contextId) || [];
+    contextMatches.push(match);
+    byContext.set(match.contextId, contextMatches);
+  }
+
+  return Array.from(byContext.entries())
+    .map(([contextId, contextMatches]) => ({
+      contextId,
+      similarity: contextMatches[0].similarity,
+      snippets: contextMatches.slice(0, snippetsPerContext).map(({ chunk, similarity }) => ({
+        text: chunk.text,
+        kind: chunk.kind,
+        ...(chunk.messageIndex !== undefined ? { messageIndex: chunk.messageIndex } : {}),
+        start: chunk.start,
+        end: chunk.end,
+        similarity,
+      })),
+    }))
+    .sort((a, b) => b.similarity - a.similarity || a.contextId.localeCompare(b.contextId))
+    .slice(0, limit);
+}
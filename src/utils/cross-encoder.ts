@@ -0,0 +1,142 @@
+import path from 'path';
+import fs from 'fs';
+import * as ort from 'onnxruntime-node';
+import { Tokenizer, loadTokenizer } from './embedding-tokenizer';
+import { createInputFeeds } from './embedding';
+
+const DEFAULT_MAX_SEQ_LENGTH = 512;
+const DEFAULT_BATCH_SIZE = 16;
+
+/**
+ * Scores how well passages answer a query, reading query and passage together
+ * Used to reorder search results after retrieval
+ */
+export interface Reranker {
+  /** Identifies the reranking model */
+  readonly modelId: string;
+  /**
+   * Score passages against a query
+   * @param query Query text
+   * @param passages Passages to score
+   * @returns One relevance logit per passage; higher is more relevant
+   */
+  score(query: string, passages: string[]): Promise<number[]>;
+  /** Load the model; throws if the reranker can't be used */
+  ensureInitialized?(): Promise<void>;
+  /** Release resources held by the reranker */
+  close?(): Promise<void>;
+}
+
+/**
+ * Options of the ONNX cross-encoder
+ */
+export interface CrossEncoderOptions {
+  /** Path of the ONNX model file */
+  modelPath: string;
+  /** Directory with the model's tokenizer.json or vocab.txt (default: the model's directory) */
+  tokenizerPath?: string;
+  /** Maximum number of tokens of a query and passage pair (default: 512) */
+  maxSeqLength?: number;
+  /** Maximum number of pairs run through the model at once (default: 16) */
+  batchSize?: number;
+}
+
+/**
+ * Reranker running a cross-encoder, such as cross-encoder/ms-marco-MiniLM-L-6-v2 or
+ * BAAI/bge-reranker-base exported to ONNX, locally with ONNX Runtime
+ */
+export class OnnxCrossEncoder implements Reranker {
+  private readonly options: CrossEncoderOptions;
+  private session: ort.InferenceSession | null = null;
+  private tokenizer: Tokenizer | null = null;
+  private initializing: Promise<void> | null = null;
+
+  /**
+   * Constructor
+   * @param options Model file, tokenizer and input limits
+   */
+  constructor(options: CrossEncoderOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Identifies the model file
+   */
+  get modelId(): string {
+    return `cross-encoder/${path.basename(this.options.modelPath)}`;
+  }
+
+  /**
+   * Load the tokenizer and the ONNX session once
+   */
+  async ensureInitialized(): Promise<void> {
+    if (!this.initializing) {
+      this.initializing = this.initialize().catch((error) => {
+        this.initializing = null;
+        throw error;
+      });
+    }
+    return this.initializing;
+  }
+
+  /**
+   * Load the tokenizer and the ONNX session
+   */
+  private async initialize(): Promise<void> {
+    const modelPath = path.resolve(this.options.modelPath);
+    if (!fs.existsSync(modelPath)) {
+      throw new Error(`Reranker model file not found at: ${modelPath}`);
+    }
+    this.tokenizer = loadTokenizer(
+      path.resolve(this.options.tokenizerPath || path.dirname(modelPath))
+    );
+    this.session = await ort.InferenceSession.create(modelPath);
+  }
+
+  /**
+   * Score passages against a query, a batch of pairs per inference run
+   * @param query Query text
+   * @param passages Passages to score
+   * @returns One relevance logit per passage
+   */
+  async score(query: string, passages: string[]): Promise<number[]> {
+    await this.ensureInitialized();
+    const session = this.session;
+    const tokenizer = this.tokenizer;
+    if (!session || !tokenizer) {
+      throw new Error('Reranker model not initialized');
+    }
+
+    const maxLength = this.options.maxSeqLength || DEFAULT_MAX_SEQ_LENGTH;
+    const batchSize = this.options.batchSize || DEFAULT_BATCH_SIZE;
+    const scores: number[] = [];
+
+    for (let start = 0; start < passages.length; start += batchSize) {
+      const batch = passages
+        .slice(start, start + batchSize)
+        .map((passage) => tokenizer.encodePair(query, passage, maxLength));
+      const results = await session.run(
+        createInputFeeds(batch, tokenizer.padId, session.inputNames)
+      );
+
+      const logits = results[session.outputNames[0]];
+      const values = Array.from(logits.data as Float32Array);
+      const labels = values.length / batch.length;
+      // Models with several labels score relevance with the last one
+      for (let row = 0; row < batch.length; row++) {
+        scores.push(values[row * labels + labels - 1]);
+      }
+    }
+
+    return scores;
+  }
+
+  /**
+   * Release the session
+   */
+  async close(): Promise<void> {
+    this.session = null;
+    this.tokenizer = null;
+    this.initializing = null;
+  }
+}
@@ -0,0 +1,425 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { EmbeddingProvider } from './embedding';
+import { replaceFileAtomic, withFileLock } from './atomic-file';
+
+/** Number of embeddings kept in memory by default */
+export const DEFAULT_EMBEDDING_CACHE_SIZE = 10000;
+/** Number of embeddings kept in the cache file of a model by default */
+export const DEFAULT_EMBEDDING_CACHE_DISK_SIZE = 100000;
+
+/** Length of the SHA-256 content hash that starts every record of a cache file */
+const HASH_BYTES = 32;
+/** Number of records read at once while loading the hashes of a cache file */
+const LOAD_RECORDS_PER_READ = 1024;
+/** Share of the disk limit kept by a compaction, so the next one is many appends away */
+const COMPACTED_SHARE = 0.75;
+
+/**
+ * Options of the embedding cache
+ */
+export interface EmbeddingCacheOptions {
+  /** Directory of the cache files; without it embeddings are only cached in memory */
+  directory?: string;
+  /** Number of embeddings kept in memory (default: 10000) */
+  maxEntries?: number;
+  /** Number of embeddings kept in the cache file before the oldest are dropped (default: 100000) */
+  maxDiskEntries?: number;
+}
+
+/**
+ * Least recently used map evicting its oldest entry when full
+ */
+class LruCache<V> {
+  private readonly entries = new Map<string, V>();
+  private readonly maxEntries: number;
+
+  /**
+   * Constructor
+   * @param maxEntries Maximum number of entries
+   */
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Get an entry and mark it as recently used
+   */
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Maps iterate in insertion order, so re-inserting moves the entry to the end
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Add an entry, evicting the least recently used one when full
+   */
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+  }
+
+  /**
+   * Number of entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Embedding provider that caches the embeddings of another provider by a hash of the text
+ * Identical text is embedded once: recent embeddings are kept in memory, and all embeddings are
+ * appended to a file per model in the cache directory. Each record of the file is the SHA-256 of
+ * the text followed by the vector as Float32 values, so only the hashes are read at startup and
+ * vectors are read on demand. Other processes sharing the directory append under a lock file.
+ * When the file holds more records than the disk limit, it is rewritten under the same lock with
+ * only the most recently appended ones.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private readonly provider: EmbeddingProvider;
+  private readonly memory: LruCache<number[]>;
+  /** Offsets of the records in the cache file, by content hash */
+  private readonly offsets = new Map<string, number>();
+  private readonly filePath: string | null;
+  private readonly maxDiskEntries: number;
+  /** Inode of the cache file the offsets refer to; a compaction replaces the file */
+  private fileIno: number | undefined;
+  private loaded: Promise<void> | null = null;
+  /** Appends in progress; they run one after another */
+  private appending: Promise<void> = Promise.resolve();
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Constructor
+   * @param provider Provider generating the embeddings
+   * @param options Cache directory, memory size and disk limit
+   */
+  constructor(provider: EmbeddingProvider, options: EmbeddingCacheOptions = {}) {
+    this.provider = provider;
+    this.memory = new LruCache(options.maxEntries ?? DEFAULT_EMBEDDING_CACHE_SIZE);
+    this.maxDiskEntries = options.maxDiskEntries ?? DEFAULT_EMBEDDING_CACHE_DISK_SIZE;
+    // Files are named after the model, so vectors of different models are never mixed
+    const modelHash = crypto
+      .createHash('sha256')
+      .update(`${provider.modelId}\0${provider.dimensions}`)
+      .digest('hex')
+      .slice(0, 16);
+    this.filePath = options.directory
+      ? path.join(options.directory, `embeddings-${modelHash}.bin`)
+      : null;
+  }
+
+  /**
+   * Model ID of the wrapped provider; cached vectors are the provider's, so they share it
+   */
+  get modelId(): string {
+    return this.provider.modelId;
+  }
+
+  /**
+   * Length of the wrapped provider's vectors
+   */
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  /**
+   * Cache hits and misses since the provider was created, and the number of cached embeddings
+   */
+  get stats(): { hits: number; misses: number; memoryEntries: number; diskEntries: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      memoryEntries: this.memory.size,
+      diskEntries: this.offsets.size,
+    };
+  }
+
+  /**
+   * Initialize the wrapped provider and read the hashes of the cache file
+   */
+  async ensureInitialized(): Promise<void> {
+    await this.provider.ensureInitialized?.();
+    await this.loadHashes();
+  }
+
+  /**
+   * Generate an embedding vector for a text
+   * @param text Text to embed
+   * @returns Embedding vector
+   */
+  async getEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.getEmbeddings([text]);
+    return embedding;
+  }
+
+  /**
+   * Generate embedding vectors, embedding only texts that aren't cached
+   * @param texts Texts to embed
+   * @returns Embedding vectors in the order of the texts
+   * @throws Error if the provider returns vectors of an unexpected length
+   */
+  async getEmbeddings(texts: string[]): Promise<number[][]> {
+    await this.loadHashes();
+
+    const hashes = texts.map((text) => crypto.createHash('sha256').update(text).digest('hex'));
+    const found = new Map<string, number[]>();
+    const onDisk: string[] = [];
+    for (const hash of new Set(hashes)) {
+      const cached = this.memory.get(hash);
+      if (cached) {
+        found.set(hash, cached);
+      } else if (this.offsets.has(hash)) {
+        onDisk.push(hash);
+      }
+    }
+    for (const [hash, embedding] of await this.readEmbeddings(onDisk)) {
+      found.set(hash, embedding);
+      this.memory.set(hash, embedding);
+    }
+
+    // Texts missing from the cache are embedded once, even if they occur several times
+    const missing = new Map<string, string>();
+    hashes.forEach((hash, position) => {
+      if (!found.has(hash) && !missing.has(hash)) {
+        missing.set(hash, texts[position]);
+      }
+    });
+    this.hits += texts.length - missing.size;
+    this.misses += missing.size;
+
+    if (missing.size > 0) {
+      const missingTexts = Array.from(missing.values());
+      const embeddings = this.provider.getEmbeddings
+        ? await this.provider.getEmbeddings(missingTexts)
+        : await Promise.all(missingTexts.map((text) => this.provider.getEmbedding(text)));
+
+      const created: Array<[string, number[]]> = [];
+      Array.from(missing.keys()).forEach((hash, position) => {
+        const embedding = embeddings[position];
+        if (embedding.length !== this.dimensions) {
+          throw new Error(
+            `Embedding model ${this.modelId} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+          );
+        }
+        found.set(hash, embedding);
+        this.memory.set(hash, embedding);
+        created.push([hash, embedding]);
+      });
+      await this.append(created);
+    }
+
+    return hashes.map((hash) => found.get(hash) || []);
+  }
+
+  /**
+   * Wait for pending writes, then close the wrapped provider
+   */
+  async close(): Promise<void> {
+    await this.appending;
+    await this.provider.close?.();
+  }
+
+  /**
+   * Size of one record of the cache file in bytes
+   */
+  private get recordSize(): number {
+    return HASH_BYTES + this.dimensions * 4;
+  }
+
+  /**
+   * Read the content hashes of the cache file once
+   */
+  private loadHashes(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readHashes().catch((error) => {
+        console.error(
+          `[EmbeddingCache] Cache file ${this.filePath} can't be read, embeddings are only cached in memory:`,
+          error
+        );
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Index the records of the cache file by content hash
+   */
+  private async readHashes(): Promise<void> {
+    if (!this.filePath || !(await fs.pathExists(this.filePath))) {
+      return;
+    }
+
+    const handle = await fs.open(this.filePath, 'r');
+    try {
+      const { size, ino } = await fs.fstat(handle);
+      this.fileIno = ino;
+      // A trailing partial record from an interrupted write is ignored
+      const records = Math.floor(size / this.recordSize);
+      const buffer = Buffer.alloc(this.recordSize * LOAD_RECORDS_PER_READ);
+
+      for (let first = 0; first < records; first += LOAD_RECORDS_PER_READ) {
+        const count = Math.min(LOAD_RECORDS_PER_READ, records - first);
+        await fs.read(handle, buffer, 0, count * this.recordSize, first * this.recordSize);
+        for (let record = 0; record < count; record++) {
+          const start = record * this.recordSize;
+          const hash = buffer.toString('hex', start, start + HASH_BYTES);
+          // Several processes may append the same text; the first record wins
+          if (!this.offsets.has(hash)) {
+            this.offsets.set(hash, (first + record) * this.recordSize);
+          }
+        }
+      }
+    } finally {
+      await fs.close(handle);
+    }
+  }
+
+  /**
+   * Read embeddings from the cache file
+   * @param hashes Content hashes of records in the file
+   * @returns Embeddings by content hash; records that can't be read are left out
+   */
+  private async readEmbeddings(hashes: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (!this.filePath || hashes.length === 0) {
+      return embeddings;
+    }
+
+    try {
+      const handle = await fs.open(this.filePath, 'r');
+      try {
+        const buffer = Buffer.alloc(this.recordSize);
+        for (const hash of hashes) {
+          const offset = this.offsets.get(hash);
+          if (offset === undefined) {
+            continue;
+          }
+          const { bytesRead } = await fs.read(handle, buffer, 0, this.recordSize, offset);
+          if (bytesRead === this.recordSize && buffer.toString('hex', 0, HASH_BYTES) === hash) {
+            // Copy into an aligned buffer; Float32Array views require a multiple of 4 as offset
+            const values = new Float32Array(
+              buffer.buffer.slice(
+                buffer.byteOffset + HASH_BYTES,
+                buffer.byteOffset + this.recordSize
+              )
+            );
+            embeddings.set(hash, Array.from(values));
+          } else {
+            this.offsets.delete(hash);
+          }
+        }
+      } finally {
+        await fs.close(handle);
+      }
+    } catch (error) {
+      console.error(`[EmbeddingCache] Failed to read cached embeddings:`, error);
+    }
+    return embeddings;
+  }
+
+  /**
+   * Append new embeddings to the cache file
+   * Failing writes only cost cache hits later, so they are logged instead of thrown
+   * @param entries Embeddings by content hash
+   */
+  private async append(entries: Array<[string, number[]]>): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath || entries.length === 0) {
+      return;
+    }
+
+    const data = Buffer.alloc(entries.length * this.recordSize);
+    entries.forEach(([hash, embedding], record) => {
+      const start = record * this.recordSize;
+      data.write(hash, start, HASH_BYTES, 'hex');
+      Buffer.from(new Float32Array(embedding).buffer).copy(data, start + HASH_BYTES);
+    });
+
+    this.appending = this.appending.then(() =>
+      withFileLock(`${filePath}.lock`, async () => {
+        await fs.ensureDir(path.dirname(filePath));
+        const stats = (await fs.pathExists(filePath)) ? await fs.stat(filePath) : null;
+        if (stats && stats.ino !== this.fileIno) {
+          // Another process created or compacted the file, so the known offsets are stale
+          this.offsets.clear();
+          await this.readHashes();
+        }
+        const size = stats ? stats.size : 0;
+        // Drop a partial record left by an interrupted write, so new records stay aligned
+        const offset = size - (size % this.recordSize);
+        if (offset !== size) {
+          await fs.truncate(filePath, offset);
+        }
+        await fs.appendFile(filePath, data);
+        entries.forEach(([hash], record) => {
+          if (!this.offsets.has(hash)) {
+            this.offsets.set(hash, offset + record * this.recordSize);
+          }
+        });
+        this.fileIno = (await fs.stat(filePath)).ino;
+
+        const records = offset / this.recordSize + entries.length;
+        if (records > this.maxDiskEntries) {
+          await this.compact(filePath, records);
+        }
+      }).catch((error) => {
+        console.error(`[EmbeddingCache] Failed to write cached embeddings:`, error);
+      })
+    );
+    await this.appending;
+  }
+
+  /**
+   * Rewrite the cache file with its most recently appended records; the caller holds the lock
+   * @param filePath Path of the cache file
+   * @param records Number of records in the file
+   */
+  private async compact(filePath: string, records: number): Promise<void> {
+    const keep = Math.floor(this.maxDiskEntries * COMPACTED_SHARE);
+    await replaceFileAtomic(filePath, async (tempPath) => {
+      const source = await fs.open(filePath, 'r');
+      const target = await fs.open(tempPath, 'w');
+      try {
+        const written = new Set<string>();
+        const buffer = Buffer.alloc(this.recordSize * LOAD_RECORDS_PER_READ);
+        for (let first = records - keep; first < records; first += LOAD_RECORDS_PER_READ) {
+          const count = Math.min(LOAD_RECORDS_PER_READ, records - first);
+          await fs.read(source, buffer, 0, count * this.recordSize, first * this.recordSize);
+          // Unique records are moved to the front of the buffer and written at once
+          let length = 0;
+          for (let record = 0; record < count; record++) {
+            const start = record * this.recordSize;
+            const hash = buffer.toString('hex', start, start + HASH_BYTES);
+            if (!written.has(hash)) {
+              written.add(hash);
+              buffer.copy(buffer, length, start, start + this.recordSize);
+              length += this.recordSize;
+            }
+          }
+          await fs.write(target, buffer, 0, length);
+        }
+        await fs.fsync(target);
+      } finally {
+        await fs.close(source);
+        await fs.close(target);
+      }
+    });
+
+    this.offsets.clear();
+    await this.readHashes();
+  }
+}
@@ -0,0 +1,723 @@
+/**
+ * Tokenizers turning text into the token IDs of a transformer model
+ * Supports the WordPiece vocabularies of BERT models (vocab.txt or tokenizer.json) and the
+ * SentencePiece Unigram vocabularies of XLM-R models such as the multilingual MiniLM
+ * (tokenizer.json), following the steps of the Hugging Face tokenizers library:
+ * normalization, pre-tokenization, the subword model and special tokens
+ */
+import fs from 'fs';
+import path from 'path';
+
+/** Penalty added below the lowest piece score for characters missing from a Unigram vocabulary */
+const UNIGRAM_UNKNOWN_PENALTY = 10;
+const DEFAULT_MAX_INPUT_CHARS_PER_WORD = 100;
+const METASPACE = '▁';
+
+/** Code points of the control characters SentencePiece's nmt_nfkc normalization removes */
+const NMT_REMOVED_CODE_POINTS = new Set([
+  ...Array.from({ length: 8 }, (_char, i) => 0x01 + i),
+  0x0b,
+  ...Array.from({ length: 18 }, (_char, i) => 0x0e + i),
+  0x7f,
+  0x8f,
+  0x9f,
+]);
+/** Characters nmt_nfkc turns into spaces, including zero-width spaces and the metaspace itself */
+const NMT_SPACE_CHARS = /[\t\n\f\r\u1680\u200B\u200C\u200E\u200F\u2028\u2029\u2581\uFEFF\uFFFD]/g;
+/** Full-width tilde, which nmt_nfkc keeps although NFKC maps it to "~" */
+const FULLWIDTH_TILDE = '\uFF5E';
+
+/**
+ * Model input for one text
+ */
+export interface EncodedText {
+  /** Token IDs, including special tokens */
+  ids: number[];
+  /** 1 for every token the model should attend to */
+  attentionMask: number[];
+  /** Segment of every token; always 0 for a single text */
+  typeIds: number[];
+}
+
+/**
+ * Rewrites text before it is split, e.g. lowercasing or Unicode normalization
+ */
+type Normalizer = (text: string) => string;
+
+/**
+ * Splits normalized text into words
+ */
+type PreTokenizer = (text: string) => string[];
+
+/**
+ * Subword model turning a word into token IDs
+ */
+interface SubwordModel {
+  tokenize(word: string): number[];
+}
+
+/**
+ * Piece of the layout of a text pair: special tokens or one of the two texts
+ */
+export interface PairTemplatePiece {
+  /** Special token IDs */
+  ids?: number[];
+  /** 0 for the first text, 1 for the second */
+  sequence?: 0 | 1;
+  /** Type ID of the piece's tokens */
+  typeId: number;
+}
+
+/**
+ * Parts of a text tokenizer
+ */
+export interface TokenizerPipeline {
+  normalizer: Normalizer;
+  preTokenizer: PreTokenizer;
+  model: SubwordModel;
+  /** Token IDs added before the text, e.g. [CLS] or <s> */
+  prefixIds: number[];
+  /** Token IDs added after the text, e.g. [SEP] or </s> */
+  suffixIds: number[];
+  /** Token ID used for padding */
+  padId: number;
+  /** Layout of a text pair, e.g. [CLS] A [SEP] B [SEP]; by default both texts are wrapped like single texts */
+  pairTemplate?: PairTemplatePiece[];
+}
+
+/**
+ * Layout of a text pair for BERT models: [CLS] A [SEP] B [SEP], with type ID 1 for the second text
+ */
+function bertPairTemplate(clsId: number, sepId: number): PairTemplatePiece[] {
+  return [
+    { ids: [clsId], typeId: 0 },
+    { sequence: 0, typeId: 0 },
+    { ids: [sepId], typeId: 0 },
+    { sequence: 1, typeId: 1 },
+    { ids: [sepId], typeId: 1 },
+  ];
+}
+
+/**
+ * Options of a BERT tokenizer built from vocab.txt
+ */
+export interface WordPieceVocabOptions {
+  /** Lowercase the text, as uncased models expect (default: true) */
+  lowercase?: boolean;
+  /** Remove accents; defaults to the value of lowercase, as in BERT */
+  stripAccents?: boolean;
+}
+
+/**
+ * Text tokenizer of a transformer model
+ */
+export class Tokenizer {
+  private readonly pipeline: TokenizerPipeline;
+
+  /**
+   * Constructor
+   * @param pipeline Tokenizer parts
+   */
+  constructor(pipeline: TokenizerPipeline) {
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Token ID used for padding
+   */
+  get padId(): number {
+    return this.pipeline.padId;
+  }
+
+  /**
+   * Convert text into token IDs without special tokens
+   * @param text Text to tokenize
+   */
+  tokenize(text: string): number[] {
+    const { normalizer, preTokenizer, model } = this.pipeline;
+    return preTokenizer(normalizer(text)).flatMap((word) => model.tokenize(word));
+  }
+
+  /**
+   * Convert text into model input, wrapped in special tokens
+   * @param text Text to encode
+   * @param maxLength Maximum number of tokens including special tokens; longer texts are truncated
+   * @returns Token IDs with attention mask and type IDs, without padding
+   */
+  encode(text: string, maxLength = Infinity): EncodedText {
+    const { prefixIds, suffixIds } = this.pipeline;
+    const textIds = this.tokenize(text).slice(
+      0,
+      Math.max(0, maxLength - prefixIds.length - suffixIds.length)
+    );
+    const ids = [...prefixIds, ...textIds, ...suffixIds];
+    return {
+      ids,
+      attentionMask: ids.map(() => 1),
+      typeIds: ids.map(() => 0),
+    };
+  }
+
+  /**
+   * Convert a text pair into model input, e.g. a query and a passage for a cross-encoder
+   * @param first First text
+   * @param second Second text
+   * @param maxLength Maximum number of tokens including special tokens; the longer text is truncated first
+   * @returns Token IDs with attention mask and type IDs, without padding
+   */
+  encodePair(first: string, second: string, maxLength = Infinity): EncodedText {
+    const { prefixIds, suffixIds } = this.pipeline;
+    const template = this.pipeline.pairTemplate || [
+      { ids: prefixIds, typeId: 0 },
+      { sequence: 0, typeId: 0 },
+      { ids: [...suffixIds, ...prefixIds], typeId: 0 },
+      { sequence: 1, typeId: 0 },
+      { ids: suffixIds, typeId: 0 },
+    ];
+
+    const texts = [this.tokenize(first), this.tokenize(second)];
+    const specialCount = template.reduce((sum, piece) => sum + (piece.ids?.length || 0), 0);
+    let excess = texts[0].length + texts[1].length - Math.max(0, maxLength - specialCount);
+    while (excess > 0) {
+      texts[texts[0].length >= texts[1].length ? 0 : 1].pop();
+      excess--;
+    }
+
+    const encoded: EncodedText = { ids: [], attentionMask: [], typeIds: [] };
+    for (const piece of template) {
+      const ids = piece.sequence !== undefined ? texts[piece.sequence] : piece.ids || [];
+      for (const id of ids) {
+        encoded.ids.push(id);
+        encoded.attentionMask.push(1);
+        encoded.typeIds.push(piece.typeId);
+      }
+    }
+    return encoded;
+  }
+}
+
+/**
+ * Check whether a character is a CJK ideograph, which BERT treats as a word of its own
+ * Hangul and kana are not included, as in BERT
+ */
+function isChineseChar(codePoint: number): boolean {
+  return (
+    (codePoint >= 0x4e00 && codePoint <= 0x9fff) ||
+    (codePoint >= 0x3400 && codePoint <= 0x4dbf) ||
+    (codePoint >= 0x20000 && codePoint <= 0x2a6df) ||
+    (codePoint >= 0x2a700 && codePoint <= 0x2b73f) ||
+    (codePoint >= 0x2b740 && codePoint <= 0x2b81f) ||
+    (codePoint >= 0x2b820 && codePoint <= 0x2ceaf) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0x2f800 && codePoint <= 0x2fa1f)
+  );
+}
+
+/**
+ * Check whether a character is punctuation in BERT's sense, which includes all ASCII symbols
+ */
+function isPunctuation(char: string): boolean {
+  const codePoint = char.codePointAt(0)!;
+  return (
+    (codePoint >= 33 && codePoint <= 47) ||
+    (codePoint >= 58 && codePoint <= 64) ||
+    (codePoint >= 91 && codePoint <= 96) ||
+    (codePoint >= 123 && codePoint <= 126) ||
+    /\p{P}/u.test(char)
+  );
+}
+
+/**
+ * Create the normalizer of BERT models
+ */
+function createBertNormalizer(options: {
+  cleanText?: boolean;
+  handleChineseChars?: boolean;
+  stripAccents?: boolean;
+  lowercase?: boolean;
+}): Normalizer {
+  const lowercase = options.lowercase ?? true;
+  const stripAccents = options.stripAccents ?? lowercase;
+
+  return (text) => {
+    let normalized = '';
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      if (options.cleanText !== false) {
+        if (codePoint === 0 || codePoint === 0xfffd) {
+          continue;
+        }
+        if (/\s/.test(char)) {
+          normalized += ' ';
+          continue;
+        }
+        if (/[\p{Cc}\p{Cf}]/u.test(char)) {
+          continue;
+        }
+      }
+      normalized +=
+        options.handleChineseChars !== false && isChineseChar(codePoint) ? ` ${char} ` : char;
+    }
+
+    if (stripAccents) {
+      normalized = normalized.normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+    return lowercase ? normalized.toLowerCase() : normalized;
+  };
+}
+
+/**
+ * Split text on whitespace and make every punctuation character a word of its own, as BERT does
+ */
+function bertPreTokenize(text: string): string[] {
+  const words: string[] = [];
+  for (const token of text.split(/\s+/)) {
+    let word = '';
+    for (const char of token) {
+      if (isPunctuation(char)) {
+        if (word) words.push(word);
+        words.push(char);
+        word = '';
+      } else {
+        word += char;
+      }
+    }
+    if (word) words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Create the pre-tokenizer of SentencePiece models, which marks word starts with ▁
+ * @param replacement Character standing for a space
+ * @param addPrefixSpace Mark the first word as well
+ */
+function createMetaspacePreTokenizer(replacement: string, addPrefixSpace: boolean): PreTokenizer {
+  return (text) =>
+    text
+      .split(/ +/)
+      .filter(Boolean)
+      .map((word, index) =>
+        index > 0 || addPrefixSpace || text.startsWith(' ') ? replacement + word : word
+      );
+}
+
+/**
+ * WordPiece model splitting words greedily into the longest known pieces
+ */
+class WordPieceModel implements SubwordModel {
+  constructor(
+    private readonly vocab: Map<string, number>,
+    private readonly unkId: number,
+    private readonly continuingSubwordPrefix = '##',
+    private readonly maxInputCharsPerWord = DEFAULT_MAX_INPUT_CHARS_PER_WORD
+  ) {}
+
+  tokenize(word: string): number[] {
+    const chars = Array.from(word);
+    if (chars.length > this.maxInputCharsPerWord) {
+      return [this.unkId];
+    }
+
+    const ids: number[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let id: number | undefined;
+      while (start < end) {
+        const piece = chars.slice(start, end).join('');
+        id = this.vocab.get(start > 0 ? this.continuingSubwordPrefix + piece : piece);
+        if (id !== undefined) {
+          break;
+        }
+        end--;
+      }
+      // A word with any part missing from the vocabulary becomes a single unknown token
+      if (id === undefined) {
+        return [this.unkId];
+      }
+      ids.push(id);
+      start = end;
+    }
+    return ids;
+  }
+}
+
+/**
+ * SentencePiece Unigram model picking the segmentation with the highest total piece score
+ */
+class UnigramModel implements SubwordModel {
+  private readonly pieces = new Map<string, { id: number; score: number }>();
+  private readonly maxPieceLength: number;
+  private readonly unknownScore: number;
+
+  constructor(
+    vocab: Array<[string, number]>,
+    private readonly unkId: number
+  ) {
+    let maxPieceLength = 1;
+    let minScore = Infinity;
+    vocab.forEach(([piece, score], id) => {
+      this.pieces.set(piece, { id, score });
+      maxPieceLength = Math.max(maxPieceLength, Array.from(piece).length);
+      minScore = Math.min(minScore, score);
+    });
+    this.maxPieceLength = maxPieceLength;
+    this.unknownScore = (Number.isFinite(minScore) ? minScore : 0) - UNIGRAM_UNKNOWN_PENALTY;
+  }
+
+  tokenize(word: string): number[] {
+    const chars = Array.from(word);
+    // Best segmentation of the first n characters: its score, last piece and where that piece starts
+    const best: Array<{ score: number; id: number; start: number } | undefined> = [
+      { score: 0, id: -1, start: 0 },
+    ];
+
+    for (let start = 0; start < chars.length; start++) {
+      const from = best[start];
+      if (!from) {
+        continue;
+      }
+
+      let hasSingleChar = false;
+      for (let end = start + 1; end <= Math.min(chars.length, start + this.maxPieceLength); end++) {
+        const piece = this.pieces.get(chars.slice(start, end).join(''));
+        if (!piece) {
+          continue;
+        }
+        hasSingleChar = hasSingleChar || end === start + 1;
+        const score = from.score + piece.score;
+        if (!best[end] || score > best[end]!.score) {
+          best[end] = { score, id: piece.id, start };
+        }
+      }
+
+      if (!hasSingleChar) {
+        const score = from.score + this.unknownScore;
+        if (!best[start + 1] || score > best[start + 1]!.score) {
+          best[start + 1] = { score, id: this.unkId, start };
+        }
+      }
+    }
+
+    const ids: number[] = [];
+    for (let end = chars.length; end > 0; end = best[end]!.start) {
+      const id = best[end]!.id;
+      // Consecutive unknown characters become one unknown token
+      if (!(id === this.unkId && ids[ids.length - 1] === this.unkId)) {
+        ids.push(id);
+      }
+    }
+    return ids.reverse();
+  }
+}
+
+/**
+ * Read a vocab.txt file, one token per line with the line number as its ID
+ */
+function parseVocab(content: string): Map<string, number> {
+  const vocab = new Map<string, number>();
+  content.split(/\r?\n/).forEach((token, id) => token && !vocab.has(token) && vocab.set(token, id));
+  return vocab;
+}
+
+/**
+ * Look up the ID of a required token
+ * @throws Error if the vocabulary lacks the token
+ */
+function requireTokenId(vocab: Map<string, number>, token: string): number {
+  const id = vocab.get(token);
+  if (id === undefined) {
+    throw new Error(`Tokenizer vocabulary has no ${token} token`);
+  }
+  return id;
+}
+
+/**
+ * Create a BERT tokenizer from the content of a vocab.txt file
+ * @param vocabContent Content of vocab.txt
+ * @param options Casing options
+ * @returns Tokenizer wrapping texts in [CLS] and [SEP]
+ */
+export function createWordPieceTokenizer(
+  vocabContent: string,
+  options: WordPieceVocabOptions = {}
+): Tokenizer {
+  const vocab = parseVocab(vocabContent);
+  return new Tokenizer({
+    normalizer: createBertNormalizer({
+      lowercase: options.lowercase,
+      stripAccents: options.stripAccents,
+    }),
+    preTokenizer: bertPreTokenize,
+    model: new WordPieceModel(vocab, requireTokenId(vocab, '[UNK]')),
+    prefixIds: [requireTokenId(vocab, '[CLS]')],
+    suffixIds: [requireTokenId(vocab, '[SEP]')],
+    padId: vocab.get('[PAD]') ?? 0,
+    pairTemplate: bertPairTemplate(requireTokenId(vocab, '[CLS]'), requireTokenId(vocab, '[SEP]')),
+  });
+}
+
+/**
+ * Loosely typed component of tokenizer.json
+ */
+type JsonComponent = { type?: string; [key: string]: unknown } | null | undefined;
+
+/**
+ * Apply SentencePiece's nmt_nfkc normalization: NFKC plus the rules it adds for
+ * machine translation
+ * @param text Text to normalize
+ * @returns Normalized text
+ */
+function normalizeNmtNfkc(text: string): string {
+  return text
+    .replace(/\p{Cc}/gu, (char) => (NMT_REMOVED_CODE_POINTS.has(char.charCodeAt(0)) ? '' : char))
+    .replace(NMT_SPACE_CHARS, ' ')
+    .split(FULLWIDTH_TILDE)
+    .map((part) => part.normalize('NFKC'))
+    .join(FULLWIDTH_TILDE);
+}
+
+/**
+ * Build a normalizer from its tokenizer.json definition
+ * The Precompiled normalizer is reproduced with the nmt_nfkc rules SentencePiece models such as
+ * XLM-R are built with instead of reading its character map, so models trained with a custom
+ * normalization rule may see different token IDs for the characters that rule changes
+ */
+function parseNormalizer(definition: JsonComponent): Normalizer {
+  if (!definition) {
+    return (text) => text;
+  }
+
+  switch (definition.type) {
+    case 'Sequence': {
+      const normalizers = ((definition.normalizers as JsonComponent[]) || []).map(parseNormalizer);
+      return (text) => normalizers.reduce((current, normalize) => normalize(current), text);
+    }
+    case 'BertNormalizer':
+      return createBertNormalizer({
+        cleanText: definition.clean_text as boolean | undefined,
+        handleChineseChars: definition.handle_chinese_chars as boolean | undefined,
+        stripAccents: (definition.strip_accents as boolean | null) ?? undefined,
+        lowercase: definition.lowercase as boolean | undefined,
+      });
+    case 'Precompiled':
+      return normalizeNmtNfkc;
+    case 'NFKC':
+      return (text) => text.normalize('NFKC');
+    case 'NFC':
+    case 'NFD':
+    case 'NFKD':
+      return (text) => text.normalize(definition.type as string);
+    case 'Lowercase':
+      return (text) => text.toLowerCase();
+    case 'StripAccents':
+      return (text) => text.replace(/\p{Mn}/gu, '');
+    case 'Strip': {
+      const left = definition.left !== false;
+      const right = definition.right !== false;
+      return (text) => {
+        const stripped = left ? text.replace(/^\s+/, '') : text;
+        return right ? stripped.replace(/\s+$/, '') : stripped;
+      };
+    }
+    case 'Replace': {
+      const pattern = definition.pattern as { String?: string; Regex?: string };
+      const content = String(definition.content ?? '');
+      const regex =
+        pattern.Regex !== undefined
+          ? new RegExp(pattern.Regex, 'gu')
+          : new RegExp((pattern.String || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
+      return (text) => text.replace(regex, content);
+    }
+    case 'Prepend':
+      return (text) => (text ? String(definition.prepend ?? '') + text : text);
+    default:
+      throw new Error(`Unsupported tokenizer normalizer: ${definition.type}`);
+  }
+}
+
+/**
+ * Build a pre-tokenizer from its tokenizer.json definition
+ */
+function parsePreTokenizer(definition: JsonComponent): PreTokenizer {
+  if (!definition) {
+    return (text) => [text];
+  }
+
+  switch (definition.type) {
+    case 'Sequence': {
+      const preTokenizers = ((definition.pretokenizers as JsonComponent[]) || []).map(
+        parsePreTokenizer
+      );
+      return (text) =>
+        preTokenizers.reduce<string[]>(
+          (words, preTokenize) => words.flatMap((word) => preTokenize(word)),
+          [text]
+        );
+    }
+    case 'BertPreTokenizer':
+      return bertPreTokenize;
+    case 'WhitespaceSplit':
+      return (text) => text.split(/\s+/).filter(Boolean);
+    case 'Metaspace': {
+      const replacement = String(definition.replacement ?? METASPACE);
+      const addPrefixSpace =
+        definition.prepend_scheme !== undefined
+          ? definition.prepend_scheme !== 'never'
+          : definition.add_prefix_space !== false;
+      return createMetaspacePreTokenizer(replacement, addPrefixSpace);
+    }
+    default:
+      throw new Error(`Unsupported tokenizer pre-tokenizer: ${definition.type}`);
+  }
+}
+
+/**
+ * Piece of a TemplateProcessing template in tokenizer.json
+ */
+type JsonTemplatePiece = {
+  SpecialToken?: { id: string; type_id?: number };
+  Sequence?: { id: string; type_id?: number };
+};
+
+/**
+ * Read the special tokens a post-processor wraps a single text and a text pair in
+ */
+function parsePostProcessor(
+  definition: JsonComponent,
+  tokenId: (token: string) => number
+): { prefixIds: number[]; suffixIds: number[]; pairTemplate?: PairTemplatePiece[] } {
+  if (!definition) {
+    return { prefixIds: [], suffixIds: [] };
+  }
+
+  switch (definition.type) {
+    case 'BertProcessing': {
+      const [, clsId] = definition.cls as [string, number];
+      const [, sepId] = definition.sep as [string, number];
+      return {
+        prefixIds: [clsId],
+        suffixIds: [sepId],
+        pairTemplate: bertPairTemplate(clsId, sepId),
+      };
+    }
+    case 'RobertaProcessing': {
+      // Pairs are joined as <s> A </s></s> B </s>
+      const [, clsId] = definition.cls as [string, number];
+      const [, sepId] = definition.sep as [string, number];
+      return { prefixIds: [clsId], suffixIds: [sepId] };
+    }
+    case 'TemplateProcessing': {
+      const specialTokens = (definition.special_tokens || {}) as Record<string, { ids: number[] }>;
+      const specialIds = (token: string) => specialTokens[token]?.ids || [tokenId(token)];
+      const template = definition.single as JsonTemplatePiece[];
+      const prefixIds: number[] = [];
+      const suffixIds: number[] = [];
+      let seenSequence = false;
+      for (const piece of template) {
+        if (piece.Sequence) {
+          seenSequence = true;
+        } else if (piece.SpecialToken) {
+          (seenSequence ? suffixIds : prefixIds).push(...specialIds(piece.SpecialToken.id));
+        }
+      }
+      const pair = definition.pair as JsonTemplatePiece[] | undefined;
+      const pairTemplate = pair?.map(
+        (piece): PairTemplatePiece =>
+          piece.Sequence
+            ? { sequence: piece.Sequence.id === 'B' ? 1 : 0, typeId: piece.Sequence.type_id ?? 0 }
+            : {
+                ids: piece.SpecialToken ? specialIds(piece.SpecialToken.id) : [],
+                typeId: piece.SpecialToken?.type_id ?? 0,
+              }
+      );
+      return { prefixIds, suffixIds, ...(pairTemplate ? { pairTemplate } : {}) };
+    }
+    case 'Sequence': {
+      const processors = (definition.processors as JsonComponent[]) || [];
+      const wrapping = processors.find((processor) => processor?.type !== 'ByteLevel');
+      return parsePostProcessor(wrapping, tokenId);
+    }
+    default:
+      throw new Error(`Unsupported tokenizer post-processor: ${definition.type}`);
+  }
+}
+
+/**
+ * Create a tokenizer from the content of a Hugging Face tokenizer.json file
+ * @param json Parsed tokenizer.json
+ * @returns Tokenizer for WordPiece or Unigram models
+ * @throws Error for other models or unsupported components
+ */
+export function parseTokenizerJson(json: Record<string, unknown>): Tokenizer {
+  const modelDefinition = json.model as JsonComponent;
+  let model: SubwordModel;
+  let tokenId: (token: string) => number;
+  let defaultPadToken: string;
+
+  if (modelDefinition?.type === 'WordPiece') {
+    const vocab = new Map(Object.entries(modelDefinition.vocab as Record<string, number>));
+    tokenId = (token) => requireTokenId(vocab, token);
+    model = new WordPieceModel(
+      vocab,
+      tokenId(String(modelDefinition.unk_token ?? '[UNK]')),
+      String(modelDefinition.continuing_subword_prefix ?? '##'),
+      Number(modelDefinition.max_input_chars_per_word ?? DEFAULT_MAX_INPUT_CHARS_PER_WORD)
+    );
+    defaultPadToken = '[PAD]';
+  } else if (modelDefinition?.type === 'Unigram') {
+    const pieces = modelDefinition.vocab as Array<[string, number]>;
+    const vocab = new Map(pieces.map(([piece], id): [string, number] => [piece, id]));
+    tokenId = (token) => requireTokenId(vocab, token);
+    model = new UnigramModel(pieces, Number(modelDefinition.unk_id ?? 0));
+    defaultPadToken = '<pad>';
+  } else {
+    throw new Error(`Unsupported tokenizer model: ${modelDefinition?.type}`);
+  }
+
+  const padding = json.padding as { pad_id?: number } | null | undefined;
+  let padId = padding?.pad_id;
+  if (padId === undefined) {
+    try {
+      padId = tokenId(defaultPadToken);
+    } catch (error) {
+      padId = 0;
+    }
+  }
+
+  return new Tokenizer({
+    normalizer: parseNormalizer(json.normalizer as JsonComponent),
+    preTokenizer: parsePreTokenizer(json.pre_tokenizer as JsonComponent),
+    model,
+    ...parsePostProcessor(json.post_processor as JsonComponent, tokenId),
+    padId,
+  });
+}
+
+/**
+ * Load the tokenizer stored next to a model
+ * tokenizer.json is preferred; a BERT vocab.txt is used otherwise, with the casing of
+ * tokenizer_config.json if present
+ * @param directory Directory holding the tokenizer files
+ * @returns Tokenizer of the model
+ * @throws Error if the directory holds no tokenizer
+ */
+export function loadTokenizer(directory: string): Tokenizer {
+  const tokenizerJsonPath = path.join(directory, 'tokenizer.json');
+  if (fs.existsSync(tokenizerJsonPath)) {
+    return parseTokenizerJson(JSON.parse(fs.readFileSync(tokenizerJsonPath, 'utf8')));
+  }
+
+  const vocabPath = path.join(directory, 'vocab.txt');
+  if (fs.existsSync(vocabPath)) {
+    const configPath = path.join(directory, 'tokenizer_config.json');
+    const config = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath, 'utf8')) : {};
+    return createWordPieceTokenizer(fs.readFileSync(vocabPath, 'utf8'), {
+      lowercase: config.do_lower_case,
+      stripAccents: config.strip_accents ?? undefined,
+    });
+  }
+
+  throw new Error(`Tokenizer not found in ${directory}: expected tokenizer.json or vocab.txt`);
+}
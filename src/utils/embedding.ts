@@ -1,13 +1,38 @@
 import path from 'path';
 import fs from 'fs';
 import * as ort from 'onnxruntime-node';
+import { ProgressCallback } from '../domain/types';
+import { EncodedText, Tokenizer, loadTokenizer } from './embedding-tokenizer';
 
-interface EmbeddingOptions {
+/**
+ * Length of the vectors produced by the bundled MiniLM model
+ */
+export const DEFAULT_EMBEDDING_DIMENSIONS = 384;
+
+/**
+ * Version of the tokenization applied before inference
+ * Bump it whenever tokenizeText changes, so vectors built with the old tokenization are detected as stale
+ */
+const TOKENIZATION_VERSION = 2;
+
+const DEFAULT_EMBEDDING_BATCH_SIZE = 16;
+/** Maximum number of texts run through the ONNX model at once */
+const DEFAULT_INFERENCE_BATCH_SIZE = 32;
+
+/**
+ * Options of the ONNX embedding model
+ */
+export interface EmbeddingOptions {
   modelPath?: string;
+  /** Directory with the model's tokenizer.json or vocab.txt (default: the model's directory) */
+  tokenizerPath?: string;
   quantized?: boolean;
-  useFallback?: boolean;
   tokenizerModelId?: string;
+  /** Length of the vectors the model produces (default: 384) */
+  dimensions?: number;
   maxSeqLength?: number;
+  /** Maximum number of texts run through the model at once (default: 32) */
+  batchSize?: number;
 }
 
 interface EmbeddingResult {
@@ -16,37 +41,57 @@ interface EmbeddingResult {
 
 interface EmbeddingModel {
   generate: (
-    text: string,
+    texts: string[],
     options: { pooling: 'mean' | 'none' | 'cls'; normalize: boolean }
-  ) => Promise<EmbeddingResult>;
+  ) => Promise<EmbeddingResult[]>;
+}
+
+/**
+ * Source of text embeddings used by the vector repository
+ */
+export interface EmbeddingProvider {
+  /** Identifies the model and preprocessing; vectors from different models are not comparable */
+  readonly modelId: string;
+  /** Length of the generated vectors */
+  readonly dimensions: number;
+  /** Generate an embedding vector for a text */
+  getEmbedding(text: string): Promise<number[]>;
+  /** Generate embedding vectors for several texts in one call, if the provider supports it */
+  getEmbeddings?(texts: string[]): Promise<number[][]>;
+  /** Load the model; throws if the provider can't be used */
+  ensureInitialized?(): Promise<void>;
+  /** Release resources held by the provider */
+  close?(): Promise<void>;
 }
 
 /**
  * Utility class for generating and managing embeddings using ONNX Runtime
  */
-export class EmbeddingUtil {
+export class EmbeddingUtil implements EmbeddingProvider {
   private static _instance: EmbeddingUtil;
   private readonly _options: EmbeddingOptions;
   private readonly _maxSeqLength: number;
   private _model: EmbeddingModel | null = null;
   private _session: ort.InferenceSession | null = null;
+  private _tokenizer: Tokenizer | null = null;
   private _initialized: boolean = false;
   private _isInitializing: boolean = false;
-  private _vocabCache: Map<string, number> = new Map();
-  private _nextTokenId = 1; // Start from 1, reserve 0 for padding
-  private SPECIAL_TOKENS_REGEX = /[^a-zA-Z0-9\s]/g;
 
   /**
    * Creates a new EmbeddingUtil instance
+   * Use getInstance for the shared default model
+   * @param options Model file, tokenizer and vector length
    */
-  private constructor(options: EmbeddingOptions) {
+  constructor(options: EmbeddingOptions = {}) {
     this._options = {
       modelPath: options.modelPath || './models/model.onnx',
+      tokenizerPath: options.tokenizerPath,
       quantized: options.quantized !== false,
-      useFallback: options.useFallback !== false,
+      dimensions: options.dimensions || DEFAULT_EMBEDDING_DIMENSIONS,
       tokenizerModelId:
         options.tokenizerModelId || 'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2',
       maxSeqLength: options.maxSeqLength || 128,
+      batchSize: options.batchSize || DEFAULT_INFERENCE_BATCH_SIZE,
     };
     this._maxSeqLength = this._options.maxSeqLength || 128;
   }
@@ -60,7 +105,6 @@ export class EmbeddingUtil {
         options || {
           modelPath: './models/model.onnx',
           quantized: true,
-          useFallback: true,
           tokenizerModelId: 'sentence-transformers/paraphrase-multilingual-MiniLM-L12-v2',
           maxSeqLength: 128,
         }
@@ -69,6 +113,21 @@ export class EmbeddingUtil {
     return EmbeddingUtil._instance;
   }
 
+  /**
+   * Identifies the model file, tokenizer and tokenization version
+   */
+  public get modelId(): string {
+    const modelFile = path.basename(this._options.modelPath || './models/model.onnx');
+    return `${this._options.tokenizerModelId}/${modelFile}#tokenization-v${TOKENIZATION_VERSION}`;
+  }
+
+  /**
+   * Returns the length of the generated vectors
+   */
+  public get dimensions(): number {
+    return this._options.dimensions || DEFAULT_EMBEDDING_DIMENSIONS;
+  }
+
   /**
    * Returns whether the embedding model is initialized
    */
@@ -94,88 +153,14 @@ export class EmbeddingUtil {
   }
 
   /**
-   * Enhanced tokenization that uses subword segmentation
-   */
-  private tokenizeText(text: string): { ids: number[]; mask: number[]; typeIds: number[] } {
-    // Preprocess text
-    const normalizedText = text.toLowerCase().trim();
-
-    // Split into words and punctuation
-    const words = normalizedText
-      .split(/(\s+|[,.!?;:'"(){}[\]-])/g)
-      .filter((s) => s.trim().length > 0);
-
-    // Apply subword tokenization
-    const tokens = this.applySubwordTokenization(words);
-
-    // Convert tokens to IDs
-    const ids = this.convertTokensToIds(tokens);
-
-    // Create attention mask and token type IDs
-    const mask = Array(ids.length).fill(1);
-    const typeIds = Array(ids.length).fill(0);
-
-    // Pad sequences if necessary
-    return this.padSequence(ids, mask, typeIds);
-  }
-
-  /**
-   * Apply subword tokenization to words
+   * Tokenize text with the model's tokenizer, truncated to the maximum sequence length
    */
-  private applySubwordTokenization(words: string[]): string[] {
-    const tokens: string[] = [];
-    for (const word of words) {
-      if (word.length > 4) {
-        // Split longer words into subwords
-        for (let i = 0; i <= word.length - 3; i += 3) {
-          const end = Math.min(i + 3, word.length);
-          tokens.push(word.substring(i, end));
-        }
-      } else {
-        tokens.push(word);
-      }
+  private tokenizeText(text: string): EncodedText {
+    if (!this._tokenizer) {
+      throw new Error('Tokenizer not initialized');
     }
-    return tokens;
-  }
 
-  /**
-   * Convert tokens to IDs using vocabulary cache
-   */
-  private convertTokensToIds(tokens: string[]): number[] {
-    const ids: number[] = [];
-    for (const token of tokens) {
-      if (!this._vocabCache.has(token)) {
-        this._vocabCache.set(token, this._nextTokenId++);
-      }
-      ids.push(this._vocabCache.get(token) as number);
-    }
-    return ids;
-  }
-
-  /**
-   * Pad sequence to fixed length
-   */
-  private padSequence(
-    ids: number[],
-    mask: number[],
-    typeIds: number[]
-  ): { ids: number[]; mask: number[]; typeIds: number[] } {
-    // Truncate if too long
-    if (ids.length > this._maxSeqLength) {
-      ids.length = this._maxSeqLength;
-      mask.length = this._maxSeqLength;
-      typeIds.length = this._maxSeqLength;
-    }
-
-    // Pad if necessary
-    const padLength = this._maxSeqLength - ids.length;
-    if (padLength > 0) {
-      ids.push(...Array(padLength).fill(0));
-      mask.push(...Array(padLength).fill(0));
-      typeIds.push(...Array(padLength).fill(0));
-    }
-
-    return { ids, mask, typeIds };
+    return this._tokenizer.encode(text, this._maxSeqLength);
   }
 
   /**
@@ -204,6 +189,11 @@ export class EmbeddingUtil {
         throw new Error(`Model file not found at: ${absolutePath}`);
       }
 
+      // The tokenizer has to match the model, so a missing one is an error rather than a guess
+      this._tokenizer = loadTokenizer(
+        path.resolve(this._options.tokenizerPath || path.dirname(absolutePath))
+      );
+
       console.log(`Loading ONNX model from: ${absolutePath}`);
 
       // Create ONNX Runtime session
@@ -212,7 +202,7 @@ export class EmbeddingUtil {
       // Create embedding model interface
       this._model = {
         generate: async (
-          text: string,
+          texts: string[],
           options: { pooling: 'mean' | 'none' | 'cls'; normalize: boolean }
         ) => {
           if (!this._session) {
@@ -220,24 +210,26 @@ export class EmbeddingUtil {
           }
 
           try {
-            // Tokenize input text
-            const { ids, mask, typeIds } = this.tokenizeText(text);
+            // Tokenize input texts
+            const batch = texts.map((text) => this.tokenizeText(text));
 
-            // Prepare input tensors
-            const feeds = this.prepareInputTensors(ids, mask, typeIds);
+            // Prepare input tensors, padded to the longest text of the batch
+            const feeds = createInputFeeds(
+              batch,
+              this._tokenizer?.padId ?? 0,
+              this._session.inputNames
+            );
 
-            // Run inference
+            // Run inference once for the whole batch
             const results = await this._session.run(feeds);
 
             // Process results based on pooling option
-            let embeddingData = this.processResults(results, options.pooling);
-
-            // Normalize if requested
-            if (options.normalize) {
-              embeddingData = this.normalizeVector(embeddingData);
-            }
-
-            return { data: embeddingData };
+            return this.processResults(results, options.pooling, batch.length).map(
+              (embeddingData) => ({
+                // Normalize if requested
+                data: options.normalize ? this.normalizeVector(embeddingData) : embeddingData,
+              })
+            );
           } catch (error) {
             console.error('Error generating embedding:', error);
             throw error;
@@ -255,59 +247,41 @@ export class EmbeddingUtil {
     }
   }
 
-  /**
-   * Prepare input tensors for ONNX Runtime
-   */
-  private prepareInputTensors(
-    ids: number[],
-    mask: number[],
-    typeIds: number[]
-  ): Record<string, ort.Tensor> {
-    return {
-      input_ids: new ort.Tensor('int64', new BigInt64Array(ids.map((id) => BigInt(id))), [
-        1,
-        ids.length,
-      ]),
-      attention_mask: new ort.Tensor('int64', new BigInt64Array(mask.map((m) => BigInt(m))), [
-        1,
-        mask.length,
-      ]),
-      token_type_ids: new ort.Tensor('int64', new BigInt64Array(typeIds.map((id) => BigInt(id))), [
-        1,
-        typeIds.length,
-      ]),
-    };
-  }
-
   /**
    * Process model results based on pooling option
+   * @returns One embedding per input of the batch
    */
   private processResults(
     results: Record<string, ort.Tensor>,
-    pooling: 'mean' | 'none' | 'cls'
-  ): number[] {
-    if (pooling === 'cls') {
-      // Use CLS token embedding (first token)
-      const tokenEmbeddings = results['token_embeddings'];
-      if (!tokenEmbeddings || !tokenEmbeddings.data) {
-        throw new Error('Missing token_embeddings data');
-      }
-      return this.convertTensorData(tokenEmbeddings).slice(0, tokenEmbeddings.dims[2]);
-    } else if (pooling === 'mean') {
+    pooling: 'mean' | 'none' | 'cls',
+    batchSize: number
+  ): number[][] {
+    if (pooling === 'mean') {
       // Use sentence embedding which is already mean-pooled
       const sentenceEmbedding = results['sentence_embedding'];
       if (!sentenceEmbedding || !sentenceEmbedding.data) {
         throw new Error('Missing sentence_embedding data');
       }
-      return this.convertTensorData(sentenceEmbedding);
-    } else {
-      // Return all token embeddings (no pooling)
-      const tokenEmbeddings = results['token_embeddings'];
-      if (!tokenEmbeddings || !tokenEmbeddings.data) {
-        throw new Error('Missing token_embeddings data');
-      }
-      return this.convertTensorData(tokenEmbeddings);
+      return this.splitRows(this.convertTensorData(sentenceEmbedding), batchSize);
+    }
+
+    const tokenEmbeddings = results['token_embeddings'];
+    if (!tokenEmbeddings || !tokenEmbeddings.data) {
+      throw new Error('Missing token_embeddings data');
     }
+    const rows = this.splitRows(this.convertTensorData(tokenEmbeddings), batchSize);
+    // Use CLS token embedding (first token), or return all token embeddings (no pooling)
+    return pooling === 'cls' ? rows.map((row) => row.slice(0, tokenEmbeddings.dims[2])) : rows;
+  }
+
+  /**
+   * Split the flat data of a batched tensor into one row per input
+   */
+  private splitRows(data: number[], batchSize: number): number[][] {
+    const rowLength = data.length / batchSize;
+    return Array.from({ length: batchSize }, (_row, row) =>
+      data.slice(row * rowLength, (row + 1) * rowLength)
+    );
   }
 
   /**
@@ -364,29 +338,46 @@ export class EmbeddingUtil {
    * Generate embedding for text
    */
   public async generateEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
+  }
+
+  /**
+   * Generate embeddings for several texts with batched inference
+   * Texts are sorted by length first, so each batch holds texts of similar length and needs little padding
+   * @param texts Texts to embed
+   * @returns Embeddings in the order of the texts
+   */
+  public async generateEmbeddings(texts: string[]): Promise<number[][]> {
     await this.ensureInitialized();
 
-    if (!this._model) {
+    const model = this._model;
+    if (!model) {
       throw new Error('Embedding model not initialized');
     }
 
-    const result = await this._model.generate(text, {
-      pooling: 'mean',
-      normalize: true,
-    });
+    const order = texts
+      .map((_text, position) => position)
+      .sort((a, b) => texts[a].length - texts[b].length);
+    const batchSize = this._options.batchSize || DEFAULT_INFERENCE_BATCH_SIZE;
+    const embeddings: number[][] = new Array(texts.length);
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const positions = order.slice(start, start + batchSize);
+      const results = await model.generate(
+        positions.map((position) => texts[position]),
+        { pooling: 'mean', normalize: true }
+      );
 
-    if (!result?.data) {
-      throw new Error('Invalid embedding result format');
+      results.forEach((result, row) => {
+        if (!result?.data) {
+          throw new Error('Invalid embedding result format');
+        }
+        embeddings[positions[row]] = Array.from(result.data);
+      });
     }
 
-    // 결과 데이터 처리
-    if (result.data instanceof Float32Array) {
-      return Array.from(result.data);
-    } else if (Array.isArray(result.data)) {
-      return result.data;
-    } else {
-      return Array.from(result.data as unknown as ArrayLike<number>);
-    }
+    return embeddings;
   }
 
   /**
@@ -396,6 +387,13 @@ export class EmbeddingUtil {
     return this.generateEmbedding(text);
   }
 
+  /**
+   * Alias for generateEmbeddings
+   */
+  public async getEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.generateEmbeddings(texts);
+  }
+
   /**
    * Close the session and release resources
    */
@@ -405,7 +403,7 @@ export class EmbeddingUtil {
         // Clear references
         this._model = null;
         this._session = null;
-        this._vocabCache.clear();
+        this._tokenizer = null;
         this._initialized = false;
         this._isInitializing = false;
       } catch (error) {
@@ -416,4 +414,96 @@ export class EmbeddingUtil {
   }
 }
 
+/**
+ * Pad a sequence to a length; padding is masked out, so it doesn't change the model output
+ */
+function padSequence(encoded: EncodedText, length: number, padId: number): EncodedText {
+  const padLength = Math.max(0, length - encoded.ids.length);
+  return {
+    ids: [...encoded.ids, ...Array(padLength).fill(padId)],
+    attentionMask: [...encoded.attentionMask, ...Array(padLength).fill(0)],
+    typeIds: [...encoded.typeIds, ...Array(padLength).fill(0)],
+  };
+}
+
+/**
+ * Prepare input tensors of a transformer model for ONNX Runtime
+ * Sequences are padded to the longest one of the batch instead of the maximum sequence length
+ * @param batch Encoded texts
+ * @param padId Token ID used for padding
+ * @param inputNames Inputs of the model; tensors for other inputs are left out
+ * @returns Input tensors by name
+ */
+export function createInputFeeds(
+  batch: EncodedText[],
+  padId: number,
+  inputNames?: readonly string[]
+): Record<string, ort.Tensor> {
+  const length = Math.max(...batch.map((encoded) => encoded.ids.length));
+  const padded = batch.map((encoded) => padSequence(encoded, length, padId));
+  const toTensor = (values: number[]) =>
+    new ort.Tensor('int64', new BigInt64Array(values.map((value) => BigInt(value))), [
+      batch.length,
+      length,
+    ]);
+
+  const tensors: Record<string, ort.Tensor> = {
+    input_ids: toTensor(padded.flatMap((encoded) => encoded.ids)),
+    attention_mask: toTensor(padded.flatMap((encoded) => encoded.attentionMask)),
+    token_type_ids: toTensor(padded.flatMap((encoded) => encoded.typeIds)),
+  };
+
+  // XLM-R based models take no token_type_ids, and unknown inputs are rejected
+  if (!inputNames) {
+    return tensors;
+  }
+  const feeds: Record<string, ort.Tensor> = {};
+  for (const name of inputNames) {
+    if (tensors[name]) {
+      feeds[name] = tensors[name];
+    }
+  }
+  return feeds;
+}
+
+/**
+ * Embed texts a batch at a time, reporting progress after each batch
+ * @param provider Embedding provider
+ * @param texts Texts to embed
+ * @param batchSize Number of texts embedded concurrently
+ * @param onProgress Called after each batch with the number of embedded texts
+ * @returns Embeddings in the order of the texts
+ * @throws Error if the provider returns vectors of an unexpected length
+ */
+export async function embedInBatches(
+  provider: EmbeddingProvider,
+  texts: string[],
+  batchSize = DEFAULT_EMBEDDING_BATCH_SIZE,
+  onProgress?: ProgressCallback
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const slice = texts.slice(start, start + batchSize);
+    const batch = provider.getEmbeddings
+      ? await provider.getEmbeddings(slice)
+      : await Promise.all(slice.map((text) => provider.getEmbedding(text)));
+    for (const embedding of batch) {
+      if (embedding.length !== provider.dimensions) {
+        throw new Error(
+          `Embedding model ${provider.modelId} returned ${embedding.length} dimensions, expected ${provider.dimensions}`
+        );
+      }
+    }
+    embeddings.push(...batch);
+    await onProgress?.(
+      embeddings.length,
+      texts.length,
+      `Embedded ${embeddings.length} of ${texts.length} texts`
+    );
+  }
+
+  return embeddings;
+}
+
 export default EmbeddingUtil;
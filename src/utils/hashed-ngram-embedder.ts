@@ -0,0 +1,93 @@
+import { EmbeddingProvider } from './embedding';
+
+/**
+ * Default vector length; differs from the ONNX model's so their vectors are never mixed in one index
+ */
+export const DEFAULT_HASHED_NGRAM_DIMENSIONS = 256;
+
+/**
+ * Version of the hashing scheme
+ * Bump it whenever the features or weights change, so vectors built with the old scheme are detected as stale
+ */
+const HASHING_VERSION = 1;
+
+/** Length of the character n-grams taken from each word */
+const NGRAM_LENGTH = 3;
+/** Weight of a whole word relative to one of its character n-grams */
+const WORD_WEIGHT = 2;
+
+/**
+ * 32-bit FNV-1a hash of a string
+ * @param text String to hash
+ * @returns Unsigned hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Dependency-free embedding provider hashing words and character n-grams into a fixed-size vector
+ * It needs no model file or network, so it serves as the offline fallback; the n-grams give
+ * related word forms and text without spaces (e.g. Korean) partial overlap
+ */
+export class HashedNgramEmbedder implements EmbeddingProvider {
+  readonly dimensions: number;
+
+  /**
+   * Constructor
+   * @param dimensions Length of the generated vectors
+   */
+  constructor(dimensions: number = DEFAULT_HASHED_NGRAM_DIMENSIONS) {
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Identifies the hashing scheme and vector length
+   */
+  get modelId(): string {
+    return `hashed-ngram-v${HASHING_VERSION}-${this.dimensions}`;
+  }
+
+  /**
+   * Generate a normalized vector of hashed words and character n-grams
+   * @param text Text to embed
+   * @returns Embedding vector; all zeros for text without words, which vector search matches with nothing
+   */
+  async getEmbedding(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words =
+      text
+        .normalize('NFKC')
+        .toLowerCase()
+        .match(/[\p{L}\p{N}_]+/gu) || [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+      const chars = Array.from(`^${word}$`);
+      for (let start = 0; start + NGRAM_LENGTH <= chars.length; start++) {
+        this.addFeature(vector, `c:${chars.slice(start, start + NGRAM_LENGTH).join('')}`, 1);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  /**
+   * Add a feature to its hashed bucket
+   * @param vector Vector being built
+   * @param feature Feature string
+   * @param weight Feature weight
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // The top bit decides the sign so unrelated features tend to cancel out
+    vector[hash % this.dimensions] += hash & 0x80000000 ? weight : -weight;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * In-process mutual exclusion keyed by an identifier such as a context ID
+ */
+export class KeyedMutex {
+  /** Promise settling when the last queued holder of each key releases it */
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Run a task once every earlier task for the same key has finished
+   * Tasks for different keys run concurrently
+   * @param key Lock key
+   * @param task Task to run while holding the lock
+   * @returns Result of the task
+   */
+  async runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+    let release!: () => void;
+    const held = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => held);
+    this.tails.set(key, tail);
+
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Check whether a task currently holds or waits for a key
+   * @param key Lock key
+   */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
@@ -0,0 +1,178 @@
+import { EmbeddingConfig } from '../config/config';
+import { EmbeddingProvider } from './embedding';
+
+/**
+ * Default API base URLs for the built-in OpenAI-compatible providers
+ */
+const DEFAULT_BASE_URLS: Record<string, string> = {
+  openai: 'https://api.openai.com/v1',
+  ollama: 'http://localhost:11434/v1',
+  llamacpp: 'http://localhost:8080/v1',
+};
+
+/**
+ * Default models for the built-in OpenAI-compatible providers
+ */
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  llamacpp: 'default',
+};
+
+/**
+ * Vector lengths of common embedding models, used when `embedding.dimensions` isn't set
+ */
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Subset of an OpenAI embeddings response used by the embedder
+ */
+interface EmbeddingsResponse {
+  data?: Array<{ index?: number; embedding?: number[] }>;
+}
+
+/**
+ * Embedding provider that calls an OpenAI-compatible `/embeddings` endpoint
+ * Works with OpenAI as well as local servers exposing the same API (Ollama, llama.cpp)
+ */
+export class OpenAICompatibleEmbedder implements EmbeddingProvider {
+  readonly dimensions: number;
+  private provider: string;
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  /** Whether the configured length is sent, asking models that support it to shorten their vectors */
+  private requestDimensions: boolean;
+  /** Pending or successful check of the endpoint */
+  private probe?: Promise<void>;
+
+  /**
+   * Constructor
+   * @param provider Provider name, used to pick defaults
+   * @param config Embedding configuration
+   * @throws Error if the vector length of the model is unknown
+   */
+  constructor(provider: string, config: EmbeddingConfig = {}) {
+    this.provider = provider;
+    this.baseUrl = (config.baseUrl || DEFAULT_BASE_URLS[provider] || DEFAULT_BASE_URLS.openai)
+      .trim()
+      .replace(/\/+$/, '');
+    this.model = config.model || DEFAULT_MODELS[provider] || DEFAULT_MODELS.openai;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.requestDimensions = config.dimensions !== undefined;
+
+    const dimensions = config.dimensions ?? KNOWN_DIMENSIONS[this.model];
+    if (!dimensions) {
+      throw new Error(
+        `Unknown vector length for ${provider} embedding model ${this.model}: set embedding.dimensions`
+      );
+    }
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Identifies the provider and model
+   */
+  get modelId(): string {
+    return `${this.provider}/${this.model}`;
+  }
+
+  /**
+   * Check once that the endpoint answers with vectors of the declared length
+   * A failed check is repeated on the next call, e.g. once a local server has started
+   * @throws Error if the endpoint is unreachable or returns vectors of another length
+   */
+  ensureInitialized(): Promise<void> {
+    if (!this.probe) {
+      this.probe = this.getEmbedding('ping').then((embedding) => {
+        if (embedding.length !== this.dimensions) {
+          throw new Error(
+            `Embedding model ${this.modelId} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+          );
+        }
+      });
+      this.probe.catch(() => {
+        this.probe = undefined;
+      });
+    }
+    return this.probe;
+  }
+
+  /**
+   * Generate an embedding vector for a text
+   * @param text Text to embed
+   * @returns Embedding vector
+   */
+  async getEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.getEmbeddings([text]);
+    return embedding;
+  }
+
+  /**
+   * Generate embedding vectors for several texts with one request
+   * @param texts Texts to embed
+   * @returns Embedding vectors in the order of the texts
+   */
+  async getEmbeddings(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers,
+        signal: controller.signal,
+        body: JSON.stringify({
+          model: this.model,
+          input: texts,
+          ...(this.requestDimensions ? { dimensions: this.dimensions } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        throw new Error(
+          `${this.provider} embedding request failed with status ${response.status}: ${errorText.slice(0, 200)}`
+        );
+      }
+
+      const data = (await response.json()) as EmbeddingsResponse;
+      // Entries carry the index of their input and aren't guaranteed to be in order
+      const entries = [...(data.data || [])].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      if (entries.length !== texts.length || entries.some((entry) => !entry.embedding)) {
+        throw new Error(
+          `${this.provider} embedding response has ${entries.length} embeddings for ${texts.length} texts`
+        );
+      }
+
+      return entries.map((entry) => entry.embedding || []);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`${this.provider} embedding request timed out after ${this.timeoutMs}ms`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
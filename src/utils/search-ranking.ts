@@ -0,0 +1,218 @@
+/**
+ * Utility for combining the results of several search methods into one ranking, and for
+ * reordering a ranking by diversity, recency and importance
+ */
+import { DEFAULT_SNIPPETS_PER_CONTEXT } from './chunker';
+import { tokenize } from './bm25';
+import { RelatedContext } from '../types/related-context';
+
+/** Rank offset of reciprocal rank fusion; damps the lead of the very first ranks */
+const DEFAULT_RRF_K = 60;
+/** Trade-off of maximal marginal relevance between relevance (1) and novelty (0) */
+export const DEFAULT_MMR_LAMBDA = 0.7;
+export const DEFAULT_RECENCY_HALF_LIFE_DAYS = 30;
+export const DEFAULT_RECENCY_WEIGHT = 0.2;
+export const DEFAULT_IMPORTANCE_WEIGHT = 0.2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Context metadata that boosts a search result
+ */
+export interface RankingSignals {
+  /** Timestamp of the last activity (ms); no recency boost without it */
+  lastActivityAt?: number;
+  /** Importance from 0 to 1; no importance boost without it */
+  importanceScore?: number;
+}
+
+/**
+ * Strength of the recency and importance boosts
+ */
+export interface BoostOptions {
+  recencyWeight?: number;
+  recencyHalfLifeDays?: number;
+  importanceWeight?: number;
+  /** Current time (ms) */
+  now?: number;
+}
+
+/**
+ * Fuse rankings with reciprocal rank fusion
+ * Every context scores the sum of 1 / (k + rank) over the rankings it appears in, so only
+ * ranks matter and scores of different scales, such as cosine similarity and BM25, can be mixed
+ * @param rankings Results of each search method, best first
+ * @param limit Maximum number of contexts
+ * @param k Rank offset
+ * @returns Contexts ordered by fused score, reported as their weight, with the snippets of all rankings
+ */
+export function fuseRankings(
+  rankings: RelatedContext[][],
+  limit: number,
+  k: number = DEFAULT_RRF_K
+): RelatedContext[] {
+  const fused = new Map<string, { context: RelatedContext; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((context, rank) => {
+      const score = 1 / (k + rank + 1);
+      const existing = fused.get(context.contextId);
+      if (!existing) {
+        fused.set(context.contextId, { context: { ...context }, score });
+        return;
+      }
+
+      existing.score += score;
+      // Prefer the vector similarity, the only score that is comparable across queries
+      if (existing.context.similarity === undefined) {
+        existing.context.similarity = context.similarity;
+      }
+      existing.context.scores = { ...context.scores, ...existing.context.scores };
+      const snippets = [...(existing.context.snippets || [])];
+      for (const snippet of context.snippets || []) {
+        const duplicate = snippets.some(
+          (other) =>
+            other.messageIndex === snippet.messageIndex &&
+            other.kind === snippet.kind &&
+            other.start === snippet.start
+        );
+        if (!duplicate) {
+          snippets.push(snippet);
+        }
+      }
+      existing.context.snippets = snippets.slice(0, DEFAULT_SNIPPETS_PER_CONTEXT);
+    });
+  }
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score || a.context.contextId.localeCompare(b.context.contextId))
+    .slice(0, limit)
+    .map(({ context, score }) => ({
+      ...context,
+      weight: score,
+      scores: { ...context.scores, fused: score },
+    }));
+}
+
+/**
+ * Scale scores so the best one is 1
+ * @param scores Non-negative scores
+ * @returns Scores from 0 to 1; all 0 if no score is positive
+ */
+export function normalizeScores(scores: number[]): number[] {
+  const max = Math.max(0, ...scores);
+  return scores.map((score) => (max > 0 ? Math.max(0, score) / max : 0));
+}
+
+/**
+ * Compute the boosts for how recently a context was active and how important it is
+ * The recency signal halves every half-life, so the boost fades from recencyWeight towards 0
+ * @param signals Context metadata; boosts of missing signals are 0
+ * @param options Boost strengths
+ * @returns Share of the relevance added by each signal
+ */
+export function computeBoosts(
+  signals: RankingSignals,
+  options: BoostOptions = {}
+): { recency: number; importance: number } {
+  let recency = 0;
+  if (signals.lastActivityAt !== undefined) {
+    const halfLifeMs = (options.recencyHalfLifeDays ?? DEFAULT_RECENCY_HALF_LIFE_DAYS) * DAY_MS;
+    const age = Math.max(0, (options.now ?? Date.now()) - signals.lastActivityAt);
+    recency = (options.recencyWeight ?? DEFAULT_RECENCY_WEIGHT) * Math.pow(0.5, age / halfLifeMs);
+  }
+  const importance =
+    signals.importanceScore !== undefined
+      ? (options.importanceWeight ?? DEFAULT_IMPORTANCE_WEIGHT) * signals.importanceScore
+      : 0;
+  return { recency, importance };
+}
+
+/**
+ * Boost a relevance score by how recently a context was active and how important it is
+ * Boosts scale the relevance, so they reorder similarly relevant results but don't lift unrelated ones
+ * @param relevance Relevance from 0 to 1
+ * @param signals Context metadata
+ * @param options Boost strengths
+ * @returns Boosted score
+ */
+export function boostScore(
+  relevance: number,
+  signals: RankingSignals,
+  options: BoostOptions = {}
+): number {
+  const { recency, importance } = computeBoosts(signals, options);
+  return relevance * (1 + recency + importance);
+}
+
+/**
+ * Count the terms of a text
+ */
+function termFrequencies(text: string): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  for (const term of tokenize(text)) {
+    frequencies.set(term, (frequencies.get(term) || 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * Cosine similarity of two term frequency vectors
+ */
+function termSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const [term, count] of a) {
+    dot += count * (b.get(term) || 0);
+    normA += count * count;
+  }
+  for (const count of b.values()) {
+    normB += count * count;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Order results by maximal marginal relevance
+ * Each step picks the result with the highest lambda * relevance - (1 - lambda) * similarity to
+ * the results already picked, so copies of a picked context drop behind different content.
+ * Relevance is the weight relative to the best one; similarity compares the terms of the texts.
+ * @param results Results, best first
+ * @param limit Maximum number of results
+ * @param lambda Trade-off between relevance (1) and novelty (0)
+ * @returns Diversified results keeping their weights
+ */
+export function diversifyResults(
+  results: RelatedContext[],
+  limit: number,
+  lambda: number = DEFAULT_MMR_LAMBDA
+): RelatedContext[] {
+  const relevance = normalizeScores(results.map((result) => result.weight));
+  const terms = results.map((result) => termFrequencies(result.text || result.summary));
+  const maxSimilarity = results.map(() => 0);
+  const remaining = new Set(results.map((_result, position) => position));
+  const selected: RelatedContext[] = [];
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const position of remaining) {
+      const score = lambda * relevance[position] - (1 - lambda) * maxSimilarity[position];
+      if (score > bestScore) {
+        best = position;
+        bestScore = score;
+      }
+    }
+
+    remaining.delete(best);
+    selected.push(results[best]);
+    for (const position of remaining) {
+      maxSimilarity[position] = Math.max(
+        maxSimilarity[position],
+        termSimilarity(terms[position], terms[best])
+      );
+    }
+  }
+
+  return selected;
+}
@@ -0,0 +1,50 @@
+/**
+ * Utility for comparing versions of a context summary
+ */
+import { CodeBlock, ContextSummary, SummaryDiff } from '../domain/types';
+
+/**
+ * Split summary text into trimmed sentences
+ * @param text Summary text
+ * @returns Sentences in their original order
+ */
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) || []).map((sentence) => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Items of a list that are missing from another list
+ * @param items Items to check
+ * @param other Items to compare against
+ * @param key Function returning the comparison key of an item
+ * @returns Items whose key does not occur in the other list
+ */
+function difference<T>(items: T[], other: T[], key: (item: T) => string): T[] {
+  const otherKeys = new Set(other.map(key));
+  return items.filter((item) => !otherKeys.has(key(item)));
+}
+
+/**
+ * Compare two versions of a context summary
+ * @param from Older summary version
+ * @param to Newer summary version
+ * @returns Differences between the two versions
+ */
+export function diffSummaries(from: ContextSummary, to: ContextSummary): SummaryDiff {
+  const fromSentences = splitSentences(from.summary);
+  const toSentences = splitSentences(to.summary);
+  const identity = (value: string): string => value;
+  const codeKey = (block: CodeBlock): string => `${block.language || ''}\n${block.code}`;
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    messageCountDelta: to.messageCount - from.messageCount,
+    addedSentences: difference(toSentences, fromSentences, identity),
+    removedSentences: difference(fromSentences, toSentences, identity),
+    addedInsights: difference(to.keyInsights || [], from.keyInsights || [], identity),
+    removedInsights: difference(from.keyInsights || [], to.keyInsights || [], identity),
+    addedCodeBlocks: difference(to.codeBlocks, from.codeBlocks, codeKey),
+    removedCodeBlocks: difference(from.codeBlocks, to.codeBlocks, codeKey),
+  };
+}